@@ -15,6 +15,7 @@ export interface RebaseOptions {
 
 export interface GitLogOptions {
   count?: number | null;
+  range?: string;
   format?: string;
   separator?: string;
   maxBuffer?: number;
@@ -30,6 +31,22 @@ export interface GitStatusOptions {
   porcelain?: boolean;
 }
 
+/**
+ * Identity, dates and tree of a single commit
+ */
+export interface CommitMetadata {
+  hash: string;
+  tree: string;
+  parents: string[];
+  authorName: string;
+  authorEmail: string;
+  authorDate: string;
+  committerName: string;
+  committerEmail: string;
+  committerDate: string;
+  subject: string;
+}
+
 /**
  * Core Git Interface
  *
@@ -59,6 +76,22 @@ export interface GitInterface {
    */
   getCommitDiff(repoPath: string, hash: string, options?: GitShowOptions): Promise<string>;
 
+  /**
+   * Get the changes staged for the next commit
+   * @param repoPath - Path to the git repository
+   * @param options - nameStatus lists the files with their status instead of the patch
+   * @returns Patch, or name-status lines, of the index against HEAD
+   */
+  getStagedDiff(repoPath: string, options?: GitShowOptions): Promise<string>;
+
+  /**
+   * Commit the staged changes with the message in a file, running the repository's hooks
+   * @param repoPath - Path to the git repository
+   * @param messageFile - File holding the commit message
+   * @param options - edit opens the message in git's editor before committing
+   */
+  commitStaged(repoPath: string, messageFile: string, options?: { edit?: boolean }): Promise<void>;
+
   // =================================================================
   // Repository Information
   // =================================================================
@@ -91,6 +124,88 @@ export interface GitInterface {
    */
   getCurrentBranch(repoPath: string): Promise<string>;
 
+  /**
+   * Get the top-level directory of the working tree containing a path
+   * @param repoPath - Path inside the git repository
+   * @returns Absolute path of the repository root
+   */
+  getRepositoryRoot(repoPath: string): Promise<string>;
+
+  /**
+   * Get the directory git runs hooks from, honouring core.hooksPath and worktrees
+   * @param repoPath - Path inside the git repository
+   * @returns Absolute path of the hooks directory (it may not exist yet)
+   */
+  getHooksDirectory(repoPath: string): Promise<string>;
+
+  /**
+   * Get the commits without parents reachable from HEAD, sorted
+   * @param repoPath - Path to the git repository
+   * @returns Full hashes of the root commits (empty for a repository without commits)
+   */
+  getRootCommits(repoPath: string): Promise<string[]>;
+
+  /**
+   * Get the URL a remote fetches from
+   * @param repoPath - Path to the git repository
+   * @param remote - Remote name (default: origin)
+   * @returns Remote URL, or null when the remote is not configured
+   */
+  getRemoteUrl(repoPath: string, remote?: string): Promise<string | null>;
+
+  /**
+   * Resolve a revision (branch, tag or abbreviated hash) to a full commit hash
+   * @param repoPath - Path to the git repository
+   * @param revision - Revision to resolve
+   * @returns Full commit hash
+   */
+  resolveCommit(repoPath: string, revision: string): Promise<string>;
+
+  /**
+   * Resolve many abbreviated or full commit hashes at once. Hashes that no longer
+   * exist in the repository are left out.
+   * @param repoPath - Path to the git repository
+   * @param hashes - Commit hashes (abbreviated or full)
+   * @returns Map from each given hash to its full commit hash
+   */
+  resolveCommits(repoPath: string, hashes: string[]): Promise<Map<string, string>>;
+
+  /**
+   * Check whether one commit is an ancestor of (or the same as) another
+   * @param repoPath - Path to the git repository
+   * @param ancestor - Possible ancestor commit
+   * @param descendant - Commit whose history is searched
+   * @returns True if ancestor is reachable from descendant
+   */
+  isAncestor(repoPath: string, ancestor: string, descendant: string): Promise<boolean>;
+
+  /**
+   * Find the commits that are not in the history of another, with a single history walk.
+   * Commits that no longer exist in the repository count as unreachable.
+   * @param repoPath - Path to the git repository
+   * @param hashes - Commit hashes (abbreviated or full)
+   * @param head - Commit whose history is searched
+   * @returns The given hashes that are not reachable from head
+   */
+  getUnreachableCommits(repoPath: string, hashes: string[], head: string): Promise<string[]>;
+
+  /**
+   * Get the stable patch-id of each commit, which stays the same when only the message,
+   * author or parents change. Commits whose objects no longer exist are left out.
+   * @param repoPath - Path to the git repository
+   * @param hashes - Commit hashes (abbreviated or full)
+   * @returns Map from each given hash to its patch-id
+   */
+  getPatchIds(repoPath: string, hashes: string[]): Promise<Map<string, string>>;
+
+  /**
+   * Get identity, dates and tree for every commit in a range, newest first in topological order
+   * @param repoPath - Path to the git repository
+   * @param range - Commit range (e.g., "abc123..HEAD" or "HEAD")
+   * @returns Array of commit metadata
+   */
+  getCommitMetadata(repoPath: string, range: string): Promise<CommitMetadata[]>;
+
   // =================================================================
   // Branch Operations
   // =================================================================
@@ -137,9 +252,19 @@ export interface GitInterface {
    * Get commits in range for rebase planning
    * @param repoPath - Path to the git repository
    * @param range - Commit range (e.g., "HEAD~5..HEAD")
-   * @returns Array of commit information
+   * @returns One line per commit, oldest first: abbreviated hash and subject separated by NUL
    */
   getCommitsInRange(repoPath: string, range: string): Promise<string[]>;
+
+  /**
+   * Rewrite the messages of every commit in a range without user interaction.
+   * The script receives the original message on stdin and the original hash in
+   * GIT_COMMIT, and prints the new message. Trees, authors and dates are preserved.
+   * @param repoPath - Path to the git repository
+   * @param range - Commit range to rewrite (e.g., "abc123..HEAD")
+   * @param options - Rebase options; scriptPath is required
+   */
+  executeMessageFilter(repoPath: string, range: string, options: RebaseOptions): Promise<void>;
 }
 
 /**
@@ -1,5 +1,6 @@
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
+import path from 'path';
 import {
   type GitInterface,
   type GitLogOptions,
@@ -7,10 +8,12 @@ import {
   type GitStatusOptions,
   type RebaseOptions,
   type GitCommandResult,
+  type CommitMetadata,
   GitError,
 } from './GitInterface';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 /**
  * Real Git Interface Implementation
@@ -22,34 +25,80 @@ const execAsync = promisify(exec);
 export class RealGitInterface implements GitInterface {
   /**
    * Execute a git command with proper error handling
-   * @param command - Git command to execute
+   * @param command - Git command line for the shell, or git's arguments to run it without one.
+   *   Pass arguments whenever they hold user input such as a revision or range.
    * @param cwd - Working directory for the command
    * @param maxBuffer - Maximum buffer size for command output
+   * @param env - Extra environment variables for the command
    * @returns Command execution result
    */
   private async executeGitCommand(
-    command: string,
+    command: string | string[],
     cwd: string,
-    maxBuffer = 10 * 1024 * 1024
+    maxBuffer = 10 * 1024 * 1024,
+    env: Record<string, string> = {}
   ): Promise<GitCommandResult> {
+    const options = { cwd, maxBuffer, env: { ...process.env, ...env } };
     try {
-      const { stdout, stderr } = await execAsync(command, {
-        cwd,
-        maxBuffer,
-      });
+      const { stdout, stderr } =
+        typeof command === 'string'
+          ? await execAsync(command, options)
+          : await execFileAsync('git', command, options);
       return {
         stdout,
         stderr,
         exitCode: 0,
       };
     } catch (error: unknown) {
-      const execError = error as { code?: number; stderr?: string; message?: string };
-      const exitCode = execError.code ?? 1;
-      const stderr = execError.stderr ?? execError.message ?? '';
-      // const _stdout = error.stdout ?? ''; // Available for debugging if needed
+      throw this.toGitError(
+        error,
+        typeof command === 'string' ? command : `git ${command.join(' ')}`
+      );
+    }
+  }
 
-      throw new GitError(`Git command failed: ${command}`, command, exitCode, stderr);
+  /**
+   * Run git with the first arguments and feed its output to git with the second, as
+   * `git <from> | git <to>` would without a shell
+   * @param from - Arguments of the command whose output is read
+   * @param to - Arguments of the command reading it
+   * @param cwd - Working directory for both commands
+   * @param maxBuffer - Maximum buffer size for each command's output
+   * @returns Result of the second command
+   */
+  private async pipeGitCommands(
+    from: string[],
+    to: string[],
+    cwd: string,
+    maxBuffer = 10 * 1024 * 1024
+  ): Promise<GitCommandResult> {
+    const options = { cwd, maxBuffer, env: process.env };
+    const producer = execFileAsync('git', from, options);
+    const consumer = execFileAsync('git', to, options);
+    const { stdout: output } = producer.child;
+    const { stdin: input } = consumer.child;
+    if (output !== null && input !== null) {
+      // The reader's own exit status reports a failure; a closed pipe is not one
+      input.on('error', () => undefined);
+      output.pipe(input);
     }
+
+    const commandLine = `git ${from.join(' ')} | git ${to.join(' ')}`;
+    try {
+      const [, { stdout, stderr }] = await Promise.all([producer, consumer]);
+      return { stdout, stderr, exitCode: 0 };
+    } catch (error: unknown) {
+      throw this.toGitError(error, commandLine);
+    }
+  }
+
+  private toGitError(error: unknown, commandLine: string): GitError {
+    const execError = error as { code?: number; stderr?: string; message?: string };
+    const exitCode = execError.code ?? 1;
+    const stderr = execError.stderr ?? execError.message ?? '';
+    // const _stdout = error.stdout ?? ''; // Available for debugging if needed
+
+    return new GitError(`Git command failed: ${commandLine}`, commandLine, exitCode, stderr);
   }
 
   // =================================================================
@@ -59,6 +108,7 @@ export class RealGitInterface implements GitInterface {
   async getLogEntries(repoPath: string, options: GitLogOptions = {}): Promise<string[]> {
     const {
       count = null,
+      range,
       format = '%h%x00%s',
       separator = '\0',
       maxBuffer = 10 * 1024 * 1024,
@@ -66,10 +116,14 @@ export class RealGitInterface implements GitInterface {
 
     try {
       // Use NUL separator to handle commit messages with special characters
-      const command =
-        count === null
-          ? `git log -z --pretty=format:"${format}"`
-          : `git log -z --pretty=format:"${format}" -${count}`;
+      const command = [
+        'log',
+        '-z',
+        `--pretty=format:${format}`,
+        ...(count !== null ? [`-${count}`] : []),
+        // The range may hold a HEAD read from a cache file, so git must not take it as an option
+        ...(range !== undefined ? ['--end-of-options', range] : []),
+      ];
 
       const result = await this.executeGitCommand(command, repoPath, maxBuffer);
       return result.stdout.split(separator).filter((line) => line.trim() !== '');
@@ -161,6 +215,40 @@ export class RealGitInterface implements GitInterface {
     }
   }
 
+  async getStagedDiff(repoPath: string, options: GitShowOptions = {}): Promise<string> {
+    const { nameStatus = false, maxBuffer = 10 * 1024 * 1024 } = options;
+    const result = await this.executeGitCommand(
+      `git diff --cached --no-color --no-ext-diff${nameStatus ? ' --name-status' : ''}`,
+      repoPath,
+      maxBuffer
+    );
+    return result.stdout;
+  }
+
+  async commitStaged(
+    repoPath: string,
+    messageFile: string,
+    options: { edit?: boolean } = {}
+  ): Promise<void> {
+    const args = ['commit', '-F', messageFile, ...(options.edit === true ? ['--edit'] : [])];
+    const { spawn } = await import('child_process');
+
+    // Inherit the terminal so the editor and the hooks' output reach the user
+    const commitProcess = spawn('git', args, { cwd: repoPath, stdio: 'inherit' });
+    await new Promise<void>((resolve, reject) => {
+      commitProcess.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(
+            new GitError(`git commit exited with code ${code}`, `git ${args.join(' ')}`, code ?? 1)
+          );
+        }
+      });
+      commitProcess.on('error', reject);
+    });
+  }
+
   // =================================================================
   // Repository Information
   // =================================================================
@@ -207,6 +295,192 @@ export class RealGitInterface implements GitInterface {
     }
   }
 
+  async getRepositoryRoot(repoPath: string): Promise<string> {
+    const result = await this.executeGitCommand('git rev-parse --show-toplevel', repoPath);
+    return result.stdout.trim();
+  }
+
+  async getHooksDirectory(repoPath: string): Promise<string> {
+    // Relative to repoPath unless core.hooksPath is absolute
+    const result = await this.executeGitCommand('git rev-parse --git-path hooks', repoPath);
+    return path.resolve(repoPath, result.stdout.trim());
+  }
+
+  async getRootCommits(repoPath: string): Promise<string[]> {
+    try {
+      const result = await this.executeGitCommand('git rev-list --max-parents=0 HEAD', repoPath);
+      return result.stdout
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line !== '')
+        .sort();
+    } catch {
+      // No commits yet
+      return [];
+    }
+  }
+
+  async getRemoteUrl(repoPath: string, remote = 'origin'): Promise<string | null> {
+    try {
+      const result = await this.executeGitCommand(`git remote get-url "${remote}"`, repoPath);
+      const url = result.stdout.trim();
+      return url !== '' ? url : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async resolveCommit(repoPath: string, revision: string): Promise<string> {
+    const result = await this.executeGitCommand(
+      ['rev-parse', '--verify', '--quiet', `${revision}^{commit}`],
+      repoPath
+    );
+    return result.stdout.trim();
+  }
+
+  async resolveCommits(repoPath: string, hashes: string[]): Promise<Map<string, string>> {
+    const resolved = new Map<string, string>();
+    if (hashes.length === 0) {
+      return resolved;
+    }
+
+    // Drop commits that were garbage collected so one missing object doesn't fail the batch
+    const existing = await this.executeGitCommand(
+      ['rev-list', '--no-walk', '--ignore-missing', '--end-of-options', ...hashes],
+      repoPath
+    );
+    for (const fullHash of existing.stdout.split('\n').map((line) => line.trim())) {
+      if (fullHash === '') continue;
+
+      for (const hash of hashes) {
+        if (fullHash.startsWith(hash)) {
+          resolved.set(hash, fullHash);
+        }
+      }
+    }
+
+    return resolved;
+  }
+
+  async isAncestor(repoPath: string, ancestor: string, descendant: string): Promise<boolean> {
+    try {
+      await this.executeGitCommand(
+        ['merge-base', '--is-ancestor', '--end-of-options', ancestor, descendant],
+        repoPath
+      );
+      return true;
+    } catch (error) {
+      // Exit code 1 means "not an ancestor"; anything else is a real failure
+      if (error instanceof GitError && error.exitCode === 1) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async getUnreachableCommits(repoPath: string, hashes: string[], head: string): Promise<string[]> {
+    if (hashes.length === 0) {
+      return [];
+    }
+
+    const resolved = await this.resolveCommits(repoPath, hashes);
+    const existing = [...new Set(resolved.values())];
+    // Everything reachable from the given commits but not from head, in one walk
+    const result =
+      existing.length > 0
+        ? await this.executeGitCommand(
+            ['rev-list', '--end-of-options', ...existing, `^${head}`],
+            repoPath
+          )
+        : { stdout: '' };
+    const unreachable = new Set(result.stdout.split('\n').map((line) => line.trim()));
+
+    return hashes.filter((hash) => {
+      const fullHash = resolved.get(hash);
+      return fullHash === undefined || unreachable.has(fullHash);
+    });
+  }
+
+  async getPatchIds(repoPath: string, hashes: string[]): Promise<Map<string, string>> {
+    const patchIds = new Map<string, string>();
+    if (hashes.length === 0) {
+      return patchIds;
+    }
+
+    const fullHashes = [...new Set((await this.resolveCommits(repoPath, hashes)).values())];
+    if (fullHashes.length === 0) {
+      return patchIds;
+    }
+
+    const result = await this.pipeGitCommands(
+      [
+        'show',
+        '--no-color',
+        '--no-ext-diff',
+        '--format=commit %H',
+        '--patch',
+        '--end-of-options',
+        ...fullHashes,
+      ],
+      ['patch-id', '--stable'],
+      repoPath,
+      256 * 1024 * 1024
+    );
+
+    for (const line of result.stdout.split('\n')) {
+      const [patchId, commit] = line.trim().split(' ');
+      if (patchId === undefined || commit === undefined) continue;
+
+      const hash = hashes.find((candidate) => commit.startsWith(candidate));
+      if (hash !== undefined) {
+        patchIds.set(hash, patchId);
+      }
+    }
+
+    return patchIds;
+  }
+
+  async getCommitMetadata(repoPath: string, range: string): Promise<CommitMetadata[]> {
+    // Unit separators between fields, NUL between commits
+    const format = ['%H', '%T', '%P', '%an', '%ae', '%aI', '%cn', '%ce', '%cI', '%s'].join('%x1f');
+    const result = await this.executeGitCommand(
+      `git log -z --topo-order --format="${format}" ${range}`,
+      repoPath,
+      256 * 1024 * 1024
+    );
+
+    return result.stdout
+      .split('\0')
+      .filter((entry) => entry.trim() !== '')
+      .map((entry) => {
+        const [
+          hash = '',
+          tree = '',
+          parents = '',
+          authorName = '',
+          authorEmail = '',
+          authorDate = '',
+          committerName = '',
+          committerEmail = '',
+          committerDate = '',
+          subject = '',
+        ] = entry.split('\x1f');
+
+        return {
+          hash,
+          tree,
+          parents: parents.split(' ').filter((parent) => parent !== ''),
+          authorName,
+          authorEmail,
+          authorDate,
+          committerName,
+          committerEmail,
+          committerDate,
+          subject,
+        };
+      });
+  }
+
   // =================================================================
   // Branch Operations
   // =================================================================
@@ -214,9 +488,9 @@ export class RealGitInterface implements GitInterface {
   async createBranch(repoPath: string, branchName: string): Promise<void> {
     try {
       await this.executeGitCommand(`git branch ${branchName}`, repoPath);
-      console.log(`✅ Created backup branch: ${branchName}`);
+      console.log(`✅ Created branch: ${branchName}`);
     } catch (error) {
-      console.error('❌ Failed to create backup branch:', error);
+      console.error('❌ Failed to create branch:', error);
       throw error;
     }
   }
@@ -295,7 +569,10 @@ export class RealGitInterface implements GitInterface {
 
   async getCommitsInRange(repoPath: string, range: string): Promise<string[]> {
     try {
-      const result = await this.executeGitCommand(`git log --reverse --oneline ${range}`, repoPath);
+      const result = await this.executeGitCommand(
+        ['log', '--reverse', '--no-decorate', '--format=%h%x00%s', '--end-of-options', range],
+        repoPath
+      );
 
       return result.stdout
         .trim()
@@ -307,6 +584,25 @@ export class RealGitInterface implements GitInterface {
     }
   }
 
+  async executeMessageFilter(
+    repoPath: string,
+    range: string,
+    options: RebaseOptions
+  ): Promise<void> {
+    const { scriptPath, env = {} } = options;
+    if (scriptPath === undefined) {
+      throw new GitError('A message-filter script is required', 'git filter-branch');
+    }
+
+    const command = `git filter-branch -f --msg-filter "sh '${scriptPath}'" -- ${range}`;
+
+    // filter-branch keeps trees, author and committer identities and dates as they are
+    await this.executeGitCommand(command, repoPath, 64 * 1024 * 1024, {
+      FILTER_BRANCH_SQUELCH_WARNING: '1',
+      ...env,
+    });
+  }
+
   // =================================================================
   // Helper Methods
   // =================================================================
@@ -0,0 +1,139 @@
+/**
+ * Analysis summarizer for the versioned summary printed with --json
+ */
+
+import type { ClassifiedCommit } from '../types/commits';
+import { type AnalysisSummary, createOutputDocument } from '../types/output';
+import { isValidConventionalCommit } from '../utils/validation';
+import type { RuleEngineReport } from './RuleEngine';
+
+/**
+ * Everything an analysis run produced that the summary reports on
+ */
+export interface AnalysisResults {
+  readonly repoPath: string;
+  readonly insights: {
+    readonly totalCommits: number;
+    readonly currentBranch: string;
+    readonly isClean: boolean;
+    readonly commonFileTypes: Record<string, number>;
+  };
+  readonly commits: ClassifiedCommit[];
+  readonly classification: AnalysisSummary['classification'];
+  readonly rules?: { readonly generated: number; readonly report: RuleEngineReport };
+  readonly rewrite?: AnalysisSummary['rewrite'];
+}
+
+export class AnalysisSummarizer {
+  static readonly SAMPLE_SIZE = 5;
+
+  private static readonly CONVENTIONAL_PATTERN =
+    /^(feat|fix|docs|style|refactor|test|chore|build|ci|perf|revert)(\(.+\))?:/i;
+
+  /**
+   * Whether a commit already follows the conventions: the model's verdict when it
+   * classified the commit, otherwise a prefix check on the message
+   */
+  static isConventional(
+    commit: ClassifiedCommit,
+    classification: AnalysisSummary['classification']
+  ): boolean {
+    return classification === 'model'
+      ? commit.conformingPrefix !== undefined
+      : AnalysisSummarizer.CONVENTIONAL_PATTERN.test(commit.message);
+  }
+
+  /**
+   * The prefix a conventional commit uses; undefined for non-conventional commits
+   */
+  static prefixOf(
+    commit: ClassifiedCommit,
+    classification: AnalysisSummary['classification']
+  ): string | undefined {
+    return classification === 'model'
+      ? commit.conformingPrefix
+      : AnalysisSummarizer.CONVENTIONAL_PATTERN.exec(commit.message)?.[1]?.toLowerCase();
+  }
+
+  /**
+   * Build the summary document for a finished analysis
+   */
+  summarize(results: AnalysisResults): AnalysisSummary {
+    const { commits, classification, insights } = results;
+    const nonConventional = commits.filter(
+      (commit) => !AnalysisSummarizer.isConventional(commit, classification)
+    );
+    const conventional = commits.length - nonConventional.length;
+
+    const suggestedPrefixes: Record<string, number> = {};
+    nonConventional.forEach((commit) => {
+      if (commit.suggestedPrefix !== undefined) {
+        suggestedPrefixes[commit.suggestedPrefix] =
+          (suggestedPrefixes[commit.suggestedPrefix] ?? 0) + 1;
+      }
+    });
+
+    return {
+      ...createOutputDocument('analysis-summary'),
+      repository: {
+        path: results.repoPath,
+        branch: insights.currentBranch,
+        totalCommits: insights.totalCommits,
+        isClean: insights.isClean,
+      },
+      classification,
+      totals: {
+        analyzed: commits.length,
+        conventional,
+        nonConventional: nonConventional.length,
+        conventionalPercentage:
+          commits.length > 0 ? Math.round((conventional / commits.length) * 1000) / 10 : 0,
+      },
+      nonConformingSamples: nonConventional
+        .slice(0, AnalysisSummarizer.SAMPLE_SIZE)
+        .map((commit) => ({
+          hash: commit.hash,
+          subject: commit.message.split('\n')[0] ?? commit.message,
+          ...(commit.suggestedPrefix !== undefined
+            ? { suggestedPrefix: commit.suggestedPrefix }
+            : {}),
+          ...(commit.reason !== undefined ? { reason: commit.reason } : {}),
+        })),
+      suggestedPrefixes: this.sortByCount(suggestedPrefixes),
+      fileTypes: this.sortByCount(insights.commonFileTypes),
+      rules: results.rules !== undefined ? this.summarizeRules(results.rules, commits) : null,
+      rewrite: results.rewrite ?? null,
+    };
+  }
+
+  /**
+   * Recommendations for the repository, based on how many commits follow the conventions
+   */
+  recommend(summary: AnalysisSummary): string[] {
+    return summary.totals.nonConventional > summary.totals.conventional
+      ? [
+          'Consider implementing conventional commit standards',
+          'Add commit message linting to your workflow',
+        ]
+      : ['Great job! Most commits follow conventional standards'];
+  }
+
+  private summarizeRules(
+    rules: NonNullable<AnalysisResults['rules']>,
+    commits: ClassifiedCommit[]
+  ): AnalysisSummary['rules'] {
+    const { unchanged, conflicts } = rules.report;
+    return {
+      generated: rules.generated,
+      rewritten: commits.length - unchanged.length,
+      unchanged: unchanged.length,
+      stillNonConventional: unchanged.filter((commit) => !isValidConventionalCommit(commit.message))
+        .length,
+      conflicts: conflicts.length,
+    };
+  }
+
+  private sortByCount(counts: Record<string, number>): Record<string, number> {
+    return Object.fromEntries(Object.entries(counts).sort(([, a], [, b]) => b - a));
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Adaptive batch scheduler for sizing LLM classification requests
+ */
+
+import type { BatchConfig, Config } from '../types/config';
+import type { GcaCache } from '../types/cache';
+
+export type BatchState = NonNullable<GcaCache['batchState']>;
+
+export class BatchScheduler {
+  private static readonly CHARS_PER_TOKEN = 4;
+  private static readonly PER_ITEM_OVERHEAD_TOKENS = 16;
+
+  private readonly state: BatchState;
+
+  constructor(
+    private readonly config: BatchConfig,
+    initialState?: BatchState
+  ) {
+    this.state =
+      initialState !== undefined
+        ? { ...initialState, currentBatchSize: this.clampSize(initialState.currentBatchSize) }
+        : {
+            currentBatchSize: this.clampSize(config.initialSize),
+            consecutiveSuccesses: 0,
+            consecutiveFailures: 0,
+            contextOverflowCount: 0,
+          };
+  }
+
+  /**
+   * Create a scheduler from application configuration
+   */
+  static fromConfig(config: Config, initialState?: BatchState): BatchScheduler {
+    return new BatchScheduler(
+      {
+        initialSize: config.initialBatchSize,
+        minSize: config.minBatchSize,
+        maxSize: config.maxBatchSize,
+        growthFactor: config.growthFactor,
+        decayFactor: config.decayFactor,
+        successThreshold: config.successThreshold,
+        contextLimitThreshold: config.contextLimitThreshold,
+      },
+      initialState
+    );
+  }
+
+  /**
+   * Estimate the number of tokens a piece of prompt text will consume
+   */
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / BatchScheduler.CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Current target batch size
+   */
+  getBatchSize(): number {
+    return this.state.currentBatchSize;
+  }
+
+  /**
+   * Snapshot of the scheduler state for cache persistence
+   */
+  getState(): BatchState {
+    return { ...this.state };
+  }
+
+  /**
+   * Select the next batch starting at startIndex, capped by batch size and token budget.
+   * At least one item is always returned while items remain.
+   */
+  nextBatch<T>(items: T[], startIndex: number, toPromptText: (item: T) => string): T[] {
+    const batch: T[] = [];
+    let tokens = 0;
+
+    for (let i = startIndex; i < items.length && batch.length < this.state.currentBatchSize; i++) {
+      const item = items[i];
+      if (item === undefined) break;
+
+      const itemTokens =
+        BatchScheduler.estimateTokens(toPromptText(item)) + BatchScheduler.PER_ITEM_OVERHEAD_TOKENS;
+      if (batch.length > 0 && tokens + itemTokens > this.config.contextLimitThreshold) {
+        break;
+      }
+
+      batch.push(item);
+      tokens += itemTokens;
+    }
+
+    return batch;
+  }
+
+  /**
+   * Record a successful batch, growing the batch size after enough consecutive successes
+   */
+  recordSuccess(): void {
+    this.state.consecutiveFailures = 0;
+    this.state.consecutiveSuccesses++;
+
+    if (this.state.consecutiveSuccesses >= this.config.successThreshold) {
+      this.state.currentBatchSize = this.clampSize(
+        Math.ceil(this.state.currentBatchSize * this.config.growthFactor)
+      );
+      this.state.consecutiveSuccesses = 0;
+    }
+  }
+
+  /**
+   * Record a failed batch, shrinking the batch size
+   */
+  recordFailure(contextOverflow: boolean = false): void {
+    this.state.consecutiveSuccesses = 0;
+    this.state.consecutiveFailures++;
+    if (contextOverflow) {
+      this.state.contextOverflowCount++;
+    }
+
+    this.state.currentBatchSize = this.clampSize(
+      Math.floor(this.state.currentBatchSize * this.config.decayFactor)
+    );
+  }
+
+  /**
+   * Whether the batch size can shrink any further
+   */
+  isAtMinimum(): boolean {
+    return this.state.currentBatchSize <= this.config.minSize;
+  }
+
+  private clampSize(size: number): number {
+    return Math.max(this.config.minSize, Math.min(this.config.maxSize, size));
+  }
+}
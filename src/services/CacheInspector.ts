@@ -0,0 +1,204 @@
+/**
+ * Cache inspector for listing, filtering and showing the commits stored in a cache
+ */
+
+import type { CacheQueryFilter, CachedCommitEntry, GcaCache } from '../types/cache';
+import type { ProcessingPhase } from '../types/commits';
+import { colorize, supportsColor } from '../utils/cli';
+
+export class CacheInspector {
+  private static readonly HASH_WIDTH = 8;
+  private static readonly PHASE_WIDTH = 14;
+  private static readonly PREFIX_WIDTH = 10;
+  private static readonly STATUS_WIDTH = 14;
+  private static readonly SEPARATOR = ' │ ';
+  private static readonly DEFAULT_WIDTH = 120;
+  private static readonly MIN_MESSAGE_WIDTH = 20;
+
+  /**
+   * Data sections in the order the analysis produces them, with the phase that writes each
+   */
+  private static readonly SECTIONS = [
+    ['rawCommits', 'fetching'],
+    ['enrichedCommits', 'enriching'],
+    ['classifiedCommits', 'classifying'],
+    ['finalCommits', 'applying_rules'],
+  ] as const satisfies ReadonlyArray<readonly [keyof GcaCache['data'], ProcessingPhase]>;
+
+  /**
+   * Phases that record commits, and so can be queried for
+   */
+  static readonly PHASES: readonly ProcessingPhase[] = CacheInspector.SECTIONS.map(
+    ([, phase]) => phase
+  );
+
+  /**
+   * Merge every data section into one entry per commit, in history order
+   */
+  listCommits(cache: GcaCache): CachedCommitEntry[] {
+    const entries = new Map<string, CachedCommitEntry>();
+
+    for (const [section, phase] of CacheInspector.SECTIONS) {
+      for (const commit of cache.data[section] ?? []) {
+        const existing = entries.get(commit.hash);
+        const merged: CachedCommitEntry = { ...existing, ...commit, phase };
+
+        // Final commits carry the rewritten message; keep the original alongside it
+        if (section === 'finalCommits' && existing !== undefined) {
+          entries.set(commit.hash, {
+            ...merged,
+            message: existing.message,
+            ...(commit.message !== existing.message ? { finalMessage: commit.message } : {}),
+          });
+        } else {
+          entries.set(commit.hash, merged);
+        }
+      }
+    }
+
+    return [...entries.values()];
+  }
+
+  /**
+   * List the commits matching every given criterion
+   */
+  query(cache: GcaCache, filter: CacheQueryFilter = {}): CachedCommitEntry[] {
+    const matches = this.listCommits(cache).filter(
+      (entry) =>
+        (filter.phase === undefined || entry.phase === filter.phase) &&
+        (filter.prefix === undefined ||
+          (entry.suggestedPrefix ?? entry.conformingPrefix) === filter.prefix.toLowerCase()) &&
+        (filter.conforming === undefined ||
+          (this.isClassified(entry) &&
+            (entry.conformingPrefix !== undefined) === filter.conforming)) &&
+        (filter.messagePattern === undefined || filter.messagePattern.test(entry.message)) &&
+        (filter.hashPrefix === undefined || entry.hash.startsWith(filter.hashPrefix.toLowerCase()))
+    );
+
+    return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+  }
+
+  /**
+   * Render entries as a table of one line per commit, sized to the terminal
+   */
+  renderTable(
+    entries: CachedCommitEntry[],
+    options: { width?: number; color?: boolean } = {}
+  ): string {
+    const color = options.color ?? supportsColor();
+    const width =
+      options.width ??
+      (process.stdout.isTTY ? process.stdout.columns : CacheInspector.DEFAULT_WIDTH);
+    const separator = colorize(CacheInspector.SEPARATOR, 'dim', color);
+    const fixedWidth =
+      CacheInspector.HASH_WIDTH +
+      CacheInspector.PHASE_WIDTH +
+      CacheInspector.PREFIX_WIDTH +
+      CacheInspector.STATUS_WIDTH +
+      CacheInspector.SEPARATOR.length * 4;
+    const messageWidth = Math.max(CacheInspector.MIN_MESSAGE_WIDTH, width - fixedWidth);
+
+    const lines = [
+      colorize(
+        [
+          this.pad('Commit', CacheInspector.HASH_WIDTH),
+          this.pad('Phase', CacheInspector.PHASE_WIDTH),
+          this.pad('Prefix', CacheInspector.PREFIX_WIDTH),
+          this.pad('Status', CacheInspector.STATUS_WIDTH),
+          'Message',
+        ].join(CacheInspector.SEPARATOR),
+        'bold',
+        color
+      ),
+    ];
+
+    for (const entry of entries) {
+      const status = this.status(entry);
+      lines.push(
+        [
+          colorize(
+            this.pad(entry.hash.substring(0, CacheInspector.HASH_WIDTH), CacheInspector.HASH_WIDTH),
+            'cyan',
+            color
+          ),
+          this.pad(entry.phase, CacheInspector.PHASE_WIDTH),
+          this.pad(
+            entry.suggestedPrefix ?? entry.conformingPrefix ?? '-',
+            CacheInspector.PREFIX_WIDTH
+          ),
+          colorize(
+            this.pad(status, CacheInspector.STATUS_WIDTH),
+            status === 'conforming' ? 'green' : status === 'non-conforming' ? 'yellow' : 'dim',
+            color
+          ),
+          this.truncate(this.subject(entry.message), messageWidth),
+        ].join(separator)
+      );
+    }
+
+    if (entries.length === 0) {
+      lines.push(colorize('(no cached commits match)', 'dim', color));
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render one commit with its classification, reason and enriched diff
+   */
+  renderCommit(entry: CachedCommitEntry, options: { color?: boolean } = {}): string {
+    const color = options.color ?? supportsColor();
+    const lines = [
+      `${colorize('commit', 'bold', color)} ${colorize(entry.hash, 'cyan', color)}`,
+      `Phase:      ${entry.phase}`,
+      `Status:     ${this.status(entry)}`,
+    ];
+
+    if (entry.conformingPrefix !== undefined) {
+      lines.push(`Conforming: ${entry.conformingPrefix}`);
+    }
+    if (entry.suggestedPrefix !== undefined) {
+      lines.push(`Suggested:  ${entry.suggestedPrefix}`);
+    }
+    if (entry.reason !== undefined) {
+      lines.push(`Reason:     ${entry.reason}`);
+    }
+
+    lines.push('', ...entry.message.split('\n').map((line) => `    ${line}`));
+    if (entry.finalMessage !== undefined) {
+      lines.push(
+        '',
+        colorize('Rewritten to:', 'bold', color),
+        ...entry.finalMessage.split('\n').map((line) => `    ${colorize(line, 'green', color)}`)
+      );
+    }
+
+    lines.push(
+      '',
+      entry.diff ?? colorize('(no diff cached; the commit was not enriched yet)', 'dim', color)
+    );
+
+    return lines.join('\n');
+  }
+
+  private isClassified(entry: CachedCommitEntry): boolean {
+    return entry.phase === 'classifying' || entry.phase === 'applying_rules';
+  }
+
+  private status(entry: CachedCommitEntry): string {
+    if (!this.isClassified(entry)) return 'unclassified';
+    return entry.conformingPrefix !== undefined ? 'conforming' : 'non-conforming';
+  }
+
+  private subject(message: string): string {
+    return message.split('\n')[0] ?? message;
+  }
+
+  private truncate(text: string, width: number): string {
+    return text.length > width ? `${text.substring(0, width - 1)}…` : text;
+  }
+
+  private pad(text: string, width: number): string {
+    return this.truncate(text, width).padEnd(width);
+  }
+}
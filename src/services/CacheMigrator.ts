@@ -0,0 +1,150 @@
+/**
+ * Cache schema migrations for upgrading caches written by older versions
+ */
+
+import path from 'path';
+import {
+  type CacheMigration,
+  type CacheMigrationResult,
+  type GcaCache,
+  CacheError,
+  DEFAULT_CACHE_CONFIG,
+  computeCacheChecksums,
+  isValidCache,
+  isValidCacheProgress,
+} from '../types/cache';
+
+/**
+ * Registered migrations, one per schema version step
+ */
+export const CACHE_MIGRATIONS: readonly CacheMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Store an absolute repository path and per-section data checksums',
+    migrate: (cache: Record<string, unknown>): Record<string, unknown> => {
+      const environment = cache['environment'] as { cwd?: unknown } | undefined;
+      const cwd = typeof environment?.cwd === 'string' ? environment.cwd : process.cwd();
+      const metadata = (cache['metadata'] ?? {}) as Record<string, unknown>;
+
+      return {
+        ...cache,
+        version: '1.1.0',
+        repoPath: path.resolve(cwd, String(cache['repoPath'])),
+        metadata: {
+          ...metadata,
+          checksums: computeCacheChecksums((cache['data'] ?? {}) as GcaCache['data']),
+        },
+      };
+    },
+  },
+];
+
+export class CacheMigrator {
+  private static readonly MAX_DIFF_DEPTH = 3;
+
+  constructor(
+    private readonly migrations: readonly CacheMigration[] = CACHE_MIGRATIONS,
+    readonly targetVersion: string = DEFAULT_CACHE_CONFIG.version
+  ) {}
+
+  /**
+   * Check whether a cache document was written with an older schema
+   */
+  needsMigration(cache: { version: string }): boolean {
+    return cache.version !== this.targetVersion;
+  }
+
+  /**
+   * Find the chain of migrations from a version to the target version
+   */
+  plan(fromVersion: string): CacheMigration[] {
+    const steps: CacheMigration[] = [];
+    let version = fromVersion;
+
+    while (version !== this.targetVersion) {
+      const step = this.migrations.find((migration) => migration.from === version);
+      if (step === undefined) {
+        throw new CacheError(
+          `No migration path from cache version ${version} to ${this.targetVersion}`,
+          'migrate'
+        );
+      }
+      steps.push(step);
+      version = step.to;
+    }
+
+    return steps;
+  }
+
+  /**
+   * Upgrade a cache document step by step and validate the result
+   */
+  migrate(cache: GcaCache): CacheMigrationResult {
+    const steps = this.plan(cache.version);
+    const original = cache as unknown as Record<string, unknown>;
+    const migrated = steps.reduce((document, step) => step.migrate(document), original);
+
+    if (!isValidCache(migrated) || !isValidCacheProgress(migrated.progress)) {
+      throw new CacheError(
+        `Migrated cache from ${cache.version} is not a valid ${this.targetVersion} cache`,
+        'migrate'
+      );
+    }
+
+    return {
+      fromVersion: cache.version,
+      toVersion: this.targetVersion,
+      steps: steps.map(({ from, to, description }) => ({ from, to, description })),
+      changes: this.describeChanges(original, migrated as unknown as Record<string, unknown>),
+      cache: migrated,
+    };
+  }
+
+  /**
+   * List added, removed and changed fields between two documents
+   */
+  private describeChanges(
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+    prefix = '',
+    depth = 1
+  ): string[] {
+    const changes: string[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const key of keys) {
+      const field = `${prefix}${key}`;
+      const oldValue = before[key];
+      const newValue = after[key];
+
+      if (!(key in after)) {
+        changes.push(`- ${field}`);
+      } else if (!(key in before)) {
+        changes.push(`+ ${field}`);
+      } else if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        if (
+          depth < CacheMigrator.MAX_DIFF_DEPTH &&
+          this.isRecord(oldValue) &&
+          this.isRecord(newValue)
+        ) {
+          changes.push(...this.describeChanges(oldValue, newValue, `${field}.`, depth + 1));
+        } else {
+          changes.push(`~ ${field}: ${this.summarize(oldValue)} → ${this.summarize(newValue)}`);
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private summarize(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.length} items]`;
+    if (this.isRecord(value)) return '{…}';
+    return value === undefined ? 'undefined' : JSON.stringify(value);
+  }
+}
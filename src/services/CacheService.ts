@@ -3,21 +3,81 @@
  */
 
 import { createHash } from 'crypto';
+import { unlinkSync } from 'fs';
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
-import type { GcaCache } from '../types/cache';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+import {
+  type CacheBundle,
+  type CacheCleanupReport,
+  type CacheCompression,
+  type CacheFileInfo,
+  type CacheLayout,
+  type CacheLocation,
+  type CacheLockInfo,
+  type CacheMigrationResult,
+  type CacheRecoveryReport,
+  type CacheValidationResult,
+  type GcaCache,
+  type IncrementalUpdate,
+  type RepositoryIdentity,
+  type StoredClassification,
+  CACHE_BUNDLE_FORMAT,
+  CACHE_FILES,
+  CacheError,
+  DEFAULT_CACHE_CONFIG,
+  UNKNOWN_REPO_HASH,
+  computeCacheChecksums,
+  getCacheStatistics,
+  isCacheBundle,
+  isValidCache,
+  isValidCacheProgress,
+} from '../types/cache';
 import type { Config } from '../types/config';
 import type { RawCommit, EnrichedCommit, ClassifiedCommit } from '../types/commits';
 import type { TransformRule, SerializableTransformRule } from '../types/rules';
 import type { GitInterface } from '../git/GitInterface';
-import { fileExists, readJsonFile, writeJsonFile } from '../utils/file';
+import { CacheMigrator } from './CacheMigrator';
+import { CacheStorage } from './CacheStorage';
+import type { ClassificationStore } from './ClassificationStore';
+import { ensureDirectory, fileExists, readJsonFile, writeFileAtomic } from '../utils/file';
 
 export class CacheService {
-  private static readonly CACHE_VERSION = '1.0.0';
+  private static readonly CACHE_VERSION = DEFAULT_CACHE_CONFIG.version;
   private static readonly DEFAULT_CACHE_FILE = '.gca-cache.json';
-  private static readonly BACKUP_CACHE_FILE = '.gca-cache.backup.json';
+  private static readonly BUNDLE_VERSION = '1.0.0';
+  private static readonly GZIP_MAGIC = Buffer.from([0x1f, 0x8b]);
 
-  constructor(private readonly gitInterface: GitInterface) {}
+  private readonly heldLocks = new Set<string>();
+  private readonly corruptPrimaries = new Set<string>();
+  private readonly migratedFrom = new Map<string, string>();
+  private legacyNoticeShown = false;
+  private readonly migrator = new CacheMigrator();
+  private readonly backupCount: number;
+  private readonly location: CacheLocation;
+  private readonly classificationStore: ClassificationStore | undefined;
+  private readonly storage: CacheStorage;
+
+  constructor(
+    private readonly gitInterface: GitInterface,
+    options: {
+      backupCount?: number;
+      classificationStore?: ClassificationStore;
+      compression?: CacheCompression;
+      layout?: CacheLayout;
+      location?: CacheLocation;
+    } = {}
+  ) {
+    this.backupCount = options.backupCount ?? DEFAULT_CACHE_CONFIG.backupCount;
+    this.location = options.location ?? DEFAULT_CACHE_CONFIG.location;
+    this.classificationStore = options.classificationStore;
+    this.storage = new CacheStorage({
+      ...(options.compression !== undefined ? { compression: options.compression } : {}),
+      ...(options.layout !== undefined ? { layout: options.layout } : {}),
+    });
+  }
 
   /**
    * Get cache file path
@@ -30,68 +90,334 @@ export class CacheService {
   }
 
   /**
-   * Load cache from file
+   * Get the cache file for a repository: an explicit path, the repository's file in the global
+   * cache directory, or .gca-cache.json in the working directory when caches are kept there or
+   * the repository cannot be identified
+   */
+  async resolveCachePath(repoPath: string, customPath?: string): Promise<string> {
+    if ((customPath !== undefined && customPath.trim() !== '') || this.location === 'cwd') {
+      return this.getCacheFilePath(customPath);
+    }
+
+    const identity = await this.getRepositoryIdentity(repoPath);
+    if (identity === null) {
+      return this.getCacheFilePath();
+    }
+    // Named by identity alone, so clones in other directories share the file
+    const globalPath = path.join(this.getGlobalCacheDir(), `${identity.key}.gca-cache.json`);
+
+    // Keep using a cache written to the working directory before caches were global
+    const legacyPath = this.getCacheFilePath();
+    if (!(await fileExists(globalPath)) && (await fileExists(legacyPath))) {
+      if (!this.legacyNoticeShown) {
+        this.legacyNoticeShown = true;
+        console.warn(`📁 Using the cache in the working directory: ${legacyPath}`);
+        console.warn(`💡 Move it to ${globalPath} to share it with other clones and directories`);
+      }
+      return legacyPath;
+    }
+    return globalPath;
+  }
+
+  /**
+   * Identify a repository by its root commit, which every clone shares, falling back to its
+   * origin URL and then its location for repositories without commits. Null outside a repository.
+   */
+  async getRepositoryIdentity(repoPath: string): Promise<RepositoryIdentity | null> {
+    let root: string;
+    try {
+      root = await this.gitInterface.getRepositoryRoot(repoPath);
+    } catch {
+      return null;
+    }
+
+    const [rootCommit] = await this.gitInterface.getRootCommits(root);
+    const remoteUrl = await this.gitInterface.getRemoteUrl(root);
+    const [source, value]: [RepositoryIdentity['source'], string] =
+      rootCommit !== undefined
+        ? ['root-commit', rootCommit]
+        : remoteUrl !== null
+          ? ['remote', this.normalizeRemoteUrl(remoteUrl)]
+          : ['path', path.resolve(root)];
+
+    return {
+      root,
+      key: createHash('sha256').update(value).digest('hex').substring(0, 12),
+      source,
+      ...(remoteUrl !== null ? { remoteUrl } : {}),
+    };
+  }
+
+  /**
+   * Get the lock file path for a cache file (.gca-cache.json -> .gca-cache.lock)
+   */
+  getLockFilePath(cachePath?: string): string {
+    return `${this.getCacheFilePath(cachePath).replace(/\.json$/, '')}.lock`;
+  }
+
+  /**
+   * Get a rotated backup path for a cache file, newest first
+   * (.gca-cache.json -> .gca-cache.backup.json, .gca-cache.backup.1.json, ...)
+   */
+  getBackupFilePath(cachePath?: string, index = 0): string {
+    const base = this.getCacheFilePath(cachePath).replace(/\.json$/, '');
+    return index === 0 ? `${base}.backup.json` : `${base}.backup.${index}.json`;
+  }
+
+  /**
+   * Get the path that preserves a cache file as written by an older schema version
+   * (.gca-cache.json -> .gca-cache.v1.0.0.json)
+   */
+  getVersionBackupFilePath(cachePath: string | undefined, version: string): string {
+    return `${this.getCacheFilePath(cachePath).replace(/\.json$/, '')}.v${version}.json`;
+  }
+
+  /**
+   * Take the advisory lock for a cache file, or refresh it if this process already holds it.
+   * Stale locks left by dead or long-silent runs are replaced.
+   */
+  async acquireLock(cachePath?: string): Promise<void> {
+    const lockPath = this.getLockFilePath(cachePath);
+    const now = new Date().toISOString();
+
+    if (this.heldLocks.has(lockPath)) {
+      const existing = await this.readLock(lockPath);
+      const lock: CacheLockInfo = {
+        pid: process.pid,
+        hostname: os.hostname(),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      await fs.writeFile(lockPath, JSON.stringify(lock, null, 2), 'utf8');
+      return;
+    }
+
+    const lock: CacheLockInfo = {
+      pid: process.pid,
+      hostname: os.hostname(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await ensureDirectory(path.dirname(lockPath));
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        await fs.writeFile(lockPath, JSON.stringify(lock, null, 2), {
+          encoding: 'utf8',
+          flag: 'wx',
+        });
+        this.heldLocks.add(lockPath);
+        return;
+      } catch (error: unknown) {
+        const err = error as { code?: string };
+        if (err.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const existing = await this.readLock(lockPath);
+      if (existing !== null && !this.isStaleLock(existing)) {
+        throw new CacheError(
+          `Cache is locked by process ${existing.pid} on ${existing.hostname} (since ${existing.createdAt}); use --force-unlock if that run is no longer active`,
+          'save',
+          lockPath
+        );
+      }
+
+      console.warn(`⚠️  Removing stale cache lock: ${lockPath}`);
+      await fs.rm(lockPath, { force: true });
+    }
+
+    throw new CacheError('Could not acquire cache lock', 'save', lockPath);
+  }
+
+  /**
+   * Release a lock held by this process
+   */
+  async releaseLock(cachePath?: string): Promise<void> {
+    const lockPath = this.getLockFilePath(cachePath);
+    if (this.heldLocks.delete(lockPath)) {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Release every lock held by this process, for use from a process exit handler
+   */
+  releaseLocksSync(): void {
+    for (const lockPath of this.heldLocks) {
+      try {
+        unlinkSync(lockPath);
+      } catch {
+        // Already gone
+      }
+    }
+    this.heldLocks.clear();
+  }
+
+  /**
+   * Remove a cache lock regardless of its owner, returning the lock that was removed
+   */
+  async forceUnlock(cachePath?: string): Promise<CacheLockInfo | null> {
+    const lockPath = this.getLockFilePath(cachePath);
+    const existing = await this.readLock(lockPath);
+    await fs.rm(lockPath, { force: true });
+    this.heldLocks.delete(lockPath);
+    return existing;
+  }
+
+  /**
+   * Load cache from file, falling back to the newest valid backup when the file is damaged.
+   * With silent, only warnings are printed.
    */
-  async loadCache(cachePath?: string): Promise<GcaCache | null> {
+  async loadCache(
+    cachePath?: string,
+    options: { silent?: boolean } = {}
+  ): Promise<GcaCache | null> {
+    const log = options.silent === true ? (): void => {} : console.log;
     try {
       const filePath = this.getCacheFilePath(cachePath);
 
       if (!(await fileExists(filePath))) {
-        console.log('📂 No existing cache found');
+        log('📂 No existing cache found');
         return null;
       }
 
-      const cache: GcaCache = await readJsonFile(filePath);
-
-      // Validate cache version
-      if (cache.version !== CacheService.CACHE_VERSION) {
-        console.log(
-          `⚠️  Cache version mismatch. Expected ${CacheService.CACHE_VERSION}, got ${cache.version}`
+      const { cache, report } = await this.recoverCache(filePath);
+      if (cache === null) {
+        console.warn(`⚠️  Cache at ${filePath} is damaged and no valid backup was found:`);
+        report.failures.forEach(({ path: failedPath, reason }) =>
+          console.warn(`  • ${failedPath}: ${reason}`)
         );
         return null;
       }
 
-      console.log(`📂 Loaded cache from ${filePath}`);
-      console.log(`🕒 Cache created: ${new Date(cache.timestamp).toLocaleString()}`);
-      console.log(
-        `📊 Progress: ${cache.progress.phase} (${cache.progress.processedCommits}/${cache.progress.totalCommits})`
+      if (report.recoveredFrom !== null) {
+        console.warn(`♻️  Recovered cache from backup ${report.recoveredFrom}`);
+        report.failures.forEach(({ path: failedPath, reason }) =>
+          console.warn(`  • Skipped ${failedPath}: ${reason}`)
+        );
+      }
+
+      // Upgrade caches written with an older schema
+      let loaded = cache;
+      if (this.migrator.needsMigration(cache)) {
+        try {
+          const migration = this.migrator.migrate(cache);
+          log(`⬆️  Migrated cache from ${migration.fromVersion} to ${migration.toVersion}`);
+          loaded = migration.cache;
+          this.migratedFrom.set(filePath, migration.fromVersion);
+        } catch (error) {
+          console.log(
+            `⚠️  Cache version mismatch. Expected ${CacheService.CACHE_VERSION}, got ${cache.version}: ${error instanceof Error ? error.message : String(error)}`
+          );
+          return null;
+        }
+      }
+
+      log(`📂 Loaded cache from ${filePath}`);
+      log(`🕒 Cache created: ${new Date(loaded.timestamp).toLocaleString()}`);
+      log(
+        `📊 Progress: ${loaded.progress.phase} (${loaded.progress.processedCommits}/${loaded.progress.totalCommits})`
       );
 
-      return cache;
+      return loaded;
     } catch (error) {
       console.warn('⚠️  Error loading cache:', error);
       return null;
     }
   }
 
+  /**
+   * Read a cache file, trying its rotated backups newest first when it is unreadable
+   * or not a valid cache document
+   */
+  async recoverCache(
+    cachePath?: string
+  ): Promise<{ cache: GcaCache | null; report: CacheRecoveryReport }> {
+    const filePath = this.getCacheFilePath(cachePath);
+    const candidates = [
+      filePath,
+      ...Array.from({ length: this.backupCount }, (_, index) =>
+        this.getBackupFilePath(filePath, index)
+      ),
+    ];
+    const failures: CacheRecoveryReport['failures'] = [];
+
+    for (const candidate of candidates) {
+      if (!(await fileExists(candidate))) continue;
+
+      try {
+        const cache = await this.storage.read(candidate);
+        if (isValidCache(cache)) {
+          const recoveredFrom = candidate === filePath ? null : candidate;
+          if (recoveredFrom !== null) {
+            this.corruptPrimaries.add(filePath);
+          }
+          return { cache, report: { cachePath: filePath, recoveredFrom, failures } };
+        }
+        failures.push({ path: candidate, reason: 'not a valid cache document' });
+      } catch (error) {
+        failures.push({
+          path: candidate,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { cache: null, report: { cachePath: filePath, recoveredFrom: null, failures } };
+  }
+
   /**
    * Save cache to file
    */
-  async saveCache(cache: GcaCache, cachePath?: string): Promise<void> {
+  async saveCache(
+    cache: GcaCache,
+    cachePath?: string,
+    options: { silent?: boolean } = {}
+  ): Promise<void> {
     try {
       const filePath = this.getCacheFilePath(cachePath);
 
-      // Update metadata
-      cache.metadata.cacheSize = Buffer.byteLength(JSON.stringify(cache), 'utf8');
       cache.progress.lastUpdateTime = new Date().toISOString();
 
-      // Create backup of existing cache
+      await this.acquireLock(cachePath);
+
+      // Keep the file as written by an older schema before overwriting it with the migrated cache
+      const migratedFrom = this.migratedFrom.get(filePath);
+      if (migratedFrom !== undefined) {
+        await this.preserveOriginal(filePath, migratedFrom);
+        this.migratedFrom.delete(filePath);
+      }
+
+      // Rotate backups of the existing cache, unless it is the damaged file we recovered from
       try {
-        const backupPath = this.getCacheFilePath(CacheService.BACKUP_CACHE_FILE);
-        if (await fileExists(filePath)) {
-          await fs.copyFile(filePath, backupPath);
+        if (!this.corruptPrimaries.has(filePath)) {
+          await this.rotateBackups(filePath);
         }
       } catch (error) {
         // Backup failed, but continue with save
         console.warn('⚠️  Could not create cache backup:', error);
       }
 
-      // Save cache
-      await writeJsonFile(filePath, cache);
+      // Save cache; this also refreshes its size and checksum metadata
+      await this.storage.write(filePath, cache);
+      this.corruptPrimaries.delete(filePath);
 
-      console.log(
-        `💾 Cache saved to ${filePath} (${Math.round(cache.metadata.cacheSize / 1024)}KB)`
-      );
+      try {
+        await this.storage.removeUnreferencedChunks(
+          filePath,
+          await this.relatedCacheFiles(filePath)
+        );
+      } catch (error) {
+        console.warn('⚠️  Could not remove unused cache chunks:', error);
+      }
+
+      if (options.silent !== true) {
+        console.log(
+          `💾 Cache saved to ${filePath} (${Math.round((cache.metadata.storedSize ?? cache.metadata.cacheSize) / 1024)}KB)`
+        );
+      }
     } catch (error) {
       console.error('❌ Error saving cache:', error);
       throw error;
@@ -99,42 +425,104 @@ export class CacheService {
   }
 
   /**
-   * Validate cache compatibility
+   * Check whether a cache can be resumed for a repository and configuration, collecting every reason it cannot.
+   * With checkIntegrity, also verify the cache's own consistency (progress and data checksums).
    */
-  async validateCache(cache: GcaCache, repoPath: string, config: Config): Promise<boolean> {
+  async validateCache(
+    cache: GcaCache,
+    repoPath: string,
+    config: Config,
+    options: { checkIntegrity?: boolean } = {}
+  ): Promise<CacheValidationResult> {
+    const reasons: string[] = [];
+    const cacheAge = Date.now() - new Date(cache.timestamp).getTime();
+    let currentHead = 'unknown';
+    let headIsAncestor: boolean | null = null;
+    let changedConfigKeys: string[] = [];
+    let repositoryMismatch = false;
+    let integrityIssues: string[] = [];
+
     try {
-      // Check if repository has changed
-      const currentRepoHash = await this.getRepoHash(repoPath);
-      if (cache.repoHash !== currentRepoHash) {
-        console.log('⚠️  Repository has changed since cache was created');
-        return false;
+      if (!(await this.isSameRepository(cache, repoPath))) {
+        repositoryMismatch = true;
+        reasons.push(`Cache was created for a different repository (${cache.repoPath})`);
       }
 
-      // Check config compatibility (key settings)
-      const configHash = this.createConfigHash(config);
-      const cacheConfigHash = this.createConfigHash({
-        ...cache.config,
-        apiKey: config.apiKey, // Use current API key
-      } as Config);
+      // Check if repository has changed, and whether it only moved forward
+      currentHead = await this.getRepoHash(repoPath);
+      if (cache.repoHash === currentHead) {
+        headIsAncestor = true;
+      } else {
+        headIsAncestor = await this.gitInterface
+          .isAncestor(repoPath, cache.repoHash, currentHead)
+          .catch(() => null);
+        const detail =
+          headIsAncestor === true
+            ? `new commits on top of cached HEAD ${cache.repoHash.substring(0, 8)}`
+            : headIsAncestor === false
+              ? `cached HEAD ${cache.repoHash.substring(0, 8)} is no longer in the history; it was rewritten`
+              : `cached HEAD ${cache.repoHash.substring(0, 8)} was not found`;
+        reasons.push(`Repository has changed since cache was created (${detail})`);
+      }
 
-      if (configHash !== cacheConfigHash) {
-        console.log('⚠️  Configuration has changed since cache was created');
-        return false;
+      // Check config compatibility (key settings), naming the settings that differ
+      const cachedConfig = { ...cache.config, apiKey: config.apiKey } as Config;
+      if (this.createConfigHash(config) !== this.createConfigHash(cachedConfig)) {
+        const current = this.compatibilityConfig(config);
+        const cached = this.compatibilityConfig(cachedConfig);
+        changedConfigKeys = Object.keys(current).filter(
+          (key) => JSON.stringify(current[key]) !== JSON.stringify(cached[key])
+        );
+        reasons.push(
+          `Configuration has changed since cache was created (${changedConfigKeys.join(', ')})`
+        );
       }
 
-      // Check if cache is too old (7 days)
-      const cacheAge = Date.now() - new Date(cache.timestamp).getTime();
-      const maxAge = 7 * 24 * 60 * 60 * 1000; // 7 days
-      if (cacheAge > maxAge) {
-        console.log('⚠️  Cache is too old (>7 days)');
-        return false;
+      // Check if cache is too old
+      if (cacheAge > DEFAULT_CACHE_CONFIG.maxAge) {
+        reasons.push('Cache is too old (>7 days)');
       }
 
-      return true;
+      if (options.checkIntegrity === true) {
+        integrityIssues = this.integrityIssues(cache);
+        reasons.push(...integrityIssues);
+      }
     } catch (error) {
-      console.warn('⚠️  Error validating cache:', error);
+      reasons.push(
+        `Error validating cache: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    return {
+      isValid: reasons.length === 0,
+      reasons,
+      cacheAge,
+      repositoryMismatch,
+      repoChanged: cache.repoHash !== currentHead,
+      configChanged: changedConfigKeys.length > 0,
+      changedConfigKeys,
+      cachedHead: cache.repoHash,
+      currentHead,
+      headIsAncestor,
+      integrityIssues,
+    };
+  }
+
+  /**
+   * Whether a cache belongs to the repository at repoPath. Global caches are shared by every
+   * clone and subdirectory of a repository, so they are matched by identity, not location.
+   */
+  private async isSameRepository(cache: GcaCache, repoPath: string): Promise<boolean> {
+    if (path.resolve(cache.repoPath) === path.resolve(repoPath)) {
+      return true;
+    }
+    if (this.location !== 'global') {
       return false;
     }
+
+    const identity = await this.getRepositoryIdentity(repoPath);
+    const cachedKey = cache.repoKey ?? (await this.getRepositoryIdentity(cache.repoPath))?.key;
+    return identity !== null && cachedKey !== undefined && identity.key === cachedKey;
   }
 
   /**
@@ -142,12 +530,14 @@ export class CacheService {
    */
   async createCache(repoPath: string, config: Config): Promise<GcaCache> {
     const repoHash = await this.getRepoHash(repoPath);
+    const identity = await this.getRepositoryIdentity(repoPath);
     const { version: nodeVersion, platform } = process;
 
     return {
       version: CacheService.CACHE_VERSION,
       timestamp: new Date().toISOString(),
-      repoPath,
+      repoPath: path.resolve(repoPath),
+      ...(identity !== null ? { repoKey: identity.key } : {}),
       repoHash,
       config: this.sanitizeConfig(config),
       environment: {
@@ -170,6 +560,148 @@ export class CacheService {
     };
   }
 
+  /**
+   * Export a cache as a portable bundle, gzip-compressed when requested
+   * or when the bundle path ends in .gz
+   */
+  async exportCache(
+    cache: GcaCache,
+    bundlePath: string,
+    options: { compress?: boolean } = {}
+  ): Promise<string> {
+    const filePath = path.resolve(bundlePath);
+    const compress = options.compress ?? filePath.endsWith('.gz');
+
+    // Bundles always carry their data inline, whatever layout the cache uses on disk
+    const { chunks: _chunks, layout: _layout, ...metadata } = cache.metadata;
+    const bundle: CacheBundle = {
+      format: CACHE_BUNDLE_FORMAT,
+      bundleVersion: CacheService.BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      cache: {
+        ...cache,
+        metadata: {
+          ...metadata,
+          compressionUsed: compress,
+          checksums: this.computeChecksums(cache),
+        },
+      },
+    };
+
+    try {
+      const content = Buffer.from(JSON.stringify(bundle, null, 2), 'utf8');
+      await writeFileAtomic(filePath, compress ? await promisify(gzip)(content) : content);
+    } catch (error) {
+      throw new CacheError(
+        `Could not write cache bundle: ${error instanceof Error ? error.message : String(error)}`,
+        'export',
+        filePath
+      );
+    }
+
+    return filePath;
+  }
+
+  /**
+   * Import a portable bundle, verify its checksums and re-home it to a local repository
+   */
+  async importCache(bundlePath: string, repoPath: string): Promise<GcaCache> {
+    const filePath = path.resolve(bundlePath);
+
+    let bundle: unknown;
+    try {
+      const raw = await fs.readFile(filePath);
+      const content = raw.subarray(0, 2).equals(CacheService.GZIP_MAGIC)
+        ? await promisify(gunzip)(raw)
+        : raw;
+      bundle = JSON.parse(content.toString('utf8'));
+    } catch (error) {
+      throw new CacheError(
+        `Could not read cache bundle: ${error instanceof Error ? error.message : String(error)}`,
+        'import',
+        filePath
+      );
+    }
+
+    if (!isCacheBundle(bundle)) {
+      throw new CacheError('File is not a gca cache bundle', 'import', filePath);
+    }
+
+    const expected = bundle.cache.metadata.checksums ?? {};
+    const actual = this.computeChecksums(bundle.cache);
+    const sections = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    const corrupted = [...sections].filter((section) => expected[section] !== actual[section]);
+    if (corrupted.length > 0) {
+      throw new CacheError(
+        `Checksum mismatch in cache bundle sections: ${corrupted.join(', ')}`,
+        'import',
+        filePath
+      );
+    }
+
+    const cache = this.migrator.needsMigration(bundle.cache)
+      ? this.migrator.migrate(bundle.cache).cache
+      : bundle.cache;
+
+    return {
+      ...cache,
+      repoPath: path.resolve(repoPath),
+      environment: { ...cache.environment, cwd: process.cwd() },
+    };
+  }
+
+  /**
+   * Compute a checksum for each data section present in the cache
+   */
+  computeChecksums(cache: GcaCache): Record<string, string> {
+    return computeCacheChecksums(cache.data);
+  }
+
+  /**
+   * Upgrade a cache file to the current schema, keeping the original next to it.
+   * Returns null when the file is already current; with dryRun nothing is written.
+   */
+  async migrateCacheFile(
+    cachePath: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<CacheMigrationResult | null> {
+    const filePath = this.getCacheFilePath(cachePath);
+
+    let cache: unknown;
+    try {
+      cache = await this.storage.read(filePath);
+    } catch (error) {
+      throw new CacheError(
+        `Could not read cache: ${error instanceof Error ? error.message : String(error)}`,
+        'migrate',
+        filePath
+      );
+    }
+    if (!isValidCache(cache)) {
+      throw new CacheError('File is not a gca cache', 'migrate', filePath);
+    }
+    if (!this.migrator.needsMigration(cache)) {
+      return null;
+    }
+
+    const migration = this.migrator.migrate(cache);
+    if (options.dryRun === true) {
+      return migration;
+    }
+
+    const lockHeld = this.heldLocks.has(this.getLockFilePath(filePath));
+    this.migratedFrom.set(filePath, migration.fromVersion);
+    await this.saveCache(migration.cache, filePath, { silent: true });
+    if (!lockHeld) {
+      await this.releaseLock(filePath);
+    }
+
+    return {
+      ...migration,
+      backupPath: this.getVersionBackupFilePath(filePath, migration.fromVersion),
+    };
+  }
+
   /**
    * Clear cache file
    */
@@ -187,47 +719,175 @@ export class CacheService {
   }
 
   /**
-   * List available cache files
+   * List the caches of every repository in the global cache directory, and any in the
+   * working directory, newest first
    */
   async listCaches(): Promise<void> {
     try {
-      const files = await fs.readdir('.');
-      const cacheFiles = files.filter(
-        (f: string) => f.endsWith('.gca-cache.json') || f === '.gca-cache.json'
-      );
-
-      if (cacheFiles.length === 0) {
+      const { directories, caches, unreadable } = await this.describeCaches();
+      if (caches.length === 0 && unreadable.length === 0) {
         console.log('📂 No cache files found');
         return;
       }
 
-      console.log('📂 Available cache files:');
-      for (const file of cacheFiles) {
-        try {
-          const filePath = path.resolve(file);
-          const stats = await fs.stat(filePath);
-          const cache = await this.loadCache(filePath);
-
-          console.log(`\n📄 ${file}`);
-          console.log(`   Size: ${Math.round(stats.size / 1024)}KB`);
-          console.log(`   Modified: ${stats.mtime.toLocaleString()}`);
-
-          if (cache !== null) {
-            console.log(`   Repo: ${cache.repoPath}`);
-            console.log(`   Phase: ${cache.progress.phase}`);
-            console.log(
-              `   Progress: ${cache.progress.processedCommits}/${cache.progress.totalCommits}`
-            );
-          }
-        } catch (error) {
-          console.log(`   ❌ Error reading cache: ${error}`);
-        }
+      console.log(`📂 Available cache files (${directories.join(', ')}):`);
+      for (const info of caches) {
+        console.log(`\n📄 ${info.path}`);
+        console.log(`   Repo: ${info.repoPath}`);
+        console.log(`   Phase: ${info.phase}`);
+        console.log(`   Progress: ${info.progress.processed}/${info.progress.total}`);
+        console.log(`   Size: ${Math.round(info.size / 1024)}KB`);
+        console.log(`   Modified: ${info.modifiedAt.toLocaleString()}`);
+      }
+      for (const filePath of unreadable) {
+        console.log(`\n📄 ${filePath}`);
+        console.log('   ❌ Error reading cache');
       }
     } catch (error) {
       console.error('❌ Error listing caches:', error);
     }
   }
 
+  /**
+   * Describe the cache files in the global cache directory and the current directory,
+   * newest first; files that cannot be read are listed separately
+   */
+  async describeCaches(): Promise<{
+    directories: string[];
+    caches: CacheFileInfo[];
+    unreadable: string[];
+  }> {
+    const directories = [...new Set([this.getGlobalCacheDir(), path.resolve('.')])];
+    const cacheFiles: Array<{ path: string; modifiedAt: Date }> = [];
+    for (const directory of directories) {
+      const files = await fs.readdir(directory).catch(() => []);
+      for (const file of files.filter((f: string) => f.endsWith('.gca-cache.json'))) {
+        const filePath = path.join(directory, file);
+        const stats = await fs.stat(filePath).catch(() => null);
+        if (stats?.isFile() === true) {
+          cacheFiles.push({ path: filePath, modifiedAt: stats.mtime });
+        }
+      }
+    }
+    cacheFiles.sort((a, b) => b.modifiedAt.getTime() - a.modifiedAt.getTime());
+
+    const caches: CacheFileInfo[] = [];
+    const unreadable: string[] = [];
+    for (const file of cacheFiles) {
+      const info = await this.getCacheFileInfo(file.path).catch(() => null);
+      if (info !== null) {
+        caches.push(info);
+      } else {
+        unreadable.push(file.path);
+      }
+    }
+
+    return { directories, caches, unreadable };
+  }
+
+  /**
+   * Get the per-user cache directory ($XDG_CACHE_HOME/gca, or ~/.cache/gca)
+   */
+  getGlobalCacheDir(): string {
+    const xdgCacheHome = process.env['XDG_CACHE_HOME'];
+    const cacheHome =
+      xdgCacheHome !== undefined && xdgCacheHome !== ''
+        ? xdgCacheHome
+        : path.join(os.homedir(), '.cache');
+    return path.join(cacheHome, 'gca');
+  }
+
+  /**
+   * Delete cache files older than a maximum age, then evict the oldest until the rest fit
+   * the size budget. Caches locked by a live run are never touched.
+   */
+  async cleanCaches(options: {
+    directories: string[];
+    olderThan?: number;
+    maxTotalSize?: number;
+    dryRun?: boolean;
+  }): Promise<CacheCleanupReport> {
+    const {
+      olderThan = DEFAULT_CACHE_CONFIG.maxAge,
+      maxTotalSize = DEFAULT_CACHE_CONFIG.maxSize,
+      dryRun = false,
+    } = options;
+    const directories = [...new Set(options.directories.map((dir) => path.resolve(dir)))];
+    const candidates: Array<{ path: string; size: number; modifiedAt: Date }> = [];
+    const skipped: CacheCleanupReport['skipped'] = [];
+    let scanned = 0;
+    let lockedBytes = 0;
+
+    for (const directory of directories) {
+      let names: string[];
+      try {
+        names = await fs.readdir(directory);
+      } catch {
+        continue;
+      }
+
+      for (const name of names.filter((entry) => CACHE_FILES.PATTERN.test(entry))) {
+        const filePath = path.join(directory, name);
+        const stats = await fs.stat(filePath).catch(() => null);
+        if (stats?.isFile() !== true) continue;
+
+        // A chunked cache's sections count towards its primary file
+        const size =
+          this.primaryCachePath(filePath) === filePath
+            ? stats.size + (await this.directorySize(this.storage.getChunkDir(filePath)))
+            : stats.size;
+
+        scanned++;
+        if (await this.isLockedByLiveRun(filePath)) {
+          skipped.push({ path: filePath, reason: 'locked by a running analysis' });
+          lockedBytes += size;
+          continue;
+        }
+        candidates.push({ path: filePath, size, modifiedAt: stats.mtime });
+      }
+    }
+
+    const now = Date.now();
+    const removed: CacheCleanupReport['removed'] = [];
+    const kept: typeof candidates = [];
+    candidates.sort((a, b) => a.modifiedAt.getTime() - b.modifiedAt.getTime());
+    for (const file of candidates) {
+      if (now - file.modifiedAt.getTime() > olderThan) {
+        removed.push({ ...file, reason: 'age' });
+      } else {
+        kept.push(file);
+      }
+    }
+
+    // Evict the oldest remaining caches until the total fits the budget
+    let remainingBytes = kept.reduce((total, file) => total + file.size, lockedBytes);
+    for (const file of kept) {
+      if (remainingBytes <= maxTotalSize) break;
+      removed.push({ ...file, reason: 'size' });
+      remainingBytes -= file.size;
+    }
+
+    if (!dryRun) {
+      for (const file of removed) {
+        await fs.rm(file.path, { force: true });
+      }
+      // Chunks go with the last cache file that refers to them
+      for (const primary of new Set(removed.map((file) => this.primaryCachePath(file.path)))) {
+        await this.storage.removeUnreferencedChunks(primary, await this.relatedCacheFiles(primary));
+      }
+    }
+
+    return {
+      directories,
+      scanned,
+      removed,
+      skipped,
+      reclaimedBytes: removed.reduce((total, file) => total + file.size, 0),
+      remainingBytes,
+      dryRun,
+    };
+  }
+
   /**
    * Get cache information
    */
@@ -245,11 +905,45 @@ export class CacheService {
       phase: cache.progress.phase,
       progress: `${cache.progress.processedCommits}/${cache.progress.totalCommits}`,
       size: `${Math.round(cache.metadata.cacheSize / 1024)}KB`,
+      stored: this.describeStorage(cache),
       configHash: cache.config.apiKeyHash,
       environment: `${cache.environment.platform} ${cache.environment.nodeVersion}`,
     };
   }
 
+  /**
+   * Describe a cache file for structured output; null when it is missing or unreadable
+   */
+  async getCacheFileInfo(cachePath: string): Promise<CacheFileInfo | null> {
+    const filePath = this.getCacheFilePath(cachePath);
+    const cache = await this.loadCache(filePath, { silent: true });
+    const stats = await fs.stat(filePath).catch(() => null);
+    if (cache === null || stats === null) {
+      return null;
+    }
+
+    const { processedCommits, totalCommits } = cache.progress;
+    return {
+      path: filePath,
+      size: cache.metadata.storedSize ?? stats.size,
+      dataSize: cache.metadata.cacheSize,
+      createdAt: new Date(cache.timestamp),
+      modifiedAt: stats.mtime,
+      version: cache.version,
+      repoPath: cache.repoPath,
+      repoHash: cache.repoHash,
+      phase: cache.progress.phase,
+      progress: {
+        processed: processedCommits,
+        total: totalCommits,
+        percentage: totalCommits > 0 ? Math.round((processedCommits / totalCommits) * 100) : 0,
+      },
+      compression: cache.metadata.compression ?? 'none',
+      layout: cache.metadata.layout ?? 'single',
+      environment: cache.environment,
+    };
+  }
+
   /**
    * Update cache progress
    */
@@ -293,6 +987,114 @@ export class CacheService {
     this.updateCacheProgress(cache, 'generating_rules', commits.length);
   }
 
+  /**
+   * Record classification progress after a batch without leaving the classifying phase
+   */
+  storeClassificationProgress(cache: GcaCache, commits: ClassifiedCommit[]): void {
+    cache.data.classifiedCommits = commits;
+    cache.progress.processedCommits = commits.length;
+    const lastCommit = commits[commits.length - 1];
+    if (lastCommit !== undefined) {
+      cache.progress.lastProcessedHash = lastCommit.hash;
+    }
+    cache.progress.lastUpdateTime = new Date().toISOString();
+  }
+
+  /**
+   * Bring the cache up to date with a repository that moved on: commit lists and kept
+   * classifications are replaced, and rules are dropped so they are regenerated
+   */
+  storeIncrementalUpdate(cache: GcaCache, update: IncrementalUpdate): void {
+    cache.repoHash = update.currentHead;
+    cache.data.rawCommits = update.rawCommits;
+    cache.data.enrichedCommits = update.enrichedCommits;
+    cache.data.classifiedCommits = update.classifiedCommits;
+    delete cache.data.transformRules;
+    delete cache.data.finalCommits;
+    delete cache.progress.lastProcessedHash;
+    this.updateCacheProgress(
+      cache,
+      'classifying',
+      update.classifiedCommits.length,
+      update.enrichedCommits.length
+    );
+  }
+
+  /**
+   * Find classifications that earlier runs on any branch or clone left in the shared store
+   */
+  async reuseStoredClassifications(
+    repoPath: string,
+    commits: EnrichedCommit[],
+    classifier: string
+  ): Promise<ClassifiedCommit[]> {
+    if (this.classificationStore === undefined || commits.length === 0) {
+      return [];
+    }
+
+    try {
+      const fullHashes = await this.gitInterface.resolveCommits(
+        repoPath,
+        commits.map((commit) => commit.hash)
+      );
+      const stored = await this.classificationStore.lookup([...fullHashes.values()], classifier);
+
+      return commits.flatMap((commit): ClassifiedCommit[] => {
+        const fullHash = fullHashes.get(commit.hash);
+        const entry = fullHash !== undefined ? stored.get(fullHash) : undefined;
+        if (entry === undefined) return [];
+
+        const { storedAt: _storedAt, ...classification } = entry;
+        return [{ ...commit, ...classification }];
+      });
+    } catch (error) {
+      console.warn(
+        `⚠️  Could not read the classification store: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Add freshly classified commits to the shared store
+   */
+  async recordClassifications(
+    repoPath: string,
+    commits: ClassifiedCommit[],
+    classifier: string
+  ): Promise<void> {
+    const classified = commits.filter(
+      (commit) => commit.conformingPrefix !== undefined || commit.suggestedPrefix !== undefined
+    );
+    if (this.classificationStore === undefined || classified.length === 0) {
+      return;
+    }
+
+    try {
+      const fullHashes = await this.gitInterface.resolveCommits(
+        repoPath,
+        classified.map((commit) => commit.hash)
+      );
+      const entries = new Map<string, Omit<StoredClassification, 'storedAt'>>();
+      for (const { hash, conformingPrefix, suggestedPrefix, reason } of classified) {
+        const fullHash = fullHashes.get(hash);
+        if (fullHash === undefined) continue;
+
+        entries.set(fullHash, {
+          ...(conformingPrefix !== undefined ? { conformingPrefix } : {}),
+          ...(suggestedPrefix !== undefined ? { suggestedPrefix } : {}),
+          ...(reason !== undefined ? { reason } : {}),
+        });
+      }
+      await this.classificationStore.record(entries, classifier);
+    } catch (error) {
+      // The store only saves work; a failure to write it must not fail the analysis
+      console.warn(
+        `⚠️  Could not update the classification store: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   /**
    * Store transform rules in cache
    */
@@ -309,6 +1111,22 @@ export class CacheService {
     this.updateCacheProgress(cache, 'complete', commits.length);
   }
 
+  /**
+   * Store adaptive batch state in cache
+   */
+  storeBatchState(cache: GcaCache, state: NonNullable<GcaCache['batchState']>): void {
+    cache.batchState = { ...state };
+    cache.progress.lastUpdateTime = new Date().toISOString();
+  }
+
+  /**
+   * Store rate limit counters in cache
+   */
+  storeRateLimitState(cache: GcaCache, state: NonNullable<GcaCache['rateLimitState']>): void {
+    cache.rateLimitState = { ...state };
+    cache.progress.lastUpdateTime = new Date().toISOString();
+  }
+
   /**
    * Serialize transform rules for storage
    */
@@ -332,6 +1150,123 @@ export class CacheService {
     }));
   }
 
+  /**
+   * Summarize how a cache is stored on disk, e.g. "12KB (chunked, gzip, 6.1x smaller)"
+   */
+  private describeStorage(cache: GcaCache): string {
+    const stats = getCacheStatistics(cache);
+    const details: string[] = [
+      cache.metadata.layout ?? 'single',
+      cache.metadata.compression ?? 'none',
+    ];
+    if (stats.compressionRatio !== undefined && stats.compressionRatio > 1) {
+      details.push(`${stats.compressionRatio.toFixed(1)}x smaller`);
+    }
+    return `${Math.round((stats.storedSize ?? stats.totalSize) / 1024)}KB (${details.join(', ')})`;
+  }
+
+  /**
+   * Backups and preserved originals of a cache file that may still refer to its chunks
+   */
+  private async relatedCacheFiles(filePath: string): Promise<string[]> {
+    const backups = Array.from({ length: this.backupCount }, (_, index) =>
+      this.getBackupFilePath(filePath, index)
+    );
+    const base = path.basename(filePath).replace(/\.json$/, '');
+    const versionBackups = (await fs.readdir(path.dirname(filePath)).catch(() => []))
+      .filter((name) => name.startsWith(`${base}.v`) && name.endsWith('.json'))
+      .map((name) => path.join(path.dirname(filePath), name));
+    return [...backups, ...versionBackups];
+  }
+
+  /**
+   * Copy a cache file written by an older schema aside, unless a copy already exists
+   */
+  private async preserveOriginal(filePath: string, version: string): Promise<void> {
+    const backupPath = this.getVersionBackupFilePath(filePath, version);
+    if ((await fileExists(filePath)) && !(await fileExists(backupPath))) {
+      await fs.copyFile(filePath, backupPath);
+    }
+  }
+
+  /**
+   * Shift existing backups down one slot, dropping the oldest, and copy the current file into the newest
+   */
+  private async rotateBackups(filePath: string): Promise<void> {
+    if (this.backupCount === 0 || !(await fileExists(filePath))) {
+      return;
+    }
+
+    for (let index = this.backupCount - 1; index > 0; index--) {
+      const older = this.getBackupFilePath(filePath, index - 1);
+      if (await fileExists(older)) {
+        await fs.rename(older, this.getBackupFilePath(filePath, index));
+      }
+    }
+    await fs.copyFile(filePath, this.getBackupFilePath(filePath, 0));
+  }
+
+  /**
+   * Read a lock file, returning null when it is missing or unreadable
+   */
+  private async readLock(lockPath: string): Promise<CacheLockInfo | null> {
+    try {
+      const lock = await readJsonFile<Partial<CacheLockInfo>>(lockPath);
+      return typeof lock.pid === 'number' &&
+        typeof lock.hostname === 'string' &&
+        typeof lock.createdAt === 'string' &&
+        typeof lock.updatedAt === 'string'
+        ? (lock as CacheLockInfo)
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check whether a cache file, or the cache a backup belongs to, is locked by a live run
+   */
+  private async isLockedByLiveRun(filePath: string): Promise<boolean> {
+    const lock = await this.readLock(this.getLockFilePath(this.primaryCachePath(filePath)));
+    return lock !== null && !this.isStaleLock(lock);
+  }
+
+  /**
+   * Map a backup or preserved original to the cache file it belongs to
+   */
+  private primaryCachePath(filePath: string): string {
+    return filePath.replace(/\.(backup(\.\d+)?|v\d+\.\d+\.\d+)\.json$/, '.json');
+  }
+
+  /**
+   * Total size of the files directly inside a directory, 0 when it does not exist
+   */
+  private async directorySize(dir: string): Promise<number> {
+    const names = await fs.readdir(dir).catch(() => []);
+    const sizes = await Promise.all(
+      names.map(async (name) => (await fs.stat(path.join(dir, name)).catch(() => null))?.size ?? 0)
+    );
+    return sizes.reduce((total, size) => total + size, 0);
+  }
+
+  /**
+   * A lock is stale when its process is gone (same host) or it has not been refreshed recently
+   */
+  private isStaleLock(lock: CacheLockInfo): boolean {
+    if (lock.hostname === os.hostname()) {
+      try {
+        process.kill(lock.pid, 0);
+      } catch (error: unknown) {
+        const err = error as { code?: string };
+        if (err.code === 'ESRCH') {
+          return true;
+        }
+      }
+    }
+
+    return Date.now() - new Date(lock.updatedAt).getTime() > DEFAULT_CACHE_CONFIG.staleLockAge;
+  }
+
   /**
    * Get repository hash for cache validation
    */
@@ -340,7 +1275,7 @@ export class CacheService {
       return await this.gitInterface.getCurrentHead(repoPath);
     } catch (error) {
       console.warn('⚠️  Could not get repository hash:', error);
-      return 'unknown';
+      return UNKNOWN_REPO_HASH;
     }
   }
 
@@ -367,10 +1302,10 @@ export class CacheService {
   }
 
   /**
-   * Create configuration hash for validation
+   * Settings that must match for a cache to be reused
    */
-  private createConfigHash(config: Config): string {
-    const relevantConfig = {
+  private compatibilityConfig(config: Config): Record<string, unknown> {
+    return {
       classificationModel: config.classificationModel,
       ruleGenerationModel: config.ruleGenerationModel,
       maxCommitsToAnalyze: config.maxCommitsToAnalyze,
@@ -378,8 +1313,55 @@ export class CacheService {
       initialBatchSize: config.initialBatchSize,
       contextLimitThreshold: config.contextLimitThreshold,
     };
+  }
+
+  /**
+   * Problems with a cache's own consistency, independent of the repository
+   */
+  private integrityIssues(cache: GcaCache): string[] {
+    const issues: string[] = [];
+
+    if (!isValidCacheProgress(cache.progress)) {
+      issues.push('Progress record is malformed');
+    } else if (cache.progress.processedCommits > cache.progress.totalCommits) {
+      issues.push(
+        `Progress is inconsistent (${cache.progress.processedCommits}/${cache.progress.totalCommits} commits processed)`
+      );
+    }
+
+    const expected = cache.metadata.checksums;
+    if (expected !== undefined) {
+      const actual = this.computeChecksums(cache);
+      const sections = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+      const corrupted = [...sections].filter((section) => expected[section] !== actual[section]);
+      if (corrupted.length > 0) {
+        issues.push(`Checksum mismatch in data sections: ${corrupted.join(', ')}`);
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Reduce the forms of a remote URL to host/path (git@host:org/repo.git -> host/org/repo)
+   */
+  private normalizeRemoteUrl(url: string): string {
+    return url
+      .trim()
+      .replace(/^[a-z+]+:\/\//i, '')
+      .replace(/^[^@/]+@/, '')
+      .replace(/^([^/:]+):(?!\d+\/)/, '$1/')
+      .replace(/\.git\/?$/, '')
+      .replace(/\/+$/, '')
+      .toLowerCase();
+  }
+
+  /**
+   * Create configuration hash for validation
+   */
+  private createConfigHash(config: Config): string {
     return createHash('sha256')
-      .update(JSON.stringify(relevantConfig))
+      .update(JSON.stringify(this.compatibilityConfig(config)))
       .digest('hex')
       .substring(0, 16);
   }
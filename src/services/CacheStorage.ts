@@ -0,0 +1,223 @@
+/**
+ * Reading and writing cache documents in every supported layout and compression
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { brotliCompress, brotliDecompress, gunzip, gzip } from 'zlib';
+import {
+  type CacheChunkInfo,
+  type CacheCompression,
+  type CacheLayout,
+  type GcaCache,
+  CacheError,
+  DEFAULT_CACHE_CONFIG,
+  isValidCache,
+} from '../types/cache';
+import { ensureDirectory, writeFileAtomic } from '../utils/file';
+
+export class CacheStorage {
+  private static readonly GZIP_MAGIC = Buffer.from([0x1f, 0x8b]);
+  private static readonly CHUNK_EXTENSIONS: Record<CacheCompression, string> = {
+    none: '.json',
+    gzip: '.json.gz',
+    brotli: '.json.br',
+  };
+
+  readonly compression: CacheCompression;
+  readonly layout: CacheLayout;
+
+  constructor(options: { compression?: CacheCompression; layout?: CacheLayout } = {}) {
+    this.compression = options.compression ?? DEFAULT_CACHE_CONFIG.compression;
+    this.layout = options.layout ?? DEFAULT_CACHE_CONFIG.layout;
+  }
+
+  /**
+   * Get the directory holding a chunked cache's sections (.gca-cache.json -> .gca-cache.chunks)
+   */
+  getChunkDir(filePath: string): string {
+    return `${filePath.replace(/\.json$/, '')}.chunks`;
+  }
+
+  /**
+   * Serialize each data section once, then write the cache. In the chunked layout only
+   * sections whose content changed are compressed and written; the rest are already on disk.
+   * Updates the cache's size, checksum and layout metadata.
+   */
+  async write(filePath: string, cache: GcaCache): Promise<void> {
+    const sections = Object.entries(cache.data).map(([name, value]): [string, string] => [
+      name,
+      JSON.stringify(value),
+    ]);
+    const checksums = Object.fromEntries(
+      sections.map(([name, json]) => [name, createHash('sha256').update(json).digest('hex')])
+    );
+
+    cache.metadata.checksums = checksums;
+    cache.metadata.cacheSize = sections.reduce(
+      (total, [, json]) => total + Buffer.byteLength(json, 'utf8'),
+      0
+    );
+    cache.metadata.compressionUsed = this.compression !== 'none';
+    cache.metadata.compression = this.compression;
+    cache.metadata.layout = this.layout;
+
+    if (this.layout === 'chunked') {
+      const chunkDir = this.getChunkDir(filePath);
+      await ensureDirectory(chunkDir);
+
+      const chunks: Record<string, CacheChunkInfo> = {};
+      for (const [name, json] of sections) {
+        const checksum = checksums[name] ?? '';
+        const file = `${name}.${checksum.substring(0, 16)}${CacheStorage.CHUNK_EXTENSIONS[this.compression]}`;
+        const chunkPath = path.join(chunkDir, file);
+
+        // Chunks are named by content, so an existing file already holds this section
+        let storedSize = (await fs.stat(chunkPath).catch(() => null))?.size;
+        if (storedSize === undefined) {
+          const content = await this.encode(json);
+          await writeFileAtomic(chunkPath, content);
+          storedSize = content.length;
+        }
+
+        chunks[name] = {
+          file: path.relative(path.dirname(filePath), chunkPath),
+          checksum,
+          size: Buffer.byteLength(json, 'utf8'),
+          storedSize,
+        };
+      }
+      cache.metadata.chunks = chunks;
+
+      const manifest = Buffer.from(JSON.stringify({ ...cache, data: {} }), 'utf8');
+      await writeFileAtomic(filePath, manifest);
+      cache.metadata.storedSize = Object.values(chunks).reduce(
+        (total, chunk) => total + chunk.storedSize,
+        manifest.length
+      );
+      return;
+    }
+
+    delete cache.metadata.chunks;
+    const { data: _data, ...header } = cache;
+    const headerJson = JSON.stringify(header);
+    const dataJson = sections.map(([name, json]) => `${JSON.stringify(name)}:${json}`).join(',');
+    const content = await this.encode(`${headerJson.slice(0, -1)},"data":{${dataJson}}}`);
+    await writeFileAtomic(filePath, content);
+    cache.metadata.storedSize = content.length;
+  }
+
+  /**
+   * Read a cache file in any layout or compression, reassembling and verifying chunks.
+   * Returns the parsed document, which the caller still has to validate.
+   */
+  async read(filePath: string): Promise<unknown> {
+    const raw = await fs.readFile(filePath);
+    const document = await this.decodeDocument(raw);
+    if (!isValidCache(document)) {
+      return document;
+    }
+
+    let storedSize = raw.length;
+    let data = document.data;
+    const chunks = document.metadata.chunks;
+    if (chunks !== undefined) {
+      const sections: Record<string, unknown> = {};
+      for (const [name, chunk] of Object.entries(chunks)) {
+        const chunkPath = path.resolve(path.dirname(filePath), chunk.file);
+        const stored = await fs.readFile(chunkPath).catch(() => {
+          throw new CacheError(`Missing cache chunk ${chunk.file}`, 'load', filePath);
+        });
+        const json = await this.decodeChunk(chunkPath, stored);
+        if (createHash('sha256').update(json).digest('hex') !== chunk.checksum) {
+          throw new CacheError(`Cache chunk ${chunk.file} is corrupted`, 'load', filePath);
+        }
+
+        sections[name] = JSON.parse(json);
+        storedSize += stored.length;
+      }
+      data = sections as GcaCache['data'];
+    }
+
+    return { ...document, data, metadata: { ...document.metadata, storedSize } };
+  }
+
+  /**
+   * Delete chunk files that neither the cache nor any of the given related files (backups,
+   * preserved originals) refer to, and the chunk directory once nothing refers to it
+   */
+  async removeUnreferencedChunks(filePath: string, relatedFiles: string[]): Promise<void> {
+    const chunkDir = this.getChunkDir(filePath);
+    const files = await fs.readdir(chunkDir).catch(() => null);
+    if (files === null) {
+      return;
+    }
+
+    const referenced = new Set<string>();
+    for (const manifestPath of [filePath, ...relatedFiles]) {
+      const raw = await fs.readFile(manifestPath).catch(() => null);
+      if (raw === null) continue;
+
+      const document = await this.decodeDocument(raw).catch(() => null);
+      if (!isValidCache(document)) continue;
+
+      for (const chunk of Object.values(document.metadata.chunks ?? {})) {
+        referenced.add(path.resolve(path.dirname(manifestPath), chunk.file));
+      }
+    }
+
+    for (const file of files) {
+      const chunkPath = path.join(chunkDir, file);
+      // Leave temporary files of writes in progress alone
+      if (!referenced.has(chunkPath) && !file.endsWith('.tmp')) {
+        await fs.rm(chunkPath, { force: true });
+      }
+    }
+    if (referenced.size === 0) {
+      await fs.rm(chunkDir, { recursive: true, force: true });
+    }
+  }
+
+  private async encode(content: string): Promise<Buffer> {
+    const raw = Buffer.from(content, 'utf8');
+    switch (this.compression) {
+      case 'gzip':
+        return promisify(gzip)(raw);
+      case 'brotli':
+        return promisify(brotliCompress)(raw);
+      case 'none':
+        return raw;
+    }
+  }
+
+  /**
+   * Parse a cache file whatever it was compressed with. Brotli has no magic bytes, so plain
+   * JSON is tried before it.
+   */
+  private async decodeDocument(raw: Buffer): Promise<unknown> {
+    if (raw.subarray(0, 2).equals(CacheStorage.GZIP_MAGIC)) {
+      return JSON.parse((await promisify(gunzip)(raw)).toString('utf8'));
+    }
+
+    try {
+      return JSON.parse(raw.toString('utf8'));
+    } catch (error) {
+      const decompressed = await promisify(brotliDecompress)(raw).catch(() => {
+        throw error;
+      });
+      return JSON.parse(decompressed.toString('utf8'));
+    }
+  }
+
+  private async decodeChunk(chunkPath: string, stored: Buffer): Promise<string> {
+    if (chunkPath.endsWith(CacheStorage.CHUNK_EXTENSIONS.gzip)) {
+      return (await promisify(gunzip)(stored)).toString('utf8');
+    }
+    if (chunkPath.endsWith(CacheStorage.CHUNK_EXTENSIONS.brotli)) {
+      return (await promisify(brotliDecompress)(stored)).toString('utf8');
+    }
+    return stored.toString('utf8');
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Content-addressed store of commit classifications shared by every run, branch and clone
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  type ClassificationPruneResult,
+  type ClassificationRecord,
+  type ClassificationStoreStats,
+  type StoredClassification,
+  CacheError,
+  isClassificationRecord,
+} from '../types/cache';
+import { ensureDirectory, listFiles, readJsonFile, writeJsonFileAtomic } from '../utils/file';
+
+export class ClassificationStore {
+  constructor(readonly rootDir: string) {}
+
+  /**
+   * Identify results by the model and prompt version that produced them
+   */
+  static classifierKey(model: string, promptVersion: number): string {
+    return `${model}@prompt-v${promptVersion}`;
+  }
+
+  /**
+   * Get the record path for a full commit hash, fanned out by its first two characters
+   */
+  getRecordPath(hash: string): string {
+    return path.join(this.rootDir, hash.slice(0, 2), `${hash.slice(2)}.json`);
+  }
+
+  /**
+   * Look up one classifier's results for full commit hashes
+   */
+  async lookup(hashes: string[], classifier: string): Promise<Map<string, StoredClassification>> {
+    const found = new Map<string, StoredClassification>();
+
+    for (const hash of hashes) {
+      const entry = (await this.readRecord(this.getRecordPath(hash)))?.classifications[classifier];
+      if (entry !== undefined) {
+        found.set(hash, entry);
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Record one classifier's results for full commit hashes, keeping other classifiers' results
+   */
+  async record(
+    classifications: Map<string, Omit<StoredClassification, 'storedAt'>>,
+    classifier: string
+  ): Promise<void> {
+    const storedAt = new Date().toISOString();
+
+    for (const [hash, classification] of classifications) {
+      const recordPath = this.getRecordPath(hash);
+      const existing = await this.readRecord(recordPath);
+      const record: ClassificationRecord = {
+        hash,
+        classifications: {
+          ...existing?.classifications,
+          [classifier]: { ...classification, storedAt },
+        },
+      };
+
+      try {
+        await ensureDirectory(path.dirname(recordPath));
+        await writeJsonFileAtomic(recordPath, record);
+      } catch (error) {
+        throw new CacheError(
+          `Failed to write classification store: ${error instanceof Error ? error.message : String(error)}`,
+          'store',
+          recordPath
+        );
+      }
+    }
+  }
+
+  /**
+   * Find the records of commits whose hash starts with a prefix
+   */
+  async find(hashPrefix: string): Promise<ClassificationRecord[]> {
+    const prefix = hashPrefix.toLowerCase();
+    const files = await this.listRecordFiles(
+      prefix.length >= 2 ? path.join(this.rootDir, prefix.slice(0, 2)) : this.rootDir
+    );
+    const records: ClassificationRecord[] = [];
+
+    for (const file of files) {
+      const record = await this.readRecord(file);
+      if (record?.hash.startsWith(prefix) === true) {
+        records.push(record);
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Count the commits and results in the store
+   */
+  async getStats(): Promise<ClassificationStoreStats> {
+    const byClassifier: Record<string, number> = {};
+    let commits = 0;
+    let entries = 0;
+    let totalSize = 0;
+
+    for (const file of await this.listRecordFiles(this.rootDir)) {
+      const record = await this.readRecord(file);
+      if (record === null) continue;
+
+      commits++;
+      totalSize += (await fs.stat(file)).size;
+      for (const classifier of Object.keys(record.classifications)) {
+        entries++;
+        byClassifier[classifier] = (byClassifier[classifier] ?? 0) + 1;
+      }
+    }
+
+    return { rootDir: this.rootDir, commits, entries, totalSize, byClassifier };
+  }
+
+  /**
+   * Remove the results a filter rejects; records left empty or unreadable are deleted
+   */
+  async prune(
+    keep: (classifier: string, entry: StoredClassification) => boolean,
+    options: { dryRun?: boolean } = {}
+  ): Promise<ClassificationPruneResult> {
+    const dryRun = options.dryRun ?? false;
+    let removedEntries = 0;
+    let removedCommits = 0;
+
+    for (const file of await this.listRecordFiles(this.rootDir)) {
+      const record = await this.readRecord(file);
+      const all = Object.entries(record?.classifications ?? {});
+      const kept = all.filter(([classifier, entry]) => keep(classifier, entry));
+      if (record !== null && kept.length === all.length) continue;
+
+      removedEntries += all.length - kept.length;
+      if (kept.length === 0) {
+        removedCommits++;
+        if (!dryRun) await fs.rm(file, { force: true });
+      } else if (record !== null && !dryRun) {
+        await writeJsonFileAtomic(file, { ...record, classifications: Object.fromEntries(kept) });
+      }
+    }
+
+    return { removedEntries, removedCommits, dryRun };
+  }
+
+  private async readRecord(recordPath: string): Promise<ClassificationRecord | null> {
+    try {
+      const record = await readJsonFile(recordPath);
+      return isClassificationRecord(record) ? record : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async listRecordFiles(dir: string): Promise<string[]> {
+    try {
+      return await listFiles(dir, { recursive: true, pattern: /^[0-9a-f]+\.json$/ });
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
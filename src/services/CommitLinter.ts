@@ -0,0 +1,49 @@
+/**
+ * Commit message linter used by the commit-msg hook
+ */
+
+import { type LintResult, type LintViolation, LINT_RULES } from '../types/lint';
+import { CONVENTIONAL_PREFIXES } from '../types/rules';
+import { isValidConventionalCommit, validateCommitMessage } from '../utils/validation';
+
+export class CommitLinter {
+  private static readonly EXEMPT_PATTERN = /^(Merge |Revert "|fixup! |squash! |amend! )/;
+  private static readonly SCISSORS = '------------------------ >8 ------------------------';
+
+  /**
+   * Strip what git adds to the message file before it commits: comment lines,
+   * everything below the scissors line, and surrounding blank lines
+   */
+  static cleanMessage(raw: string, commentChar: string = '#'): string {
+    const lines: string[] = [];
+    for (const line of raw.split(/\r?\n/)) {
+      if (line.startsWith(`${commentChar} ${CommitLinter.SCISSORS}`)) break;
+      if (!line.startsWith(commentChar)) lines.push(line);
+    }
+    return lines.join('\n').trim();
+  }
+
+  /**
+   * Check a commit message's subject line against every rule
+   */
+  lint(message: string): LintResult {
+    const subject = message.split('\n')[0] ?? '';
+
+    if (CommitLinter.EXEMPT_PATTERN.test(subject)) {
+      return { subject, valid: true, exempt: true, violations: [] };
+    }
+
+    const violations: LintViolation[] = [];
+    if (!isValidConventionalCommit(subject)) {
+      violations.push({
+        rule: 'conventional-format',
+        message: `${LINT_RULES['conventional-format']} (${CONVENTIONAL_PREFIXES.join(', ')})`,
+      });
+    }
+    validateCommitMessage(subject).errors.forEach((error) => {
+      violations.push({ rule: 'message-format', message: error });
+    });
+
+    return { subject, valid: violations.length === 0, exempt: false, violations };
+  }
+}
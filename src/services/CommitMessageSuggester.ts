@@ -0,0 +1,248 @@
+/**
+ * Proposes a conventional commit message for the staged changes
+ */
+
+import path from 'path';
+import type { Config } from '../types/config';
+import { type ChatMessage, LLMError } from '../types/llm';
+import {
+  type ConventionalPrefix,
+  CONVENTIONAL_PREFIXES,
+  isConventionalPrefix,
+} from '../types/rules';
+import {
+  type CommitSuggestion,
+  type StagedChanges,
+  type StagedFile,
+  formatCommitSuggestion,
+} from '../types/suggest';
+import { retryWithBackoff } from '../utils/async';
+import { CommitLinter } from './CommitLinter';
+import type { LLMService } from './LLMService';
+
+/**
+ * What a staged file is, for choosing the commit type without a model
+ */
+type FileKind = 'test' | 'docs' | 'ci' | 'build' | 'code' | 'other';
+
+export class CommitMessageSuggester {
+  private static readonly MAX_SUMMARY_CHARS = 6000;
+  private static readonly MAX_BODY_FILES = 10;
+  private static readonly TEST_PATH = /(^|\/)(tests?|__tests__|specs?)\/|\.(test|spec)\.[^./]+$/i;
+  private static readonly CI_PATH = /^\.github\/workflows\/|^\.gitlab-ci\.ya?ml$|^\.circleci\//;
+  private static readonly SOURCE_ROOTS = new Set(['src', 'lib', 'packages']);
+
+  constructor(
+    private readonly config: Config,
+    private readonly llmService: LLMService,
+    private readonly linter: CommitLinter = new CommitLinter()
+  ) {}
+
+  /**
+   * Ask the classification model for a message; derive one from the staged files
+   * when no API key is set or the model does not produce a valid message
+   */
+  async suggest(changes: StagedChanges): Promise<CommitSuggestion> {
+    if (!this.llmService.isConfigured()) {
+      return this.fallback(changes.files);
+    }
+
+    try {
+      return await retryWithBackoff(
+        async () => {
+          const content = await this.llmService.createChatCompletion({
+            model: this.config.classificationModel,
+            messages: this.buildMessages(changes),
+            temperature: 0,
+            response_format: { type: 'json_object' },
+          });
+          return this.parseSuggestion(content);
+        },
+        this.config.maxRetries,
+        this.config.baseDelay
+      );
+    } catch (error) {
+      console.warn(
+        `⚠️  Could not get a suggestion from ${this.config.classificationModel} (${error instanceof Error ? error.message : String(error)}); using the staged file categories`
+      );
+      return this.fallback(changes.files);
+    }
+  }
+
+  /**
+   * Deterministic suggestion from the categories and statuses of the staged files
+   */
+  fallback(files: StagedFile[]): CommitSuggestion {
+    const kinds = new Set(files.map((file) => this.kindOf(file)));
+    const type = this.typeFor(kinds, files);
+    const scope = this.commonScope(files);
+    const body =
+      files.length > 1
+        ? [
+            ...files
+              .slice(0, CommitMessageSuggester.MAX_BODY_FILES)
+              .map((file) => `- ${file.status} ${file.path}`),
+            ...(files.length > CommitMessageSuggester.MAX_BODY_FILES
+              ? [`- and ${files.length - CommitMessageSuggester.MAX_BODY_FILES} more`]
+              : []),
+          ].join('\n')
+        : undefined;
+
+    return {
+      type,
+      ...(scope !== undefined ? { scope } : {}),
+      subject: this.describe(files),
+      ...(body !== undefined ? { body } : {}),
+      source: 'fallback',
+    };
+  }
+
+  private kindOf(file: StagedFile): FileKind {
+    if (CommitMessageSuggester.CI_PATH.test(file.path)) return 'ci';
+    if (CommitMessageSuggester.TEST_PATH.test(file.path) || file.category === 'test') return 'test';
+
+    switch (file.category) {
+      case 'docs':
+        return 'docs';
+      case 'config':
+      case 'deps':
+      case 'build':
+        return 'build';
+      case 'code':
+      case 'style':
+      case 'proto':
+        return 'code';
+      default:
+        return 'other';
+    }
+  }
+
+  /**
+   * A single kind of file decides the type; code changes decide it over tests and docs
+   */
+  private typeFor(kinds: Set<FileKind>, files: StagedFile[]): ConventionalPrefix {
+    if (kinds.has('code')) {
+      const code = files.filter((file) => this.kindOf(file) === 'code');
+      if (code.some((file) => file.status === 'added')) return 'feat';
+      if (code.every((file) => file.status === 'deleted' || file.status === 'renamed')) {
+        return 'refactor';
+      }
+      return 'fix';
+    }
+
+    const [only] = [...kinds];
+    if (kinds.size !== 1 || only === undefined) return 'chore';
+
+    switch (only) {
+      case 'test':
+        return 'test';
+      case 'docs':
+        return 'docs';
+      case 'ci':
+        return 'ci';
+      case 'build':
+        return 'build';
+      case 'code':
+      case 'other':
+        return 'chore';
+    }
+  }
+
+  /**
+   * The directory every file shares below the source root, e.g. services for src/services/*
+   */
+  private commonScope(files: StagedFile[]): string | undefined {
+    const directories = files.map((file) => {
+      const segments = file.path.split('/').slice(0, -1);
+      const [root, directory] = segments;
+      return root !== undefined && CommitMessageSuggester.SOURCE_ROOTS.has(root)
+        ? directory
+        : undefined;
+    });
+
+    const [scope] = directories;
+    return scope !== undefined && directories.every((directory) => directory === scope)
+      ? scope
+      : undefined;
+  }
+
+  private describe(files: StagedFile[]): string {
+    const verbs: Record<StagedFile['status'], string> = {
+      added: 'add',
+      modified: 'update',
+      deleted: 'remove',
+      renamed: 'rename',
+      copied: 'copy',
+      changed: 'update',
+    };
+
+    const [first] = files;
+    if (files.length === 1 && first !== undefined) {
+      return `${verbs[first.status]} ${path.basename(first.path)}`;
+    }
+
+    const statuses = new Set(files.map((file) => file.status));
+    const [status] = [...statuses];
+    const verb = statuses.size === 1 && status !== undefined ? verbs[status] : 'update';
+    return `${verb} ${files.length} files`;
+  }
+
+  /**
+   * Build the prompt describing the staged changes to the model
+   */
+  private buildMessages(changes: StagedChanges): ChatMessage[] {
+    const system = [
+      'You write git commit messages in the Conventional Commits format.',
+      `Valid types: ${CONVENTIONAL_PREFIXES.join(', ')}.`,
+      'The subject is imperative, lower case, at most 60 characters and does not end with a period.',
+      'The scope is a single lower-case word naming the area changed, or null.',
+      'The body explains what changed and why in a few short lines, or is null for small changes.',
+      'Respond with a single JSON object of the form:',
+      '{"type":"feat","scope":"parser","subject":"<subject>","body":"<body or null>"}',
+    ].join('\n');
+
+    const summary =
+      changes.summary.length > CommitMessageSuggester.MAX_SUMMARY_CHARS
+        ? `${changes.summary.substring(0, CommitMessageSuggester.MAX_SUMMARY_CHARS)}\n... (truncated)`
+        : changes.summary;
+
+    return [
+      { role: 'system', content: system },
+      { role: 'user', content: `Write the commit message for these staged changes:\n\n${summary}` },
+    ];
+  }
+
+  /**
+   * Parse and validate the model response; invalid responses throw so they are retried
+   */
+  private parseSuggestion(content: string): CommitSuggestion {
+    const payload = this.llmService.extractJsonPayload(content);
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      throw new LLMError('Suggestion response is not a JSON object');
+    }
+
+    const { type, scope, subject, body } = payload as Record<string, unknown>;
+    if (typeof type !== 'string' || !isConventionalPrefix(type)) {
+      throw new LLMError(`Suggestion has an invalid type: ${String(type)}`);
+    }
+    if (typeof subject !== 'string' || subject.trim() === '') {
+      throw new LLMError('Suggestion has no subject');
+    }
+
+    const suggestion: CommitSuggestion = {
+      type,
+      ...(typeof scope === 'string' && scope.trim() !== '' ? { scope: scope.trim() } : {}),
+      subject: subject.trim().replace(/\.+$/, ''),
+      ...(typeof body === 'string' && body.trim() !== '' ? { body: body.trim() } : {}),
+      source: 'model',
+    };
+
+    const result = this.linter.lint(formatCommitSuggestion(suggestion));
+    if (!result.valid) {
+      throw new LLMError(
+        `Suggestion does not follow the conventions: ${result.violations.map((violation) => violation.message).join('; ')}`
+      );
+    }
+    return suggestion;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Lints every commit in a range for CI, with annotations and a JUnit report
+ */
+
+import { GitError } from '../git/GitInterface';
+import { type AnnotationFormat, type CommitLintResult, type RangeLintResult } from '../types/lint';
+import { CommitLinter } from './CommitLinter';
+import type { GitService } from './GitService';
+
+export class CommitRangeLinter {
+  constructor(
+    private readonly gitService: GitService,
+    private readonly linter: CommitLinter = new CommitLinter()
+  ) {}
+
+  /**
+   * Annotation format of the CI system running gca, from the variables each one sets
+   */
+  static detectAnnotationFormat(env: NodeJS.ProcessEnv = process.env): AnnotationFormat | null {
+    if (env['GITHUB_ACTIONS'] === 'true') return 'github';
+    if (env['GITLAB_CI'] === 'true') return 'gitlab';
+    return null;
+  }
+
+  /**
+   * Lint the subject of each commit in the range. Both ends must resolve, so a
+   * mistyped range fails instead of passing with no commits.
+   */
+  async lintRange(repoPath: string, range: string): Promise<RangeLintResult> {
+    const revisions = range.split(/\.{2,3}/).filter((revision) => revision !== '');
+    for (const revision of revisions) {
+      // Git would read a leading dash as an option
+      const resolved = revision.startsWith('-')
+        ? Promise.reject(new GitError('Revision looks like an option', 'git rev-parse', 1))
+        : this.gitService.resolveCommit(repoPath, revision);
+      await resolved.catch((error: unknown) => {
+        throw error instanceof GitError
+          ? new GitError(
+              `Unknown revision ${revision} in range ${range}`,
+              error.command,
+              error.exitCode
+            )
+          : error;
+      });
+    }
+
+    const commits = (await this.gitService.getCommitsInRange(repoPath, range)).map(
+      (line): CommitLintResult => {
+        const [hash = '', subject = ''] = line.split('\0');
+        return { hash, ...this.linter.lint(subject) };
+      }
+    );
+
+    return {
+      range,
+      commits,
+      failed: commits.filter((commit) => !commit.valid).length,
+    };
+  }
+
+  /**
+   * One annotation line per violation
+   */
+  renderAnnotations(result: RangeLintResult, format: AnnotationFormat): string[] {
+    return result.commits.flatMap((commit) =>
+      commit.violations.map((violation) => {
+        const message = `${violation.message} in "${commit.subject}"`;
+        return format === 'github'
+          ? `::error title=${this.escapeProperty(`Commit ${commit.hash} (${violation.rule})`)}::${this.escapeData(message)}`
+          : `commit ${commit.hash}: error: ${violation.rule}: ${message}`;
+      })
+    );
+  }
+
+  /**
+   * JUnit XML with a test case per commit; exempt commits are reported as skipped
+   */
+  renderJUnit(result: RangeLintResult): string {
+    const skipped = result.commits.filter((commit) => commit.exempt).length;
+    const cases = result.commits.map((commit) => {
+      const name = this.escapeXml(`${commit.hash} ${commit.subject}`);
+      const open = `    <testcase classname="commits" name="${name}"`;
+      const [first] = commit.violations;
+
+      if (commit.exempt) {
+        return `${open}>\n      <skipped message="written by git"/>\n    </testcase>`;
+      }
+      if (first === undefined) {
+        return `${open}/>`;
+      }
+
+      const details = commit.violations
+        .map((violation) => `${violation.rule}: ${violation.message}`)
+        .join('\n');
+      return [
+        `${open}>`,
+        `      <failure message="${this.escapeXml(first.message)}" type="${first.rule}">${this.escapeXml(details)}</failure>`,
+        '    </testcase>',
+      ].join('\n');
+    });
+
+    const suite = this.escapeXml(`gca lint ${result.range}`);
+    const counts = `tests="${result.commits.length}" failures="${result.failed}"`;
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="${suite}" ${counts}>`,
+      `  <testsuite name="${suite}" ${counts} errors="0" skipped="${skipped}">`,
+      ...cases,
+      '  </testsuite>',
+      '</testsuites>',
+      '',
+    ].join('\n');
+  }
+
+  private escapeData(text: string): string {
+    return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+  }
+
+  private escapeProperty(text: string): string {
+    return this.escapeData(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
@@ -3,7 +3,8 @@
  */
 
 import * as dotenv from 'dotenv';
-import type { Config } from '../types/config';
+import type { CacheCompression, CacheLayout, CacheLocation } from '../types/cache';
+import { type Config, DEFAULT_CONFIG } from '../types/config';
 import {
   validateRequiredProperties,
   isPositiveNumber,
@@ -62,6 +63,13 @@ export class ConfigService {
       decayFactor: parseFloat(process.env['DECAY_FACTOR'] ?? '0.6'),
       successThreshold: parseInt(process.env['SUCCESS_THRESHOLD'] ?? '2', 10),
       diffConcurrency: parseInt(process.env['DIFF_CONCURRENCY'] ?? '4', 10),
+      cacheBackupCount: parseInt(process.env['CACHE_BACKUP_COUNT'] ?? '3', 10),
+      cacheCompression: (process.env['CACHE_COMPRESSION'] ?? 'none') as CacheCompression,
+      cacheLayout: (process.env['CACHE_LAYOUT'] ?? 'single') as CacheLayout,
+      cacheLocation: (process.env['CACHE_LOCATION'] ?? 'global') as CacheLocation,
+      classificationStoreDir:
+        process.env['CLASSIFICATION_STORE_DIR'] ?? DEFAULT_CONFIG.classificationStoreDir,
+      outputJson: process.env['OUTPUT_JSON'] === 'true',
       syntheticTestMode: process.env['SYNTHETIC_TEST_MODE'] === 'true',
     };
 
@@ -162,6 +170,22 @@ export class ConfigService {
       errors.push('Diff concurrency must be a positive number');
     }
 
+    if (!isNonNegativeNumber(config.cacheBackupCount)) {
+      errors.push('Cache backup count must be a non-negative number');
+    }
+
+    if (!['none', 'gzip', 'brotli'].includes(config.cacheCompression)) {
+      errors.push('Cache compression must be one of: none, gzip, brotli');
+    }
+
+    if (!['single', 'chunked'].includes(config.cacheLayout)) {
+      errors.push('Cache layout must be one of: single, chunked');
+    }
+
+    if (!['global', 'cwd'].includes(config.cacheLocation)) {
+      errors.push('Cache location must be one of: global, cwd');
+    }
+
     // Validate optional numeric values
     if (
       config.maxCommitsToAnalyze !== null &&
@@ -229,6 +253,12 @@ export class ConfigService {
       decayFactor: 0.6,
       successThreshold: 2,
       diffConcurrency: 4,
+      cacheBackupCount: 3,
+      cacheCompression: 'none',
+      cacheLayout: 'single',
+      cacheLocation: 'cwd',
+      classificationStoreDir: '',
+      outputJson: false,
       syntheticTestMode: true,
     };
 
@@ -0,0 +1,46 @@
+/**
+ * CSV report: one row per analyzed commit with its classification
+ */
+
+import type { ReportCommit, ReportInput, Reporter } from '../types/report';
+
+export class CsvReporter implements Reporter {
+  readonly format = 'csv';
+
+  static readonly COLUMNS = [
+    'hash',
+    'date',
+    'conventional',
+    'prefix',
+    'suggested_prefix',
+    'subject',
+    'proposed_message',
+    'reason',
+  ] as const;
+
+  render({ commits }: ReportInput): string {
+    const rows = [[...CsvReporter.COLUMNS], ...commits.map((commit) => this.toRow(commit))];
+    const lines = rows.map((row) => row.map((field) => this.escape(field)).join(','));
+    return `${lines.join('\r\n')}\r\n`;
+  }
+
+  private toRow(commit: ReportCommit): string[] {
+    return [
+      commit.hash,
+      commit.date ?? '',
+      String(commit.conventional),
+      commit.prefix ?? '',
+      commit.suggestedPrefix ?? '',
+      commit.subject,
+      commit.proposedMessage ?? '',
+      commit.reason ?? '',
+    ];
+  }
+
+  /**
+   * Quote fields with separators, quotes or line breaks (RFC 4180)
+   */
+  private escape(field: string): string {
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  }
+}
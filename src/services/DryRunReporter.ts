@@ -0,0 +1,249 @@
+/**
+ * Dry-run reporter for reviewing proposed commit message rewrites
+ */
+
+import path from 'path';
+import type { ClassifiedCommit } from '../types/commits';
+import { type SerializableTransformRule, serializeTransformRule } from '../types/rules';
+import type { DryRunReport, DryRunSummary, RewriteProposal } from '../types/rewrite';
+import { colorize, supportsColor } from '../utils/cli';
+import { writeJsonFile } from '../utils/file';
+import { isValidConventionalCommit } from '../utils/validation';
+import { type RuleEngineReport, RuleEngine } from './RuleEngine';
+
+/**
+ * Short label and usage count for a rule shown in the terminal legend
+ */
+interface RuleLabel {
+  readonly label: string;
+  readonly rule: SerializableTransformRule;
+  count: number;
+}
+
+export class DryRunReporter {
+  static readonly REPORT_VERSION = '1.0.0';
+  static readonly DEFAULT_OUTPUT_FILE = '.gca-dry-run.json';
+
+  private static readonly HASH_WIDTH = 8;
+  private static readonly SOURCE_WIDTH = 8;
+  private static readonly SEPARATOR = ' │ ';
+  private static readonly DEFAULT_WIDTH = 120;
+  private static readonly MIN_MESSAGE_WIDTH = 20;
+
+  /**
+   * Build the report from the classified commits and the rule engine's results
+   */
+  buildReport(
+    repoPath: string,
+    commits: ClassifiedCommit[],
+    engineReport: RuleEngineReport
+  ): DryRunReport {
+    const proposals = commits.map((commit): RewriteProposal => {
+      const result = engineReport.results.get(commit.hash);
+      const rule = result?.applied === true ? result.appliedRule : undefined;
+
+      return {
+        hash: commit.hash,
+        originalMessage: commit.message,
+        proposedMessage: result?.transformedMessage ?? commit.message,
+        source: rule === undefined ? 'none' : RuleEngine.isFallbackRule(rule) ? 'model' : 'rule',
+        ...(rule !== undefined ? { rule: serializeTransformRule(rule) } : {}),
+        ...(commit.conformingPrefix !== undefined
+          ? { conformingPrefix: commit.conformingPrefix }
+          : {}),
+        ...(commit.suggestedPrefix !== undefined
+          ? { suggestedPrefix: commit.suggestedPrefix }
+          : {}),
+        ...(commit.reason !== undefined ? { reason: commit.reason } : {}),
+      };
+    });
+
+    const unchanged = proposals.filter((proposal) => proposal.source === 'none');
+    const summary: DryRunSummary = {
+      totalCommits: proposals.length,
+      proposedRewrites: proposals.length - unchanged.length,
+      byRule: proposals.filter((proposal) => proposal.source === 'rule').length,
+      byModel: proposals.filter((proposal) => proposal.source === 'model').length,
+      alreadyConventional: unchanged.filter((proposal) =>
+        isValidConventionalCommit(proposal.originalMessage)
+      ).length,
+      unresolved: unchanged.filter(
+        (proposal) => !isValidConventionalCommit(proposal.originalMessage)
+      ).length,
+      conflicts: engineReport.conflicts.length,
+    };
+
+    return {
+      version: DryRunReporter.REPORT_VERSION,
+      generatedAt: new Date().toISOString(),
+      repoPath: path.resolve(repoPath),
+      summary,
+      proposals,
+    };
+  }
+
+  /**
+   * Render proposed rewrites as a side-by-side diff with a rule legend and summary
+   */
+  render(report: DryRunReport, options: { width?: number; color?: boolean } = {}): string {
+    const color = options.color ?? supportsColor();
+    const width =
+      options.width ??
+      (process.stdout.isTTY ? process.stdout.columns : DryRunReporter.DEFAULT_WIDTH);
+    const separator = colorize(DryRunReporter.SEPARATOR, 'dim', color);
+    const fixedWidth =
+      DryRunReporter.HASH_WIDTH + DryRunReporter.SOURCE_WIDTH + DryRunReporter.SEPARATOR.length * 3;
+    const messageWidth = Math.max(
+      DryRunReporter.MIN_MESSAGE_WIDTH,
+      Math.floor((width - fixedWidth) / 2)
+    );
+
+    const changed = report.proposals.filter((proposal) => proposal.source !== 'none');
+    const ruleLabels = this.labelRules(changed);
+    const lines: string[] = [];
+
+    lines.push(
+      colorize(
+        [
+          this.pad('Commit', DryRunReporter.HASH_WIDTH),
+          this.pad('Original', messageWidth),
+          this.pad('Proposed', messageWidth),
+          'Source',
+        ].join(DryRunReporter.SEPARATOR),
+        'bold',
+        color
+      )
+    );
+
+    for (const proposal of changed) {
+      const original = this.truncate(this.subject(proposal.originalMessage), messageWidth);
+      const proposed = this.truncate(this.subject(proposal.proposedMessage), messageWidth);
+      const [left, right] = this.highlight(original, proposed, color);
+      const source =
+        proposal.rule !== undefined && proposal.source === 'rule'
+          ? (ruleLabels.get(this.ruleKey(proposal.rule))?.label ?? 'rule')
+          : proposal.source;
+
+      lines.push(
+        [
+          colorize(
+            this.pad(proposal.hash.substring(0, 8), DryRunReporter.HASH_WIDTH),
+            'cyan',
+            color
+          ),
+          left + ' '.repeat(messageWidth - original.length),
+          right + ' '.repeat(messageWidth - proposed.length),
+          source,
+        ].join(separator)
+      );
+    }
+
+    if (changed.length === 0) {
+      lines.push(colorize('(no rewrites proposed)', 'dim', color));
+    }
+
+    if (ruleLabels.size > 0 || report.summary.byModel > 0) {
+      lines.push('', 'Sources:');
+      ruleLabels.forEach(({ label, rule, count }) => {
+        lines.push(`  ${label}: /${rule.pattern}/${rule.flags} → "${rule.replacement}" (${count})`);
+      });
+      if (report.summary.byModel > 0) {
+        lines.push(`  model: model-suggested prefix fallback (${report.summary.byModel})`);
+      }
+    }
+
+    const { summary } = report;
+    lines.push(
+      '',
+      'Summary:',
+      `  • Commits analyzed: ${summary.totalCommits}`,
+      `  • Proposed rewrites: ${colorize(String(summary.proposedRewrites), 'green', color)} (${summary.byRule} by rule, ${summary.byModel} by model)`,
+      `  • Already conventional: ${summary.alreadyConventional}`,
+      `  • Unresolved (no rule matched): ${summary.unresolved > 0 ? colorize(String(summary.unresolved), 'yellow', color) : '0'}`
+    );
+    if (summary.conflicts > 0) {
+      lines.push(`  • Rule conflicts: ${colorize(String(summary.conflicts), 'yellow', color)}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Write the machine-readable report and return its absolute path
+   */
+  async writeReport(
+    report: DryRunReport,
+    filePath: string = DryRunReporter.DEFAULT_OUTPUT_FILE
+  ): Promise<string> {
+    const resolved = path.resolve(filePath);
+    await writeJsonFile(resolved, report);
+    return resolved;
+  }
+
+  /**
+   * Number the rules in order of first use
+   */
+  private labelRules(proposals: RewriteProposal[]): Map<string, RuleLabel> {
+    const labels = new Map<string, RuleLabel>();
+
+    for (const proposal of proposals) {
+      if (proposal.source !== 'rule' || proposal.rule === undefined) continue;
+
+      const key = this.ruleKey(proposal.rule);
+      const existing = labels.get(key);
+      if (existing !== undefined) {
+        existing.count++;
+      } else {
+        labels.set(key, { label: `rule ${labels.size + 1}`, rule: proposal.rule, count: 1 });
+      }
+    }
+
+    return labels;
+  }
+
+  /**
+   * Colour the differing middle of two strings, keeping their common prefix and suffix plain
+   */
+  private highlight(original: string, proposed: string, color: boolean): [string, string] {
+    let prefix = 0;
+    while (
+      prefix < original.length &&
+      prefix < proposed.length &&
+      original[prefix] === proposed[prefix]
+    ) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < original.length - prefix &&
+      suffix < proposed.length - prefix &&
+      original[original.length - 1 - suffix] === proposed[proposed.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const mark = (text: string, tint: 'red' | 'green'): string =>
+      text.substring(0, prefix) +
+      colorize(text.substring(prefix, text.length - suffix), tint, color) +
+      text.substring(text.length - suffix);
+
+    return [mark(original, 'red'), mark(proposed, 'green')];
+  }
+
+  private ruleKey(rule: SerializableTransformRule): string {
+    return `${rule.pattern}/${rule.flags}/${rule.replacement}`;
+  }
+
+  private subject(message: string): string {
+    return message.split('\n')[0] ?? message;
+  }
+
+  private truncate(text: string, width: number): string {
+    return text.length > width ? `${text.substring(0, width - 1)}…` : text;
+  }
+
+  private pad(text: string, width: number): string {
+    return this.truncate(text, width).padEnd(width);
+  }
+}
@@ -2,8 +2,10 @@
  * Git service for managing git repository operations
  */
 
-import type { GitInterface } from '../git/GitInterface';
+import type { CommitMetadata, GitInterface } from '../git/GitInterface';
 import type { RawCommit, EnrichedCommit } from '../types/commits';
+import type { StagedChanges, StagedFile } from '../types/suggest';
+import { writeProgress } from '../utils/cli';
 import { categorizeFile } from '../utils/file';
 import { ConcurrencyLimiter } from '../utils/async';
 
@@ -15,7 +17,7 @@ export class GitService {
    */
   async getLogEntries(
     repoPath: string,
-    options: { count?: number | null } = {}
+    options: { count?: number | null; range?: string } = {}
   ): Promise<string[]> {
     return this.gitInterface.getLogEntries(repoPath, options);
   }
@@ -74,7 +76,7 @@ export class GitService {
 
           // Progress indicator
           if ((index + 1) % 10 === 0 || index === commits.length - 1) {
-            process.stdout.write(`\rFetched diffs: ${index + 1}/${commits.length}`);
+            writeProgress(`Fetched diffs: ${index + 1}/${commits.length}`);
           }
 
           return { ...commit, diff };
@@ -100,6 +102,55 @@ export class GitService {
     return this.gitInterface.getCurrentBranch(repoPath);
   }
 
+  /**
+   * Resolve a revision to a full commit hash
+   */
+  async resolveCommit(repoPath: string, revision: string): Promise<string> {
+    return this.gitInterface.resolveCommit(repoPath, revision);
+  }
+
+  /**
+   * Resolve abbreviated hashes to full commit hashes, skipping missing commits
+   */
+  async resolveCommits(repoPath: string, hashes: string[]): Promise<Map<string, string>> {
+    return this.gitInterface.resolveCommits(repoPath, hashes);
+  }
+
+  /**
+   * Check whether a commit is in the history of another
+   */
+  async isAncestor(repoPath: string, ancestor: string, descendant: string): Promise<boolean> {
+    return this.gitInterface.isAncestor(repoPath, ancestor, descendant);
+  }
+
+  /**
+   * Get the given commits that are not in the history of head, including missing ones
+   */
+  async getUnreachableCommits(repoPath: string, hashes: string[], head: string): Promise<string[]> {
+    return this.gitInterface.getUnreachableCommits(repoPath, hashes, head);
+  }
+
+  /**
+   * Get stable patch-ids for commits, keyed by the given hashes
+   */
+  async getPatchIds(repoPath: string, hashes: string[]): Promise<Map<string, string>> {
+    return this.gitInterface.getPatchIds(repoPath, hashes);
+  }
+
+  /**
+   * Get trees, identities and dates for the commits in a range
+   */
+  async getCommitMetadata(repoPath: string, range: string): Promise<CommitMetadata[]> {
+    return this.gitInterface.getCommitMetadata(repoPath, range);
+  }
+
+  /**
+   * Get the commits in a range, oldest first, as abbreviated hash and subject separated by NUL
+   */
+  async getCommitsInRange(repoPath: string, range: string): Promise<string[]> {
+    return this.gitInterface.getCommitsInRange(repoPath, range);
+  }
+
   /**
    * Get git version
    */
@@ -121,6 +172,20 @@ export class GitService {
     return this.gitInterface.createBranch(repoPath, branchName);
   }
 
+  /**
+   * Switch to a branch
+   */
+  async checkoutBranch(repoPath: string, branchName: string): Promise<void> {
+    return this.gitInterface.checkoutBranch(repoPath, branchName);
+  }
+
+  /**
+   * Rewrite commit messages in a range with a generated message-filter script
+   */
+  async executeMessageFilter(repoPath: string, range: string, scriptPath: string): Promise<void> {
+    return this.gitInterface.executeMessageFilter(repoPath, range, { scriptPath });
+  }
+
   /**
    * Execute interactive rebase
    */
@@ -219,13 +284,19 @@ export class GitService {
    * Create enhanced diff summary with file categorization
    */
   createEnhancedDiffSummary(diff: string, originalMessage: string): string {
+    return `Message: ${originalMessage}\n\n${this.summarizeDiff(diff)}`;
+  }
+
+  /**
+   * Summarize a patch: file count and types, line counts and a sample of the changes
+   */
+  summarizeDiff(diff: string): string {
     const stats = this.getCommitStats(diff);
     const fileTypeSummary = Object.entries(stats.fileTypes)
       .map(([type, count]) => `${type} (${count})`)
       .join(', ');
 
-    let summary = `Message: ${originalMessage}\n\n`;
-    summary += `Files changed (${stats.filesChanged} total):\n`;
+    let summary = `Files changed (${stats.filesChanged} total):\n`;
 
     if (fileTypeSummary.length > 0) {
       summary += `File types: ${fileTypeSummary}\n`;
@@ -260,28 +331,91 @@ export class GitService {
   }
 
   /**
-   * Get commits with enhanced diff summaries
+   * Summarize the changes staged for the next commit, the way historical commits are summarized
    */
-  async getCommitsWithEnhancedDiffs(
-    repoPath: string,
-    options: {
-      count?: number | null;
-      concurrency?: number;
-      enhanceDiffs?: boolean;
-    } = {}
-  ): Promise<EnrichedCommit[]> {
-    const { count, concurrency = 4, enhanceDiffs = false } = options;
+  async getStagedChanges(repoPath: string): Promise<StagedChanges> {
+    const [nameStatus, patch] = await Promise.all([
+      this.gitInterface.getStagedDiff(repoPath, { nameStatus: true }),
+      this.gitInterface.getStagedDiff(repoPath),
+    ]);
 
-    // Get raw commit log entries
-    const logEntries = await this.getLogEntries(repoPath, count !== undefined ? { count } : {});
+    const statuses: Record<string, StagedFile['status']> = {
+      A: 'added',
+      M: 'modified',
+      D: 'deleted',
+      R: 'renamed',
+      C: 'copied',
+    };
+    const files = nameStatus
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line): StagedFile => {
+        const [status = '', ...paths] = line.split('\t');
+        // Renames and copies list the old path first
+        const filePath = paths[paths.length - 1] ?? '';
+        return {
+          status: statuses[status.charAt(0)] ?? 'changed',
+          path: filePath,
+          category: categorizeFile(filePath),
+        };
+      });
+
+    const fileList = files.map((file) => `${file.status} ${file.category}: ${file.path}`);
+    return {
+      files,
+      summary: `Staged files:\n${fileList.join('\n')}\n\n${this.summarizeDiff(patch)}`,
+    };
+  }
+
+  /**
+   * Get the most recent commits without diffs, optionally limited to a revision range
+   */
+  async getRawCommits(
+    repoPath: string,
+    count?: number | null,
+    range?: string
+  ): Promise<RawCommit[]> {
+    const logEntries = await this.getLogEntries(repoPath, {
+      ...(count !== undefined ? { count } : {}),
+      ...(range !== undefined ? { range } : {}),
+    });
     const rawCommits = await this.parseCommitEntries(logEntries);
 
     console.log(`📋 Found ${rawCommits.length} commits`);
+    return rawCommits;
+  }
+
+  /**
+   * Get the author date (ISO 8601) of the most recent commits, keyed by abbreviated hash
+   */
+  async getCommitDates(repoPath: string, count?: number | null): Promise<Map<string, string>> {
+    const logEntries = await this.gitInterface.getLogEntries(repoPath, {
+      format: '%h%x00%aI',
+      ...(count !== undefined ? { count } : {}),
+    });
+
+    const dates = new Map<string, string>();
+    for (let i = 0; i < logEntries.length; i += 2) {
+      const hash = logEntries[i]?.trim();
+      const date = logEntries[i + 1]?.trim();
+      if (hash !== undefined && date !== undefined && hash.length > 0 && date.length > 0) {
+        dates.set(hash, date);
+      }
+    }
+    return dates;
+  }
 
-    // Enrich with diffs
-    const enrichedCommits = await this.enrichCommitsWithDiffs(rawCommits, repoPath, concurrency);
+  /**
+   * Enrich commits with diffs, optionally enhancing the summaries with additional analysis
+   */
+  async enrichCommits(
+    repoPath: string,
+    commits: RawCommit[],
+    options: { concurrency?: number; enhanceDiffs?: boolean } = {}
+  ): Promise<EnrichedCommit[]> {
+    const { concurrency = 4, enhanceDiffs = false } = options;
+    const enrichedCommits = await this.enrichCommitsWithDiffs(commits, repoPath, concurrency);
 
-    // Optionally enhance diffs with additional analysis
     if (enhanceDiffs) {
       console.log('🔍 Enhancing diff summaries...');
       return enrichedCommits.map((commit) => ({
@@ -293,6 +427,22 @@ export class GitService {
     return enrichedCommits;
   }
 
+  /**
+   * Get commits with enhanced diff summaries
+   */
+  async getCommitsWithEnhancedDiffs(
+    repoPath: string,
+    options: {
+      count?: number | null;
+      concurrency?: number;
+      enhanceDiffs?: boolean;
+    } = {}
+  ): Promise<EnrichedCommit[]> {
+    const { count, ...enrichOptions } = options;
+    const rawCommits = await this.getRawCommits(repoPath, count);
+    return this.enrichCommits(repoPath, rawCommits, enrichOptions);
+  }
+
   /**
    * Validate repository accessibility
    */
@@ -0,0 +1,170 @@
+/**
+ * Installs the git hooks that lint commit messages as they are written
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { GitInterface } from '../git/GitInterface';
+import {
+  type HookChange,
+  type HookInstallOptions,
+  type HookName,
+  HOOK_NAMES,
+  HookError,
+} from '../types/hook';
+import { CONVENTIONAL_PREFIXES } from '../types/rules';
+import { ensureDirectory, fileExists, readTextFile, writeTextFile } from '../utils/file';
+
+export class HookService {
+  static readonly MARKER = '# Installed by gca hook install; remove with gca hook uninstall';
+  static readonly CHAINED_SUFFIX = '.pre-gca';
+
+  /**
+   * @param command - Command line that runs gca, baked into the hooks
+   */
+  constructor(
+    private readonly gitInterface: GitInterface,
+    private readonly command: string[] = HookService.currentCommand()
+  ) {}
+
+  /**
+   * The node binary and script running now, so hooks work without gca on PATH
+   */
+  static currentCommand(): string[] {
+    return [process.execPath, path.resolve(process.argv[1] ?? 'gca')];
+  }
+
+  /**
+   * Install commit-msg (and optionally prepare-commit-msg). A hook gca did not write is
+   * renamed with CHAINED_SUFFIX and run first; a hook gca wrote is updated in place.
+   */
+  async install(repoPath: string, options: HookInstallOptions = {}): Promise<HookChange[]> {
+    const hooksDir = await this.gitInterface.getHooksDirectory(repoPath);
+    await ensureDirectory(hooksDir);
+    if (!(await fs.stat(hooksDir)).isDirectory()) {
+      throw new HookError(`Hooks path ${hooksDir} is not a directory; check core.hooksPath`);
+    }
+
+    const hooks: HookName[] =
+      options.prepareCommitMsg === true || options.suggestMessage === true
+        ? ['commit-msg', 'prepare-commit-msg']
+        : ['commit-msg'];
+    const changes: HookChange[] = [];
+
+    for (const hook of hooks) {
+      const hookPath = path.join(hooksDir, hook);
+      const chainedPath = `${hookPath}${HookService.CHAINED_SUFFIX}`;
+      const existed = await fileExists(hookPath);
+      const ours = existed && (await this.isInstalledByGca(hookPath));
+
+      if (existed && !ours) {
+        if (await fileExists(chainedPath)) {
+          throw new HookError(
+            `Cannot chain the existing ${hook} hook: ${chainedPath} already exists`,
+            hook
+          );
+        }
+        await fs.rename(hookPath, chainedPath);
+      }
+
+      await writeTextFile(hookPath, this.renderHook(hook, options));
+      await fs.chmod(hookPath, 0o755);
+      changes.push({
+        hook,
+        path: hookPath,
+        action: ours ? 'updated' : 'installed',
+        ...((await fileExists(chainedPath)) ? { chained: chainedPath } : {}),
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Remove the hooks gca installed and put back the hooks they chained to
+   */
+  async uninstall(repoPath: string): Promise<HookChange[]> {
+    const hooksDir = await this.gitInterface.getHooksDirectory(repoPath);
+    const changes: HookChange[] = [];
+
+    for (const hook of HOOK_NAMES) {
+      const hookPath = path.join(hooksDir, hook);
+      const chainedPath = `${hookPath}${HookService.CHAINED_SUFFIX}`;
+      if (!(await fileExists(hookPath))) {
+        continue;
+      }
+
+      if (!(await this.isInstalledByGca(hookPath))) {
+        changes.push({
+          hook,
+          path: hookPath,
+          action: 'skipped',
+          reason: 'not installed by gca',
+        });
+        continue;
+      }
+
+      await fs.rm(hookPath);
+      if (await fileExists(chainedPath)) {
+        await fs.rename(chainedPath, hookPath);
+        changes.push({ hook, path: hookPath, action: 'restored', chained: chainedPath });
+      } else {
+        changes.push({ hook, path: hookPath, action: 'removed' });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Check whether a hook file was written by gca
+   */
+  async isInstalledByGca(hookPath: string): Promise<boolean> {
+    try {
+      return (await readTextFile(hookPath)).includes(HookService.MARKER);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Shell script for one hook
+   */
+  renderHook(hook: HookName, options: HookInstallOptions = {}): string {
+    const lines = [
+      '#!/bin/sh',
+      HookService.MARKER,
+      '',
+      '# Run the hook this one replaced first',
+      `chained="$0${HookService.CHAINED_SUFFIX}"`,
+      'if [ -x "$chained" ]; then',
+      '  "$chained" "$@" || exit $?',
+      'fi',
+      '',
+    ];
+
+    if (hook === 'commit-msg') {
+      const check = [...this.command, 'hook', 'check'].map((part) => this.quote(part));
+      lines.push(`exec ${check.join(' ')} "$1"${options.suggest === true ? ' --suggest' : ''}`);
+    } else {
+      const suggest = [...this.command, 'suggest'].map((part) => this.quote(part));
+      lines.push(
+        '# Describe the format in the template of a new message, not for -m, -F, merges or amends',
+        'if [ -z "$2" ]; then',
+        // A failed suggestion must not stop the commit
+        ...(options.suggestMessage === true ? [`  ${suggest.join(' ')} --write "$1" || true`] : []),
+        '  cat >> "$1" <<\'EOF\'',
+        '# Conventional commit: type(scope): description',
+        `# Types: ${CONVENTIONAL_PREFIXES.join(', ')}`,
+        'EOF',
+        'fi'
+      );
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Standalone HTML report with inline SVG charts; needs no network access to view
+ */
+
+import {
+  type PrefixPeriod,
+  type ReportInput,
+  type Reporter,
+  NON_CONVENTIONAL_KEY,
+  getTimelinePrefixes,
+} from '../types/report';
+
+export class HtmlReporter implements Reporter {
+  readonly format = 'html';
+
+  private static readonly PALETTE = [
+    '#4e79a7',
+    '#59a14f',
+    '#f28e2b',
+    '#b07aa1',
+    '#76b7b2',
+    '#edc948',
+    '#9c755f',
+    '#ff9da7',
+    '#bab0ac',
+    '#86bcb6',
+  ] as const;
+  private static readonly NON_CONVENTIONAL_COLOR = '#e15759';
+  private static readonly CHART = { width: 760, height: 300, left: 40, bottom: 48, top: 12 };
+  private static readonly MAX_AXIS_LABELS = 12;
+
+  private static readonly STYLE = `
+    body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #222; padding: 0 1rem; }
+    h1 { font-size: 1.5rem; } h2 { font-size: 1.2rem; margin-top: 2rem; }
+    .meta { color: #666; }
+    .cards { display: flex; gap: 1rem; flex-wrap: wrap; }
+    .card { border: 1px solid #ddd; border-radius: 6px; padding: 0.75rem 1rem; min-width: 8rem; }
+    .card strong { display: block; font-size: 1.4rem; }
+    table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+    th, td { text-align: left; padding: 0.3rem 0.5rem; border-bottom: 1px solid #eee; vertical-align: top; }
+    code { font-size: 0.85rem; }
+    .legend { list-style: none; padding: 0; display: flex; gap: 1rem; flex-wrap: wrap; }
+    .swatch { display: inline-block; width: 0.8rem; height: 0.8rem; margin-right: 0.3rem; vertical-align: middle; }
+    .bar { height: 0.8rem; display: inline-block; vertical-align: middle; }
+    .no { color: ${HtmlReporter.NON_CONVENTIONAL_COLOR}; }`;
+
+  render(input: ReportInput): string {
+    const { summary } = input;
+    const title = `Commit message report: ${summary.repository.path}`;
+    const prefixes = getTimelinePrefixes(input.timeline);
+    const colors = this.assignColors(prefixes);
+
+    const body = [
+      `<h1>${this.escape(title)}</h1>`,
+      `<p class="meta">Branch <code>${this.escape(summary.repository.branch)}</code> · ${summary.totals.analyzed} of ${summary.repository.totalCommits} commits analyzed (${summary.classification} classification) · generated ${this.escape(summary.generatedAt)}</p>`,
+      this.renderCards(input),
+      this.renderTimeline(input.timeline, prefixes, colors),
+      this.renderDistribution(input.timeline, prefixes, colors),
+      this.renderCounts('Suggested prefixes', summary.suggestedPrefixes, 'commits'),
+      this.renderCounts('File types in recent commits', summary.fileTypes, 'files'),
+      `<h2>Recommendations</h2>\n<ul>${input.recommendations.map((item) => `<li>${this.escape(item)}</li>`).join('')}</ul>`,
+      this.renderCommits(input),
+    ];
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${this.escape(title)}</title>`,
+      `<style>${HtmlReporter.STYLE}\n</style>`,
+      '</head>',
+      '<body>',
+      ...body.filter((section) => section.length > 0),
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n');
+  }
+
+  private renderCards({ summary }: ReportInput): string {
+    const cards: [string, string][] = [
+      ['Commits analyzed', String(summary.totals.analyzed)],
+      ['Conventional', `${summary.totals.conventionalPercentage}%`],
+      ['Non-conventional', String(summary.totals.nonConventional)],
+    ];
+    if (summary.rules !== null) {
+      cards.push(['Rewritten by rules', String(summary.rules.rewritten)]);
+    }
+
+    return `<div class="cards">${cards
+      .map(([label, value]) => `<div class="card"><strong>${value}</strong>${label}</div>`)
+      .join('')}</div>`;
+  }
+
+  /**
+   * Stacked bar chart of commits per prefix in each period
+   */
+  private renderTimeline(
+    timeline: PrefixPeriod[],
+    prefixes: string[],
+    colors: Map<string, string>
+  ): string {
+    if (timeline.length === 0) {
+      return '';
+    }
+
+    const { width, height, left, bottom, top } = HtmlReporter.CHART;
+    const plotHeight = height - bottom - top;
+    const slot = (width - left) / timeline.length;
+    const barWidth = Math.max(2, slot * 0.7);
+    const maxTotal = Math.max(
+      ...timeline.map(({ counts }) => Object.values(counts).reduce((sum, count) => sum + count, 0))
+    );
+    const labelEvery = Math.ceil(timeline.length / HtmlReporter.MAX_AXIS_LABELS);
+    const scale = (count: number): number => (count / maxTotal) * plotHeight;
+
+    const bars = timeline.map(({ period, counts }, index) => {
+      const x = left + index * slot + (slot - barWidth) / 2;
+      let y = top + plotHeight;
+      const segments = prefixes
+        .filter((prefix) => (counts[prefix] ?? 0) > 0)
+        .map((prefix) => {
+          const count = counts[prefix] ?? 0;
+          y -= scale(count);
+          return `<rect x="${x.toFixed(1)}" y="${y.toFixed(1)}" width="${barWidth.toFixed(1)}" height="${scale(count).toFixed(1)}" fill="${colors.get(prefix) ?? '#999'}"><title>${this.escape(`${period} · ${prefix}: ${count}`)}</title></rect>`;
+        });
+      const label =
+        index % labelEvery === 0
+          ? `<text x="${(x + barWidth / 2).toFixed(1)}" y="${height - bottom + 18}" text-anchor="middle" font-size="11">${this.escape(period)}</text>`
+          : '';
+      return [...segments, label].join('');
+    });
+
+    const axis = [
+      `<line x1="${left}" y1="${top + plotHeight}" x2="${width}" y2="${top + plotHeight}" stroke="#999"/>`,
+      `<text x="${left - 6}" y="${top + plotHeight}" text-anchor="end" font-size="11">0</text>`,
+      `<text x="${left - 6}" y="${top + 10}" text-anchor="end" font-size="11">${maxTotal}</text>`,
+    ];
+
+    return [
+      '<h2>Prefixes over time</h2>',
+      `<svg role="img" aria-label="Commits per prefix over time" viewBox="0 0 ${width} ${height}" width="100%">${[...axis, ...bars].join('')}</svg>`,
+      this.renderLegend(prefixes, colors),
+    ].join('\n');
+  }
+
+  /**
+   * Horizontal bars of commits per prefix across the whole history
+   */
+  private renderDistribution(
+    timeline: PrefixPeriod[],
+    prefixes: string[],
+    colors: Map<string, string>
+  ): string {
+    if (prefixes.length === 0) {
+      return '';
+    }
+
+    const totals = prefixes.map((prefix) => ({
+      prefix,
+      count: timeline.reduce((sum, { counts }) => sum + (counts[prefix] ?? 0), 0),
+    }));
+    const max = Math.max(...totals.map(({ count }) => count));
+
+    const rows = totals.map(
+      ({ prefix, count }) =>
+        `<tr><td><code>${this.escape(prefix)}</code></td><td>${count}</td><td><span class="bar" style="width: ${Math.round((count / max) * 300)}px; background: ${colors.get(prefix) ?? '#999'}"></span></td></tr>`
+    );
+    return `<h2>Prefix distribution</h2>\n<table><tr><th>Prefix</th><th>Commits</th><th></th></tr>${rows.join('')}</table>`;
+  }
+
+  private renderLegend(prefixes: string[], colors: Map<string, string>): string {
+    return `<ul class="legend">${prefixes
+      .map(
+        (prefix) =>
+          `<li><span class="swatch" style="background: ${colors.get(prefix) ?? '#999'}"></span>${this.escape(prefix)}</li>`
+      )
+      .join('')}</ul>`;
+  }
+
+  private renderCounts(title: string, counts: Record<string, number>, unit: string): string {
+    const entries = Object.entries(counts);
+    if (entries.length === 0) {
+      return '';
+    }
+    return `<h2>${title}</h2>\n<ul>${entries
+      .map(([name, count]) => `<li><code>${this.escape(name)}</code>: ${count} ${unit}</li>`)
+      .join('')}</ul>`;
+  }
+
+  private renderCommits({ commits }: ReportInput): string {
+    if (commits.length === 0) {
+      return '';
+    }
+
+    const rows = commits.map((commit) => {
+      const prefix =
+        commit.prefix !== undefined
+          ? `<code>${this.escape(commit.prefix)}</code>`
+          : `<span class="no">none</span>${commit.suggestedPrefix !== undefined ? ` → <code>${this.escape(commit.suggestedPrefix)}</code>` : ''}`;
+      return `<tr><td><code>${this.escape(commit.hash)}</code></td><td>${this.escape(commit.date?.slice(0, 10) ?? '')}</td><td>${prefix}</td><td>${this.escape(commit.subject)}</td><td>${this.escape(commit.proposedMessage ?? '')}</td></tr>`;
+    });
+    return `<h2>Commits</h2>\n<table><tr><th>Commit</th><th>Date</th><th>Prefix</th><th>Subject</th><th>Proposed message</th></tr>\n${rows.join('\n')}\n</table>`;
+  }
+
+  private assignColors(prefixes: string[]): Map<string, string> {
+    const colors = new Map<string, string>();
+    prefixes
+      .filter((prefix) => prefix !== NON_CONVENTIONAL_KEY)
+      .forEach((prefix, index) => {
+        colors.set(prefix, HtmlReporter.PALETTE[index % HtmlReporter.PALETTE.length] ?? '#999');
+      });
+    colors.set(NON_CONVENTIONAL_KEY, HtmlReporter.NON_CONVENTIONAL_COLOR);
+    return colors;
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Incremental re-analysis for repositories that moved on since a cache was written
+ */
+
+import type { GcaCache, IncrementalUpdate } from '../types/cache';
+import type { ClassifiedCommit, EnrichedCommit, RawCommit } from '../types/commits';
+import { isDefined, isValidConventionalCommit } from '../utils/validation';
+import type { GitService } from './GitService';
+
+export class IncrementalAnalyzer {
+  constructor(private readonly gitService: GitService) {}
+
+  /**
+   * Fetch and enrich only the commits the cache has not seen, keep the classifications of
+   * commits still in the history, and carry classifications over to rewritten commits whose
+   * patch-id is unchanged
+   */
+  async update(
+    cache: GcaCache,
+    repoPath: string,
+    options: { maxCommits?: number | null; concurrency?: number } = {}
+  ): Promise<IncrementalUpdate> {
+    const { maxCommits = null, concurrency = 4 } = options;
+    const previousHead = cache.repoHash;
+    const currentHead = await this.gitService.getCurrentHead(repoPath);
+    const fastForward = await this.gitService
+      .isAncestor(repoPath, previousHead, currentHead)
+      .catch(() => false);
+
+    const cachedRaw = cache.data.rawCommits ?? [];
+    const cachedEnriched = new Map(
+      (cache.data.enrichedCommits ?? []).map((commit) => [commit.hash, commit])
+    );
+    const cachedClassified = new Map(
+      (cache.data.classifiedCommits ?? []).map((commit) => [commit.hash, commit])
+    );
+
+    // Fast-forward: only the commits on top of the cached HEAD are new
+    let rawCommits: RawCommit[];
+    if (fastForward) {
+      const added = await this.gitService.getRawCommits(
+        repoPath,
+        maxCommits,
+        `${previousHead}..${currentHead}`
+      );
+      rawCommits = [...added, ...cachedRaw];
+      if (maxCommits !== null) {
+        rawCommits = rawCommits.slice(0, maxCommits);
+      }
+    } else {
+      rawCommits = await this.gitService.getRawCommits(repoPath, maxCommits);
+    }
+
+    const newRaw = rawCommits.filter((commit) => !cachedEnriched.has(commit.hash));
+    const newlyEnriched = await this.gitService.enrichCommits(repoPath, newRaw, {
+      concurrency,
+      enhanceDiffs: true,
+    });
+    const enrichedByHash = new Map([
+      ...cachedEnriched,
+      ...newlyEnriched.map((commit): [string, EnrichedCommit] => [commit.hash, commit]),
+    ]);
+    const enrichedCommits = rawCommits
+      .map((commit) => enrichedByHash.get(commit.hash))
+      .filter(isDefined);
+
+    const removedHashes = fastForward
+      ? []
+      : await this.findRemovedCommits(repoPath, cachedRaw, rawCommits, currentHead);
+    const reused = await this.matchByPatchId(repoPath, removedHashes, newRaw, cachedClassified);
+
+    const classifiedCommits = enrichedCommits.flatMap((commit): ClassifiedCommit[] => {
+      const kept = cachedClassified.get(commit.hash);
+      if (kept !== undefined) return [kept];
+      const source = reused.get(commit.hash);
+      return source !== undefined ? [this.reuseClassification(commit, source)] : [];
+    });
+
+    return {
+      mode: fastForward ? 'fast-forward' : 'rewritten',
+      previousHead,
+      currentHead,
+      rawCommits,
+      enrichedCommits,
+      classifiedCommits,
+      newHashes: newRaw.map((commit) => commit.hash),
+      removedHashes,
+      reusedByPatchId: [...reused].map(([to, source]) => ({ from: source.hash, to })),
+    };
+  }
+
+  /**
+   * Cached commits that are neither in the current window nor reachable from HEAD
+   */
+  private async findRemovedCommits(
+    repoPath: string,
+    cachedRaw: RawCommit[],
+    rawCommits: RawCommit[],
+    currentHead: string
+  ): Promise<string[]> {
+    const currentHashes = new Set(rawCommits.map((commit) => commit.hash));
+    const outsideWindow = cachedRaw
+      .map((commit) => commit.hash)
+      .filter((hash) => !currentHashes.has(hash));
+
+    return this.gitService.getUnreachableCommits(repoPath, outsideWindow, currentHead);
+  }
+
+  /**
+   * Pair new commits with removed, classified commits that carry the same patch
+   */
+  private async matchByPatchId(
+    repoPath: string,
+    removedHashes: string[],
+    newRaw: RawCommit[],
+    cachedClassified: Map<string, ClassifiedCommit>
+  ): Promise<Map<string, ClassifiedCommit>> {
+    const matches = new Map<string, ClassifiedCommit>();
+    const candidates = removedHashes.filter((hash) => cachedClassified.has(hash));
+    if (candidates.length === 0 || newRaw.length === 0) {
+      return matches;
+    }
+
+    const patchIds = await this.gitService.getPatchIds(repoPath, [
+      ...candidates,
+      ...newRaw.map((commit) => commit.hash),
+    ]);
+
+    const removedByPatchId = new Map<string, ClassifiedCommit>();
+    for (const hash of candidates) {
+      const patchId = patchIds.get(hash);
+      const classified = cachedClassified.get(hash);
+      if (patchId !== undefined && classified !== undefined) {
+        removedByPatchId.set(patchId, classified);
+      }
+    }
+
+    for (const commit of newRaw) {
+      const patchId = patchIds.get(commit.hash);
+      const source = patchId !== undefined ? removedByPatchId.get(patchId) : undefined;
+      if (source !== undefined) {
+        matches.set(commit.hash, source);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Apply an earlier classification to a rewritten commit. The change itself is the same,
+   * so the suggested prefix still holds; whether the message conforms is re-read from the
+   * new message when it differs.
+   */
+  private reuseClassification(commit: EnrichedCommit, source: ClassifiedCommit): ClassifiedCommit {
+    const conformingPrefix =
+      commit.message === source.message
+        ? source.conformingPrefix
+        : isValidConventionalCommit(commit.message)
+          ? /^(\w+)/.exec(commit.message)?.[1]
+          : undefined;
+
+    return {
+      ...commit,
+      ...(conformingPrefix !== undefined ? { conformingPrefix } : {}),
+      ...(source.suggestedPrefix !== undefined ? { suggestedPrefix: source.suggestedPrefix } : {}),
+      ...(source.reason !== undefined ? { reason: source.reason } : {}),
+    };
+  }
+}
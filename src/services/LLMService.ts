@@ -0,0 +1,331 @@
+/**
+ * LLM service for classifying commits through the OpenRouter chat-completions API
+ */
+
+import type { Config } from '../types/config';
+import {
+  type EnrichedCommit,
+  type ClassifiedCommit,
+  enrichedToClassified,
+  validateCommitHash,
+} from '../types/commits';
+import {
+  type ChatMessage,
+  type ChatCompletionRequest,
+  type CommitClassification,
+  LLMError,
+  RateLimitError,
+  isChatCompletionResponse,
+  isCommitClassification,
+  isContextOverflowError,
+} from '../types/llm';
+import { CONVENTIONAL_PREFIXES, isConventionalPrefix } from '../types/rules';
+import { retryWithBackoff, withTimeout } from '../utils/async';
+import { writeProgress } from '../utils/cli';
+import { BatchScheduler } from './BatchScheduler';
+import { RateLimiter } from './RateLimiter';
+
+export class LLMService {
+  private static readonly REQUEST_TIMEOUT_MS = 120000;
+  private static readonly MAX_DIFF_CHARS = 2000;
+
+  /** Bump when the classification prompt or parsing changes so stored results are not reused */
+  static readonly CLASSIFICATION_PROMPT_VERSION = 1;
+
+  constructor(
+    private readonly config: Config,
+    private readonly rateLimiter?: RateLimiter
+  ) {}
+
+  /**
+   * Check whether the service has credentials to call the API
+   */
+  isConfigured(): boolean {
+    return this.config.apiKey.length > 0;
+  }
+
+  /**
+   * Classify commits in adaptively sized batches
+   */
+  async classifyCommits(
+    commits: EnrichedCommit[],
+    options: {
+      scheduler?: BatchScheduler;
+      onBatchComplete?: (batch: ClassifiedCommit[], scheduler: BatchScheduler) => Promise<void>;
+    } = {}
+  ): Promise<ClassifiedCommit[]> {
+    const { scheduler = BatchScheduler.fromConfig(this.config), onBatchComplete } = options;
+    const classifiedCommits: ClassifiedCommit[] = [];
+
+    console.log(
+      `🤖 Classifying ${commits.length} commits with ${this.config.classificationModel} (batch size ${scheduler.getBatchSize()})...`
+    );
+
+    let index = 0;
+    while (index < commits.length) {
+      const batch = scheduler.nextBatch(commits, index, (commit) =>
+        this.formatCommitForPrompt(commit)
+      );
+
+      let classified: ClassifiedCommit[];
+      try {
+        classified = await this.classifyBatch(batch);
+      } catch (error) {
+        if (this.isQuotaError(error)) {
+          throw error;
+        }
+
+        const contextOverflow = isContextOverflowError(error);
+        const canShrink = batch.length > 1 && !scheduler.isAtMinimum();
+        scheduler.recordFailure(contextOverflow);
+
+        if (!canShrink) {
+          throw error;
+        }
+
+        console.warn(
+          `\n⚠️  Batch of ${batch.length} failed${contextOverflow ? ' (context limit exceeded)' : ''}, retrying with batch size ${scheduler.getBatchSize()}`
+        );
+        continue;
+      }
+
+      scheduler.recordSuccess();
+      classifiedCommits.push(...classified);
+      index += batch.length;
+
+      if (onBatchComplete !== undefined) {
+        await onBatchComplete(classified, scheduler);
+      }
+
+      writeProgress(`Classified: ${classifiedCommits.length}/${commits.length}`);
+    }
+
+    console.log('\n✅ Classification complete');
+    return classifiedCommits;
+  }
+
+  /**
+   * Classify a single batch of commits, retrying transient failures
+   */
+  async classifyBatch(commits: EnrichedCommit[]): Promise<ClassifiedCommit[]> {
+    if (commits.length === 0) {
+      return [];
+    }
+
+    return retryWithBackoff(
+      async () => {
+        const content = await this.createChatCompletion({
+          model: this.config.classificationModel,
+          messages: this.buildClassificationMessages(commits),
+          temperature: 0,
+          response_format: { type: 'json_object' },
+        });
+        return this.parseClassificationResponse(content, commits);
+      },
+      this.config.maxRetries,
+      this.config.baseDelay,
+      2,
+      10000,
+      (error) => !isContextOverflowError(error) && !(error instanceof RateLimitError)
+    );
+  }
+
+  /**
+   * Send a chat-completion request and return the assistant message content
+   */
+  async createChatCompletion(request: ChatCompletionRequest): Promise<string> {
+    if (!this.isConfigured()) {
+      throw new LLMError('OPENROUTER_API_KEY is not set');
+    }
+
+    if (this.rateLimiter !== undefined) {
+      await this.rateLimiter.acquire();
+    }
+
+    const response = await withTimeout(
+      fetch(this.config.baseUrl, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.config.apiKey}`,
+          'Content-Type': 'application/json',
+          'HTTP-Referer': this.config.httpReferer,
+          'X-Title': this.config.xTitle,
+        },
+        body: JSON.stringify(request),
+      }),
+      LLMService.REQUEST_TIMEOUT_MS,
+      `LLM request timed out after ${LLMService.REQUEST_TIMEOUT_MS}ms`
+    );
+
+    const body = await response.text();
+    if (!response.ok) {
+      const retryAfterMs = RateLimiter.parseRetryAfter(response.headers.get('retry-after'));
+      if (response.status === 429 && this.rateLimiter !== undefined) {
+        this.rateLimiter.recordRetryAfter(retryAfterMs ?? this.config.baseDelay);
+      }
+
+      throw new LLMError(
+        `LLM request failed with status ${response.status}`,
+        response.status,
+        body,
+        retryAfterMs
+      );
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      throw new LLMError('LLM response is not valid JSON', response.status, body);
+    }
+
+    if (!isChatCompletionResponse(parsed)) {
+      throw new LLMError('LLM response has no choices', response.status, body);
+    }
+
+    const choice = parsed.choices[0];
+    if (choice?.finish_reason === 'length') {
+      throw new LLMError('LLM response was truncated at the context limit', response.status, body);
+    }
+
+    const content = choice?.message.content;
+    if (content === undefined || content === null || content.trim() === '') {
+      throw new LLMError('LLM response is empty', response.status, body);
+    }
+
+    return content;
+  }
+
+  /**
+   * Build the system and user prompts for a classification batch
+   */
+  buildClassificationMessages(commits: EnrichedCommit[]): ChatMessage[] {
+    const system = [
+      'You classify git commits according to the Conventional Commits specification.',
+      `Valid prefixes: ${CONVENTIONAL_PREFIXES.join(', ')}.`,
+      'For every commit, decide whether its message already starts with a valid prefix',
+      '(for example "feat: ..." or "fix(parser): ...") and which prefix best describes the change.',
+      'Respond with a single JSON object of the form:',
+      '{"classifications":[{"hash":"<hash>","conformingPrefix":"<prefix or null>",' +
+        '"suggestedPrefix":"<prefix>","reason":"<one sentence>"}]}',
+      'Set conformingPrefix only when the existing message already uses that prefix correctly.',
+      'Return exactly one entry per commit, using the hashes given.',
+    ].join('\n');
+
+    const user = commits.map((commit) => this.formatCommitForPrompt(commit)).join('\n\n');
+
+    return [
+      { role: 'system', content: system },
+      { role: 'user', content: user },
+    ];
+  }
+
+  /**
+   * Render a single commit as it appears in the classification prompt
+   */
+  formatCommitForPrompt(commit: EnrichedCommit): string {
+    const diff =
+      commit.diff.length > LLMService.MAX_DIFF_CHARS
+        ? `${commit.diff.substring(0, LLMService.MAX_DIFF_CHARS)}\n... (diff shortened)`
+        : commit.diff;
+    return `### Commit ${commit.hash}\nMessage: ${commit.message}\n\n${diff}`;
+  }
+
+  /**
+   * Parse a structured classification response into classified commits
+   */
+  parseClassificationResponse(content: string, commits: EnrichedCommit[]): ClassifiedCommit[] {
+    const payload = this.extractJsonPayload(content);
+    const entries: unknown = Array.isArray(payload)
+      ? payload
+      : typeof payload === 'object' && payload !== null && 'classifications' in payload
+        ? payload.classifications
+        : undefined;
+
+    if (!Array.isArray(entries)) {
+      throw new LLMError('LLM response does not contain a classifications array');
+    }
+
+    const classifications = (entries as unknown[])
+      .filter(isCommitClassification)
+      .filter((entry) => validateCommitHash(entry.hash));
+    const missing: string[] = [];
+
+    const classified = commits.map((commit) => {
+      const match = classifications.find(
+        (entry) => entry.hash.startsWith(commit.hash) || commit.hash.startsWith(entry.hash)
+      );
+      if (match === undefined) {
+        missing.push(commit.hash);
+        return null;
+      }
+      return enrichedToClassified(commit, this.normalizeClassification(match));
+    });
+
+    if (missing.length > 0) {
+      throw new LLMError(
+        `LLM response is missing classifications for ${missing.length} commit(s): ${missing.join(', ')}`
+      );
+    }
+
+    return classified.filter((commit): commit is ClassifiedCommit => commit !== null);
+  }
+
+  /**
+   * Extract the JSON document from model output that may contain reasoning or code fences
+   */
+  extractJsonPayload(content: string): unknown {
+    const withoutReasoning = content.replace(/<think>[\s\S]*?<\/think>/g, '');
+    const fenced = withoutReasoning.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = (fenced?.[1] ?? withoutReasoning).trim();
+
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start === -1 || end < start) {
+      throw new LLMError('LLM response does not contain JSON', undefined, content);
+    }
+
+    try {
+      return JSON.parse(candidate.substring(start, end + 1));
+    } catch {
+      throw new LLMError('LLM response contains malformed JSON', undefined, content);
+    }
+  }
+
+  /**
+   * Quota and rate-limit failures are not caused by batch size, so shrinking cannot help
+   */
+  private isQuotaError(error: unknown): boolean {
+    return (
+      error instanceof RateLimitError || (error instanceof LLMError && error.statusCode === 429)
+    );
+  }
+
+  /**
+   * Drop unknown prefixes and null fields from a raw classification
+   */
+  private normalizeClassification(entry: CommitClassification): {
+    conformingPrefix?: string;
+    suggestedPrefix?: string;
+    reason?: string;
+  } {
+    const classification: { conformingPrefix?: string; suggestedPrefix?: string; reason?: string } =
+      {};
+
+    const conformingPrefix = entry.conformingPrefix?.trim().toLowerCase();
+    if (conformingPrefix !== undefined && isConventionalPrefix(conformingPrefix)) {
+      classification.conformingPrefix = conformingPrefix;
+    }
+
+    const suggestedPrefix = entry.suggestedPrefix?.trim().toLowerCase();
+    if (suggestedPrefix !== undefined && isConventionalPrefix(suggestedPrefix)) {
+      classification.suggestedPrefix = suggestedPrefix;
+    }
+
+    if (typeof entry.reason === 'string' && entry.reason.trim() !== '') {
+      classification.reason = entry.reason.trim();
+    }
+
+    return classification;
+  }
+}
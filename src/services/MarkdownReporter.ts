@@ -0,0 +1,103 @@
+/**
+ * Markdown report, sized for pull request comments
+ */
+
+import { type ReportInput, type Reporter, getTimelinePrefixes } from '../types/report';
+
+export class MarkdownReporter implements Reporter {
+  readonly format = 'markdown';
+
+  render(input: ReportInput): string {
+    const { summary } = input;
+    const sections = [
+      `# Commit message report: ${summary.repository.path}`,
+      `Branch \`${summary.repository.branch}\` · ${summary.totals.analyzed} of ${summary.repository.totalCommits} commits analyzed (${summary.classification} classification) · generated ${summary.generatedAt}`,
+      this.renderSummary(input),
+      this.renderTimeline(input),
+      this.renderSamples(input),
+      this.renderCounts('Suggested prefixes', summary.suggestedPrefixes, 'commits'),
+      this.renderCounts('File types in recent commits', summary.fileTypes, 'files'),
+      ['## Recommendations', input.recommendations.map((item) => `- ${item}`).join('\n')].join(
+        '\n\n'
+      ),
+    ];
+
+    return `${sections.filter((section) => section.length > 0).join('\n\n')}\n`;
+  }
+
+  private renderSummary({ summary }: ReportInput): string {
+    const { totals, rules, rewrite } = summary;
+    const rows: [string, string][] = [
+      ['Commits analyzed', String(totals.analyzed)],
+      ['Conventional', `${totals.conventional} (${totals.conventionalPercentage}%)`],
+      ['Non-conventional', String(totals.nonConventional)],
+    ];
+    if (rules !== null) {
+      rows.push(
+        ['Transform rules', String(rules.generated)],
+        ['Messages rewritten by rules', String(rules.rewritten)],
+        ['Still non-conventional', String(rules.stillNonConventional)],
+        ['Rule conflicts', String(rules.conflicts)]
+      );
+    }
+    if (rewrite !== null) {
+      rows.push([
+        'History',
+        rewrite.applied ? 'Rewritten' : rewrite.mode === 'dry-run' ? 'Dry run' : 'Not rewritten',
+      ]);
+    }
+
+    return ['## Summary', this.table(['Metric', 'Value'], rows)].join('\n\n');
+  }
+
+  private renderTimeline({ timeline }: ReportInput): string {
+    if (timeline.length === 0) {
+      return '';
+    }
+
+    const prefixes = getTimelinePrefixes(timeline);
+    const rows = timeline.map(({ period, counts }) => [
+      period,
+      ...prefixes.map((prefix) => String(counts[prefix] ?? 0)),
+    ]);
+    return ['## Prefixes over time', this.table(['Period', ...prefixes], rows)].join('\n\n');
+  }
+
+  private renderSamples({ summary }: ReportInput): string {
+    if (summary.nonConformingSamples.length === 0) {
+      return '';
+    }
+
+    const rows = summary.nonConformingSamples.map((sample) => [
+      `\`${sample.hash}\``,
+      sample.subject,
+      sample.suggestedPrefix !== undefined ? `\`${sample.suggestedPrefix}\`` : '',
+    ]);
+    return [
+      '## Non-conventional commits',
+      `${summary.nonConformingSamples.length} of ${summary.totals.nonConventional} shown.`,
+      this.table(['Commit', 'Subject', 'Suggested prefix'], rows),
+    ].join('\n\n');
+  }
+
+  private renderCounts(title: string, counts: Record<string, number>, unit: string): string {
+    const entries = Object.entries(counts);
+    if (entries.length === 0) {
+      return '';
+    }
+    return [
+      `## ${title}`,
+      entries.map(([name, count]) => `- \`${name}\`: ${count} ${unit}`).join('\n'),
+    ].join('\n\n');
+  }
+
+  private table(headers: string[], rows: string[][]): string {
+    const line = (cells: string[]): string =>
+      `| ${cells.map((cell) => this.escapeCell(cell)).join(' | ')} |`;
+    return [line(headers), line(headers.map(() => '---')), ...rows.map(line)].join('\n');
+  }
+
+  private escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  }
+}
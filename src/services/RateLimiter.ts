@@ -0,0 +1,230 @@
+/**
+ * Client-side rate limiter and credit tracker for the OpenRouter API
+ */
+
+import { type ApiKeyInfo, type Config, type RateLimitInfo, RATE_LIMITS } from '../types/config';
+import type { GcaCache } from '../types/cache';
+import { RateLimitError, isKeyInfoResponse } from '../types/llm';
+import { sleep, withTimeout } from '../utils/async';
+
+export type RateLimitState = NonNullable<GcaCache['rateLimitState']>;
+
+export class RateLimiter {
+  private static readonly MINUTE_MS = 60 * 1000;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  private static readonly KEY_INFO_TIMEOUT_MS = 15000;
+  private static readonly CREDIT_REFRESH_INTERVAL = 10;
+
+  private readonly info: RateLimitInfo;
+  private keyInfo: ApiKeyInfo | null = null;
+  private blockedUntil = 0;
+  private requestsSinceRefresh = 0;
+
+  constructor(
+    private readonly config: Config,
+    state?: RateLimitState
+  ) {
+    const now = Date.now();
+    this.info = {
+      requestsThisMinute: state?.requestsThisMinute ?? 0,
+      minuteStartTime: state?.minuteStartTime ?? now,
+      dailyRequests: state?.dailyRequests ?? 0,
+      dayStartTime: state?.dayStartTime ?? RateLimiter.startOfUtcDay(now),
+      creditsRemaining: null,
+      isFreeTier: false,
+    };
+    this.resetExpiredWindows(now);
+  }
+
+  /**
+   * Query the key-info endpoint to learn the account tier and remaining credits
+   */
+  async initialize(): Promise<ApiKeyInfo | null> {
+    this.keyInfo = await this.fetchKeyInfo();
+
+    if (this.keyInfo !== null) {
+      this.info.isFreeTier = this.keyInfo.is_free_tier;
+      this.info.creditsRemaining = this.keyInfo.credits_remaining ?? null;
+    }
+
+    return this.keyInfo;
+  }
+
+  /**
+   * Wait until a request is allowed, then count it.
+   * Throws RateLimitError when the run must stop instead of waiting.
+   */
+  async acquire(): Promise<void> {
+    await this.refreshCreditsIfDue();
+
+    const credits = this.info.creditsRemaining;
+    if (credits !== null && credits <= RATE_LIMITS.MIN_CREDITS_REMAINING) {
+      throw new RateLimitError(
+        `OpenRouter credits exhausted (${credits.toFixed(4)} remaining)`,
+        'credits_exhausted'
+      );
+    }
+
+    const limits = this.getLimits();
+    let now = Date.now();
+    this.resetExpiredWindows(now);
+
+    if (limits.requestsPerDay !== null && this.info.dailyRequests >= limits.requestsPerDay) {
+      const resetAt = this.info.dayStartTime + RateLimiter.DAY_MS;
+      throw new RateLimitError(
+        `Daily request limit of ${limits.requestsPerDay} reached; resets at ${new Date(resetAt).toISOString()}`,
+        'daily_limit',
+        resetAt
+      );
+    }
+
+    let waitUntil = this.blockedUntil;
+    if (this.info.requestsThisMinute >= limits.requestsPerMinute) {
+      waitUntil = Math.max(waitUntil, this.info.minuteStartTime + RateLimiter.MINUTE_MS);
+    }
+
+    if (waitUntil > now) {
+      const waitMs = waitUntil - now;
+      console.log(`\n⏳ Rate limit reached, waiting ${Math.ceil(waitMs / 1000)}s...`);
+      await sleep(waitMs);
+      now = Date.now();
+      this.resetExpiredWindows(now);
+    }
+
+    this.info.requestsThisMinute++;
+    this.info.dailyRequests++;
+    this.requestsSinceRefresh++;
+  }
+
+  /**
+   * Honour a server-side 429 by blocking requests until the retry time has passed
+   */
+  recordRetryAfter(retryAfterMs: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + retryAfterMs);
+  }
+
+  /**
+   * Current counters and account information
+   */
+  getInfo(): RateLimitInfo {
+    return { ...this.info };
+  }
+
+  /**
+   * Last key information returned by the API, if any
+   */
+  getKeyInfo(): ApiKeyInfo | null {
+    return this.keyInfo;
+  }
+
+  /**
+   * Snapshot of the counters for cache persistence
+   */
+  getState(): RateLimitState {
+    return {
+      requestsThisMinute: this.info.requestsThisMinute,
+      minuteStartTime: this.info.minuteStartTime,
+      dailyRequests: this.info.dailyRequests,
+      dayStartTime: this.info.dayStartTime,
+    };
+  }
+
+  /**
+   * Parse a Retry-After header value (seconds or HTTP date) into milliseconds
+   */
+  static parseRetryAfter(value: string | null): number | undefined {
+    if (value === null || value.trim() === '') {
+      return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private getLimits(): { requestsPerMinute: number; requestsPerDay: number | null } {
+    return this.info.isFreeTier ? RATE_LIMITS.FREE_TIER : RATE_LIMITS.PAID;
+  }
+
+  private resetExpiredWindows(now: number): void {
+    if (now - this.info.minuteStartTime >= RateLimiter.MINUTE_MS) {
+      this.info.requestsThisMinute = 0;
+      this.info.minuteStartTime = now;
+    }
+
+    const dayStart = RateLimiter.startOfUtcDay(now);
+    if (dayStart > this.info.dayStartTime) {
+      this.info.dailyRequests = 0;
+      this.info.dayStartTime = dayStart;
+    }
+  }
+
+  private async refreshCreditsIfDue(): Promise<void> {
+    if (
+      this.info.creditsRemaining === null ||
+      this.requestsSinceRefresh < RateLimiter.CREDIT_REFRESH_INTERVAL
+    ) {
+      return;
+    }
+
+    this.requestsSinceRefresh = 0;
+    const keyInfo = await this.fetchKeyInfo();
+    if (keyInfo !== null) {
+      this.keyInfo = keyInfo;
+      this.info.creditsRemaining = keyInfo.credits_remaining ?? null;
+    }
+  }
+
+  private async fetchKeyInfo(): Promise<ApiKeyInfo | null> {
+    if (this.config.apiKey.length === 0) {
+      return null;
+    }
+
+    try {
+      const response = await withTimeout(
+        fetch(this.getKeyInfoUrl(), {
+          headers: { Authorization: `Bearer ${this.config.apiKey}` },
+        }),
+        RateLimiter.KEY_INFO_TIMEOUT_MS,
+        'Key info request timed out'
+      );
+
+      if (!response.ok) {
+        console.warn(`⚠️  Could not query API key info (status ${response.status})`);
+        return null;
+      }
+
+      const body: unknown = await response.json();
+      if (!isKeyInfoResponse(body)) {
+        console.warn('⚠️  Unexpected API key info response');
+        return null;
+      }
+
+      const { usage, limit, limit_remaining, is_free_tier } = body.data;
+      const creditsRemaining =
+        limit_remaining ?? (limit !== null ? Math.max(0, limit - usage) : undefined);
+
+      return {
+        limit: limit ?? Number.POSITIVE_INFINITY,
+        usage,
+        is_free_tier,
+        ...(creditsRemaining !== undefined ? { credits_remaining: creditsRemaining } : {}),
+      };
+    } catch (error) {
+      console.warn('⚠️  Could not query API key info:', error);
+      return null;
+    }
+  }
+
+  private getKeyInfoUrl(): string {
+    return this.config.baseUrl.replace(/\/chat\/completions\/?$/, '/auth/key');
+  }
+
+  private static startOfUtcDay(timestamp: number): number {
+    return timestamp - (timestamp % RateLimiter.DAY_MS);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Report service: turns analysis results into Markdown, HTML or CSV reports
+ */
+
+import path from 'path';
+import {
+  type PrefixPeriod,
+  type ReportCommit,
+  type ReportFormat,
+  type ReportInput,
+  type Reporter,
+  NON_CONVENTIONAL_KEY,
+  REPORT_FORMATS,
+} from '../types/report';
+import { writeTextFile } from '../utils/file';
+import { type AnalysisResults, AnalysisSummarizer } from './AnalysisSummarizer';
+import { CsvReporter } from './CsvReporter';
+import { HtmlReporter } from './HtmlReporter';
+import { MarkdownReporter } from './MarkdownReporter';
+
+export class ReportService {
+  static readonly DEFAULT_OUTPUT_NAME = 'gca-report';
+
+  private readonly reporters = new Map<ReportFormat, Reporter>();
+
+  constructor(
+    reporters: Reporter[] = [new MarkdownReporter(), new HtmlReporter(), new CsvReporter()],
+    private readonly summarizer: AnalysisSummarizer = new AnalysisSummarizer()
+  ) {
+    reporters.forEach((reporter) => this.register(reporter));
+  }
+
+  /**
+   * Add a reporter, replacing any registered for the same format
+   */
+  register(reporter: Reporter): void {
+    this.reporters.set(reporter.format, reporter);
+  }
+
+  /**
+   * Default output file for a format, in the current directory
+   */
+  static defaultOutputFile(format: ReportFormat): string {
+    return `${ReportService.DEFAULT_OUTPUT_NAME}.${REPORT_FORMATS[format].extension}`;
+  }
+
+  /**
+   * Collect what the reporters render from a finished analysis
+   * @param dates - Author date of each commit, keyed by abbreviated hash
+   */
+  buildInput(results: AnalysisResults, dates: Map<string, string> = new Map()): ReportInput {
+    const summary = this.summarizer.summarize(results);
+    const ruleResults = results.rules?.report.results;
+
+    const commits = results.commits.map((commit): ReportCommit => {
+      const prefix = AnalysisSummarizer.prefixOf(commit, results.classification);
+      const date = dates.get(commit.hash);
+      const ruleResult = ruleResults?.get(commit.hash);
+
+      return {
+        hash: commit.hash,
+        subject: commit.message.split('\n')[0] ?? commit.message,
+        ...(date !== undefined ? { date } : {}),
+        conventional: AnalysisSummarizer.isConventional(commit, results.classification),
+        ...(prefix !== undefined ? { prefix } : {}),
+        ...(commit.suggestedPrefix !== undefined
+          ? { suggestedPrefix: commit.suggestedPrefix }
+          : {}),
+        ...(commit.reason !== undefined ? { reason: commit.reason } : {}),
+        ...(ruleResult?.applied === true ? { proposedMessage: ruleResult.transformedMessage } : {}),
+      };
+    });
+
+    return {
+      summary,
+      commits,
+      timeline: this.buildTimeline(commits),
+      recommendations: this.summarizer.recommend(summary),
+    };
+  }
+
+  /**
+   * Render a report in one format
+   */
+  render(format: ReportFormat, input: ReportInput): string {
+    const reporter = this.reporters.get(format);
+    if (reporter === undefined) {
+      throw new Error(`No reporter registered for format: ${format}`);
+    }
+    return reporter.render(input);
+  }
+
+  /**
+   * Render a report and write it to a file
+   * @returns Absolute path of the written report
+   */
+  async writeReport(
+    format: ReportFormat,
+    input: ReportInput,
+    filePath: string = ReportService.defaultOutputFile(format)
+  ): Promise<string> {
+    const resolved = path.resolve(filePath);
+    await writeTextFile(resolved, this.render(format, input));
+    return resolved;
+  }
+
+  /**
+   * Count commits per prefix and month, or per day when the history spans a single month
+   */
+  private buildTimeline(commits: ReportCommit[]): PrefixPeriod[] {
+    const dated = commits.filter(
+      (commit): commit is ReportCommit & { date: string } => commit.date !== undefined
+    );
+    const months = new Set(dated.map((commit) => commit.date.slice(0, 7)));
+    const periodLength = months.size === 1 ? 10 : 7;
+
+    const periods = new Map<string, Record<string, number>>();
+    for (const commit of dated) {
+      const period = commit.date.slice(0, periodLength);
+      const counts = periods.get(period) ?? {};
+      const key = commit.prefix ?? NON_CONVENTIONAL_KEY;
+      counts[key] = (counts[key] ?? 0) + 1;
+      periods.set(period, counts);
+    }
+
+    return [...periods.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([period, counts]) => ({ period, counts }));
+  }
+}
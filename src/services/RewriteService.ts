@@ -0,0 +1,220 @@
+/**
+ * Rewrite service for replacing commit messages in history without user interaction
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { CommitMetadata } from '../git/GitInterface';
+import type { RewriteOptions } from '../types/cli';
+import {
+  type RewriteEntry,
+  type RewritePlan,
+  type RewriteResult,
+  RewriteError,
+} from '../types/rewrite';
+import type { GitService } from './GitService';
+
+export class RewriteService {
+  private static readonly BACKUP_BRANCH_PREFIX = 'gca-backup';
+  private static readonly MAX_REPORTED_ISSUES = 20;
+
+  constructor(private readonly gitService: GitService) {}
+
+  /**
+   * Work out the smallest range covering every commit to reword.
+   * Messages maps full or abbreviated hashes to new single-line subjects.
+   */
+  async planRewrite(repoPath: string, messages: Map<string, string>): Promise<RewritePlan> {
+    const history = await this.gitService.getCommitMetadata(repoPath, 'HEAD');
+    const entries: RewriteEntry[] = [];
+    let oldestIndex = -1;
+
+    for (const [hash, message] of messages) {
+      const newSubject = message.trim();
+      if (newSubject.length === 0 || newSubject.includes('\n')) {
+        throw new RewriteError(`New message for ${hash} must be a single non-empty line`);
+      }
+
+      const index = history.findIndex((commit) => commit.hash.startsWith(hash));
+      const commit = history[index];
+      if (commit === undefined) {
+        throw new RewriteError(`Commit ${hash} is not reachable from HEAD`);
+      }
+
+      if (commit.subject === newSubject) continue;
+
+      entries.push({ hash: commit.hash, originalSubject: commit.subject, newSubject });
+      oldestIndex = Math.max(oldestIndex, index);
+    }
+
+    const oldest = history[oldestIndex];
+    if (oldest === undefined) {
+      return { range: 'HEAD', entries: [], snapshot: [] };
+    }
+
+    // History is in topological order, so no commit to reword is an ancestor of the oldest
+    const range = ['HEAD', ...oldest.parents.map((parent) => `^${parent}`)].join(' ');
+    const snapshot = await this.gitService.getCommitMetadata(repoPath, range);
+
+    const inRange = new Set(snapshot.map((commit) => commit.hash));
+    const outside = entries.find((entry) => !inRange.has(entry.hash));
+    if (outside !== undefined) {
+      throw new RewriteError(
+        `Commit ${outside.hash.substring(0, 8)} is on a side branch outside the rewritable range ${range}`
+      );
+    }
+
+    return { range, entries, snapshot };
+  }
+
+  /**
+   * Rewrite commit subjects unattended, then verify that trees, authors and dates
+   * are unchanged. Throws RewriteError when the tree is dirty or verification fails.
+   */
+  async rewriteHistory(
+    repoPath: string,
+    messages: Map<string, string>,
+    options: RewriteOptions
+  ): Promise<RewriteResult> {
+    if (!(await this.gitService.isRepositoryClean(repoPath))) {
+      throw new RewriteError('Repository has uncommitted changes; commit or stash them first');
+    }
+
+    const plan = await this.planRewrite(repoPath, messages);
+    const branchName = options.branchName;
+    const base = {
+      plan,
+      commitMap: {},
+      ...(branchName !== undefined ? { branchName } : {}),
+    };
+
+    if (plan.entries.length === 0 || options.dryRun) {
+      return { ...base, applied: false };
+    }
+
+    const backupBranch = options.createBackup
+      ? await this.gitService.createBackupBranch(repoPath, RewriteService.BACKUP_BRANCH_PREFIX)
+      : undefined;
+
+    if (branchName !== undefined) {
+      await this.gitService.createBranch(repoPath, branchName);
+      await this.gitService.checkoutBranch(repoPath, branchName);
+    }
+
+    console.log(
+      `✏️  Rewriting ${plan.entries.length} commit messages across ${plan.snapshot.length} commits...`
+    );
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-rewrite-'));
+    try {
+      const scriptPath = await this.writeFilterScript(workDir, plan.entries);
+      await this.gitService.executeMessageFilter(repoPath, plan.range, scriptPath);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+
+    const { commitMap, issues } = await this.verifyRewrite(repoPath, plan);
+    if (issues.length > 0) {
+      throw new RewriteError(
+        `Rewrite verification failed for ${issues.length} checks`,
+        issues.slice(0, RewriteService.MAX_REPORTED_ISSUES),
+        backupBranch
+      );
+    }
+
+    return {
+      ...base,
+      applied: true,
+      commitMap,
+      ...(backupBranch !== undefined ? { backupBranch } : {}),
+    };
+  }
+
+  /**
+   * Compare the rewritten range with the snapshot taken before rewriting.
+   * Returns the old → new hash map and any mismatches found.
+   */
+  async verifyRewrite(
+    repoPath: string,
+    plan: RewritePlan
+  ): Promise<{ commitMap: Record<string, string>; issues: string[] }> {
+    const after = await this.gitService.getCommitMetadata(repoPath, plan.range);
+    const newSubjects = new Map(plan.entries.map((entry) => [entry.hash, entry.newSubject]));
+    const commitMap: Record<string, string> = {};
+    const issues: string[] = [];
+
+    if (after.length !== plan.snapshot.length) {
+      issues.push(
+        `Expected ${plan.snapshot.length} commits in ${plan.range}, found ${after.length}`
+      );
+      return { commitMap, issues };
+    }
+
+    plan.snapshot.forEach((original, index) => {
+      const rewritten = after[index];
+      if (rewritten === undefined) return;
+
+      commitMap[original.hash] = rewritten.hash;
+      const short = original.hash.substring(0, 8);
+      const expected: CommitMetadata = {
+        ...original,
+        subject: newSubjects.get(original.hash) ?? original.subject,
+      };
+
+      const fields = [
+        'tree',
+        'authorName',
+        'authorEmail',
+        'authorDate',
+        'committerName',
+        'committerEmail',
+        'committerDate',
+        'subject',
+      ] as const;
+      for (const field of fields) {
+        if (rewritten[field] !== expected[field]) {
+          issues.push(
+            `${short}: ${field} changed from "${expected[field]}" to "${rewritten[field]}"`
+          );
+        }
+      }
+
+      if (rewritten.parents.length !== original.parents.length) {
+        issues.push(`${short}: parent count changed`);
+      }
+    });
+
+    return { commitMap, issues };
+  }
+
+  /**
+   * Write one file per commit holding its new subject, plus a message filter that
+   * swaps the subject line for listed commits and passes everything else through
+   */
+  private async writeFilterScript(workDir: string, entries: RewriteEntry[]): Promise<string> {
+    const messageDir = path.join(workDir, 'messages');
+    await fs.mkdir(messageDir);
+    await Promise.all(
+      entries.map((entry) =>
+        fs.writeFile(path.join(messageDir, entry.hash), `${entry.newSubject}\n`, 'utf8')
+      )
+    );
+
+    const scriptPath = path.join(workDir, 'msg-filter.sh');
+    const script = [
+      '#!/bin/sh',
+      `message_file='${messageDir}/'"$GIT_COMMIT"`,
+      'if [ -f "$message_file" ]; then',
+      '  cat "$message_file"',
+      "  sed '1d'",
+      'else',
+      '  cat',
+      'fi',
+      '',
+    ].join('\n');
+    await fs.writeFile(scriptPath, script, { encoding: 'utf8', mode: 0o755 });
+
+    return scriptPath;
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Deterministic rule engine for applying transform rules to commit messages
+ */
+
+import type { ClassifiedCommit } from '../types/commits';
+import {
+  type TransformRule,
+  type RuleApplicationResult,
+  createTransformRule,
+  isConventionalPrefix,
+} from '../types/rules';
+import { isValidConventionalCommit } from '../utils/validation';
+
+/**
+ * Two or more rules that rewrite the same message to different results
+ */
+export interface RuleConflict {
+  readonly hash: string;
+  readonly originalMessage: string;
+  readonly candidates: Array<{
+    readonly rule: TransformRule;
+    readonly transformedMessage: string;
+  }>;
+}
+
+/**
+ * Outcome of applying the rule set to a list of commits
+ */
+export interface RuleEngineReport {
+  readonly finalCommits: ClassifiedCommit[];
+  readonly results: Map<string, RuleApplicationResult>;
+  readonly conflicts: RuleConflict[];
+  readonly unchanged: ClassifiedCommit[];
+}
+
+export class RuleEngine {
+  private static readonly FALLBACK_REASON = 'Fallback to the model-suggested prefix';
+
+  private readonly rules: TransformRule[];
+
+  constructor(rules: TransformRule[]) {
+    // Global and sticky regexes keep state between calls, which would make results order-dependent
+    this.rules = rules.map((rule) =>
+      /[gy]/.test(rule.pattern.flags)
+        ? {
+            ...rule,
+            pattern: new RegExp(rule.pattern.source, rule.pattern.flags.replace(/[gy]/g, '')),
+          }
+        : rule
+    );
+  }
+
+  /**
+   * Apply the first rule, in order, whose output is a valid conventional commit.
+   * Only the subject line is transformed; any body is preserved.
+   */
+  applyRules(message: string, suggestedPrefix?: string): RuleApplicationResult {
+    const { subject, body } = this.splitMessage(message);
+
+    if (isValidConventionalCommit(subject)) {
+      return { applied: false, originalMessage: message, transformedMessage: message };
+    }
+
+    for (const rule of this.rules) {
+      const transformed = this.transformSubject(subject, rule);
+      if (transformed !== null) {
+        return {
+          applied: true,
+          originalMessage: message,
+          transformedMessage: transformed + body,
+          appliedRule: rule,
+        };
+      }
+    }
+
+    if (suggestedPrefix !== undefined && isConventionalPrefix(suggestedPrefix)) {
+      const fallbackRule: TransformRule = {
+        ...createTransformRule(
+          '^\\s*(.+?)\\s*$',
+          `${suggestedPrefix}: $1`,
+          RuleEngine.FALLBACK_REASON,
+          ''
+        ),
+        fallback: true,
+      };
+      const transformed = this.transformSubject(subject, fallbackRule);
+      if (transformed !== null) {
+        return {
+          applied: true,
+          originalMessage: message,
+          transformedMessage: transformed + body,
+          appliedRule: fallbackRule,
+        };
+      }
+    }
+
+    return { applied: false, originalMessage: message, transformedMessage: message };
+  }
+
+  /**
+   * Find rules that match the same message but produce different valid results
+   */
+  findConflicts(hash: string, message: string): RuleConflict | null {
+    const { subject } = this.splitMessage(message);
+    const candidates: RuleConflict['candidates'] = [];
+
+    for (const rule of this.rules) {
+      const transformed = this.transformSubject(subject, rule);
+      if (transformed !== null) {
+        candidates.push({ rule, transformedMessage: transformed });
+      }
+    }
+
+    const distinctOutputs = new Set(candidates.map((candidate) => candidate.transformedMessage));
+    return distinctOutputs.size > 1 ? { hash, originalMessage: message, candidates } : null;
+  }
+
+  /**
+   * Apply the rule set to every commit, producing the final commits for the cache
+   */
+  applyToCommits(commits: ClassifiedCommit[]): RuleEngineReport {
+    const results = new Map<string, RuleApplicationResult>();
+    const conflicts: RuleConflict[] = [];
+    const unchanged: ClassifiedCommit[] = [];
+
+    const finalCommits = commits.map((commit) => {
+      const result = this.applyRules(commit.message, commit.suggestedPrefix);
+      results.set(commit.hash, result);
+
+      if (!isValidConventionalCommit(commit.message)) {
+        const conflict = this.findConflicts(commit.hash, commit.message);
+        if (conflict !== null) {
+          conflicts.push(conflict);
+        }
+      }
+
+      if (!result.applied) {
+        unchanged.push(commit);
+        return commit;
+      }
+
+      return { ...commit, message: result.transformedMessage };
+    });
+
+    return { finalCommits, results, conflicts, unchanged };
+  }
+
+  /**
+   * Whether a rule is the fallback built from the model-suggested prefix
+   */
+  static isFallbackRule(rule: TransformRule): boolean {
+    return rule.fallback === true;
+  }
+
+  /**
+   * Rules in application order
+   */
+  getRules(): TransformRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Transform a subject with a rule, or return null when the rule does not match
+   * or its output is not a valid conventional commit
+   */
+  private transformSubject(subject: string, rule: TransformRule): string | null {
+    if (!rule.pattern.test(subject)) {
+      return null;
+    }
+
+    const transformed = subject.replace(rule.pattern, rule.replacement).trim();
+    return transformed !== subject && isValidConventionalCommit(transformed) ? transformed : null;
+  }
+
+  private splitMessage(message: string): { subject: string; body: string } {
+    const newline = message.indexOf('\n');
+    return newline === -1
+      ? { subject: message, body: '' }
+      : { subject: message.substring(0, newline), body: message.substring(newline) };
+  }
+}
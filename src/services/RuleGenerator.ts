@@ -0,0 +1,239 @@
+/**
+ * Rule generator for deriving regex transform rules from classified commits
+ */
+
+import type { Config } from '../types/config';
+import type { ClassifiedCommit } from '../types/commits';
+import { type ChatMessage, LLMError } from '../types/llm';
+import {
+  type TransformRule,
+  type RuleGenerationContext,
+  type SerializableTransformRule,
+  CONVENTIONAL_PREFIXES,
+  deserializeTransformRule,
+  isSerializableTransformRule,
+} from '../types/rules';
+import { isSafeRegexPattern, isValidConventionalCommit } from '../utils/validation';
+import { retryWithBackoff } from '../utils/async';
+import type { LLMService } from './LLMService';
+
+/**
+ * Group of non-conforming commits that share a leading token
+ */
+interface CommitCluster {
+  readonly pattern: string;
+  readonly suggestedPrefix: string;
+  readonly messages: string[];
+}
+
+export class RuleGenerator {
+  private static readonly MAX_PATTERNS = 20;
+  private static readonly EXAMPLES_PER_PATTERN = 3;
+  private static readonly MAX_RULES = 25;
+
+  constructor(
+    private readonly config: Config,
+    private readonly llmService: LLMService
+  ) {}
+
+  /**
+   * Build the generation context from classified commits
+   */
+  buildContext(commits: ClassifiedCommit[]): RuleGenerationContext {
+    const clusters = this.clusterNonConforming(commits);
+    const nonConforming = commits.filter((commit) => commit.conformingPrefix === undefined);
+
+    return {
+      totalCommits: commits.length,
+      nonConformingCommits: nonConforming.length,
+      mostCommonPatterns: clusters.slice(0, RuleGenerator.MAX_PATTERNS).map((cluster) => ({
+        pattern: cluster.pattern,
+        count: cluster.messages.length,
+        suggestedPrefix: cluster.suggestedPrefix,
+      })),
+    };
+  }
+
+  /**
+   * Ask the rule model for regex rules and keep only those that pass validation
+   */
+  async generateRules(commits: ClassifiedCommit[]): Promise<TransformRule[]> {
+    const clusters = this.clusterNonConforming(commits).slice(0, RuleGenerator.MAX_PATTERNS);
+    if (clusters.length === 0) {
+      console.log('✅ No non-conforming commits, no rules needed');
+      return [];
+    }
+
+    const context = this.buildContext(commits);
+    console.log(
+      `🧩 Generating rules for ${context.nonConformingCommits} non-conforming commits (${clusters.length} patterns) with ${this.config.ruleGenerationModel}...`
+    );
+
+    const candidates = await retryWithBackoff(
+      async () => {
+        const content = await this.llmService.createChatCompletion({
+          model: this.config.ruleGenerationModel,
+          messages: this.buildRuleMessages(context, clusters),
+          temperature: 0,
+          response_format: { type: 'json_object' },
+        });
+        return this.parseRuleResponse(content);
+      },
+      this.config.maxRetries,
+      this.config.baseDelay
+    );
+
+    const examples = clusters.flatMap((cluster) => cluster.messages);
+    const rules: TransformRule[] = [];
+    const seenPatterns = new Set<string>();
+
+    for (const candidate of candidates.slice(0, RuleGenerator.MAX_RULES)) {
+      const result = this.validateRule(candidate, examples);
+      if (result.rule === undefined) {
+        console.warn(`⚠️  Skipping rule /${candidate.pattern}/: ${result.error}`);
+        continue;
+      }
+
+      const key = `${result.rule.pattern.source}/${result.rule.pattern.flags}`;
+      if (!seenPatterns.has(key)) {
+        seenPatterns.add(key);
+        rules.push(result.rule);
+      }
+    }
+
+    console.log(`✅ Generated ${rules.length} valid rules (${candidates.length} proposed)`);
+    return rules;
+  }
+
+  /**
+   * Validate a proposed rule: it must compile, be safe from catastrophic backtracking,
+   * match at least one example and turn every matching example into a conventional commit
+   */
+  validateRule(
+    candidate: SerializableTransformRule,
+    examples: string[]
+  ): { rule?: TransformRule; error?: string } {
+    if (!isSafeRegexPattern(candidate.pattern)) {
+      return { error: 'pattern may backtrack catastrophically' };
+    }
+
+    if (!/^[imsu]*$/.test(candidate.flags)) {
+      return { error: `unsupported flags "${candidate.flags}"` };
+    }
+
+    let rule: TransformRule;
+    try {
+      rule = deserializeTransformRule(candidate);
+    } catch (error) {
+      return {
+        error: `pattern does not compile (${error instanceof Error ? error.message : String(error)})`,
+      };
+    }
+
+    const matching = examples.filter((message) => rule.pattern.test(message));
+    if (matching.length === 0) {
+      return { error: 'pattern matches none of the example commits' };
+    }
+
+    const invalid = matching.find(
+      (message) => !isValidConventionalCommit(message.replace(rule.pattern, rule.replacement))
+    );
+    if (invalid !== undefined) {
+      return { error: `replacement produces a non-conventional message for "${invalid}"` };
+    }
+
+    return { rule };
+  }
+
+  /**
+   * Cluster non-conforming commits by their leading token, most frequent first
+   */
+  private clusterNonConforming(commits: ClassifiedCommit[]): CommitCluster[] {
+    const clusters = new Map<string, CommitCluster>();
+
+    for (const commit of commits) {
+      if (commit.conformingPrefix !== undefined) continue;
+
+      const subject = commit.message.split('\n')[0] ?? commit.message;
+      const token = subject
+        .trim()
+        .match(/^[[(]?([A-Za-z][\w-]*)/)?.[1]
+        ?.toLowerCase();
+      const pattern = token !== undefined ? `${token} …` : '(other)';
+      const suggestedPrefix = commit.suggestedPrefix ?? 'chore';
+      const key = `${pattern}|${suggestedPrefix}`;
+
+      const cluster = clusters.get(key) ?? { pattern, suggestedPrefix, messages: [] };
+      cluster.messages.push(subject);
+      clusters.set(key, cluster);
+    }
+
+    return [...clusters.values()].sort((a, b) => b.messages.length - a.messages.length);
+  }
+
+  /**
+   * Build the prompt describing the clusters to the rule model
+   */
+  private buildRuleMessages(
+    context: RuleGenerationContext,
+    clusters: CommitCluster[]
+  ): ChatMessage[] {
+    const system = [
+      'You write JavaScript regular expression rules that rewrite git commit subjects into',
+      `Conventional Commits. Valid prefixes: ${CONVENTIONAL_PREFIXES.join(', ')}.`,
+      'Each rule is applied with String.prototype.replace(new RegExp(pattern, flags), replacement),',
+      'so the replacement may use capture groups such as $1.',
+      'Every message a rule matches must become "<prefix>: <description>" or "<prefix>(<scope>): <description>".',
+      'Avoid nested quantifiers, alternation inside repeated groups and backreferences.',
+      'Respond with a single JSON object of the form:',
+      '{"rules":[{"pattern":"^update\\\\s+(.+)$","flags":"i","replacement":"chore: update $1","reason":"<why>"}]}',
+    ].join('\n');
+
+    const patterns = clusters
+      .map((cluster) => {
+        const examples = cluster.messages
+          .slice(0, RuleGenerator.EXAMPLES_PER_PATTERN)
+          .map((message) => `  - ${message}`)
+          .join('\n');
+        return `Pattern "${cluster.pattern}" (${cluster.messages.length} commits, suggested prefix: ${cluster.suggestedPrefix})\n${examples}`;
+      })
+      .join('\n\n');
+
+    const user = [
+      `Total commits: ${context.totalCommits}`,
+      `Non-conforming commits: ${context.nonConformingCommits}`,
+      '',
+      'Most common non-conforming patterns:',
+      patterns,
+    ].join('\n');
+
+    return [
+      { role: 'system', content: system },
+      { role: 'user', content: user },
+    ];
+  }
+
+  /**
+   * Parse the rule model response into serializable rule candidates
+   */
+  private parseRuleResponse(content: string): SerializableTransformRule[] {
+    const payload = this.llmService.extractJsonPayload(content);
+    const entries: unknown = Array.isArray(payload)
+      ? payload
+      : typeof payload === 'object' && payload !== null && 'rules' in payload
+        ? payload.rules
+        : undefined;
+
+    if (!Array.isArray(entries)) {
+      throw new LLMError('Rule generation response does not contain a rules array');
+    }
+
+    return (entries as unknown[])
+      .map((entry) =>
+        typeof entry === 'object' && entry !== null && !('flags' in entry)
+          ? { ...entry, flags: '' }
+          : entry
+      )
+      .filter(isSerializableTransformRule);
+  }
+}
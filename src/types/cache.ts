@@ -2,7 +2,14 @@
  * Cache-related type definitions
  */
 
-import type { RawCommit, EnrichedCommit, ClassifiedCommit, ProcessingPhase } from './commits';
+import { createHash } from 'crypto';
+import {
+  type RawCommit,
+  type EnrichedCommit,
+  type ClassifiedCommit,
+  type ProcessingPhase,
+  validateCommitHash,
+} from './commits';
 import type { SerializableTransformRule } from './rules';
 import type { Config } from './config';
 
@@ -10,7 +17,8 @@ export interface GcaCache {
   readonly version: string;
   readonly timestamp: string;
   readonly repoPath: string;
-  readonly repoHash: string; // Git HEAD hash to detect repo changes
+  readonly repoKey?: string; // key of the repository's identity, the same in every clone
+  repoHash: string; // Git HEAD hash to detect repo changes, moved forward by incremental updates
 
   // Full config storage for restore functionality
   readonly config: Omit<Config, 'apiKey'> & { apiKeyHash: string };
@@ -41,14 +49,14 @@ export interface GcaCache {
   };
 
   // State preservation for exact resumption
-  readonly batchState?: {
+  batchState?: {
     currentBatchSize: number;
     consecutiveSuccesses: number;
     consecutiveFailures: number;
     contextOverflowCount: number;
   };
 
-  readonly rateLimitState?: {
+  rateLimitState?: {
     requestsThisMinute: number;
     minuteStartTime: number;
     dailyRequests: number;
@@ -57,12 +65,52 @@ export interface GcaCache {
 
   // Metadata for cache management
   readonly metadata: {
-    cacheSize: number;
+    cacheSize: number; // uncompressed bytes of the serialized data sections
+    storedSize?: number; // bytes on disk across all files, measured when read or written
     compressionUsed?: boolean;
+    compression?: CacheCompression;
+    layout?: CacheLayout;
     checksums?: Record<string, string>;
+    chunks?: Record<string, CacheChunkInfo>; // chunked layout: where each data section lives
   };
 }
 
+/**
+ * Compression applied to cache files
+ */
+export type CacheCompression = 'none' | 'gzip' | 'brotli';
+
+/**
+ * Single file, or a small manifest plus one file per data section
+ */
+export type CacheLayout = 'single' | 'chunked';
+
+/**
+ * Where default cache files live: the global cache directory, keyed by repository
+ * identity, or the current working directory
+ */
+export type CacheLocation = 'global' | 'cwd';
+
+/**
+ * What identifies a repository across clones and working directories
+ */
+export interface RepositoryIdentity {
+  readonly root: string; // top-level directory of the working tree
+  readonly key: string; // short hash of the source below
+  readonly source: 'root-commit' | 'remote' | 'path';
+  readonly remoteUrl?: string;
+}
+
+/**
+ * A data section stored in its own file next to a chunked cache
+ */
+export interface CacheChunkInfo {
+  readonly file: string; // relative to the cache file's directory
+  readonly checksum: string;
+  readonly size: number; // uncompressed bytes
+  readonly storedSize: number;
+}
+
 /**
  * Cache validation result
  */
@@ -70,8 +118,29 @@ export interface CacheValidationResult {
   readonly isValid: boolean;
   readonly reasons: string[];
   readonly cacheAge: number; // in milliseconds
+  readonly repositoryMismatch: boolean; // created for another repository
   readonly repoChanged: boolean;
   readonly configChanged: boolean;
+  readonly changedConfigKeys: string[];
+  readonly cachedHead: string;
+  readonly currentHead: string;
+  readonly headIsAncestor: boolean | null; // null when the cached HEAD is no longer known
+  readonly integrityIssues: string[]; // only checked when asked for
+}
+
+/**
+ * Result of bringing a cache up to date with a repository whose HEAD moved
+ */
+export interface IncrementalUpdate {
+  readonly mode: 'fast-forward' | 'rewritten';
+  readonly previousHead: string;
+  readonly currentHead: string;
+  readonly rawCommits: RawCommit[];
+  readonly enrichedCommits: EnrichedCommit[];
+  readonly classifiedCommits: ClassifiedCommit[]; // classifications kept or reused, in history order
+  readonly newHashes: string[]; // commits not seen before
+  readonly removedHashes: string[]; // cached commits no longer in the history
+  readonly reusedByPatchId: Array<{ readonly from: string; readonly to: string }>;
 }
 
 /**
@@ -79,8 +148,9 @@ export interface CacheValidationResult {
  */
 export interface CacheStatistics {
   readonly totalSize: number;
+  readonly storedSize?: number;
   readonly itemCount: number;
-  readonly compressionRatio?: number;
+  readonly compressionRatio?: number; // uncompressed size divided by size on disk
   readonly ageInDays: number;
   readonly phases: {
     readonly completed: ProcessingPhase[];
@@ -89,13 +159,154 @@ export interface CacheStatistics {
   };
 }
 
+/**
+ * Portable cache bundle for handing an analysis to another machine
+ */
+export interface CacheBundle {
+  readonly format: typeof CACHE_BUNDLE_FORMAT;
+  readonly bundleVersion: string;
+  readonly exportedAt: string;
+  readonly cache: GcaCache;
+}
+
+/**
+ * Advisory lock recorded next to a cache file while a run owns it
+ */
+export interface CacheLockInfo {
+  readonly pid: number;
+  readonly hostname: string;
+  readonly createdAt: string;
+  readonly updatedAt: string;
+}
+
+/**
+ * What happened when a cache file had to be recovered from its backups
+ */
+export interface CacheRecoveryReport {
+  readonly cachePath: string;
+  readonly recoveredFrom: string | null;
+  readonly failures: Array<{ readonly path: string; readonly reason: string }>;
+}
+
+/**
+ * One step in the cache schema migration registry
+ */
+export interface CacheMigration {
+  readonly from: string;
+  readonly to: string;
+  readonly description: string;
+  readonly migrate: (cache: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Outcome of upgrading a cache document to the current schema
+ */
+export interface CacheMigrationResult {
+  readonly fromVersion: string;
+  readonly toVersion: string;
+  readonly steps: Array<Pick<CacheMigration, 'from' | 'to' | 'description'>>;
+  readonly changes: string[];
+  readonly cache: GcaCache;
+  readonly backupPath?: string; // where the original file was kept, once written
+}
+
+/**
+ * Cache files removed (or, in a dry run, selected for removal) by a cleanup
+ */
+export interface CacheCleanupReport {
+  readonly directories: string[];
+  readonly scanned: number;
+  readonly removed: Array<{
+    readonly path: string;
+    readonly size: number;
+    readonly modifiedAt: Date;
+    readonly reason: 'age' | 'size';
+  }>;
+  readonly skipped: Array<{ readonly path: string; readonly reason: string }>;
+  readonly reclaimedBytes: number;
+  readonly remainingBytes: number;
+  readonly dryRun: boolean;
+}
+
+/**
+ * A commit as recorded in a cache, merged across the data sections it appears in
+ */
+export interface CachedCommitEntry {
+  readonly hash: string;
+  readonly phase: ProcessingPhase; // the furthest phase that recorded the commit
+  readonly message: string;
+  readonly finalMessage?: string; // set when rule application changed the message
+  readonly conformingPrefix?: string;
+  readonly suggestedPrefix?: string;
+  readonly reason?: string;
+  readonly diff?: string;
+}
+
+/**
+ * Criteria for querying the commits in a cache; all given criteria must match
+ */
+export interface CacheQueryFilter {
+  readonly phase?: ProcessingPhase;
+  readonly prefix?: string; // suggested prefix, or the conforming one when none was suggested
+  readonly conforming?: boolean;
+  readonly messagePattern?: RegExp;
+  readonly hashPrefix?: string;
+  readonly limit?: number;
+}
+
+/**
+ * A classification kept in the shared store for one commit and classifier
+ */
+export interface StoredClassification {
+  readonly conformingPrefix?: string;
+  readonly suggestedPrefix?: string;
+  readonly reason?: string;
+  readonly storedAt: string;
+}
+
+/**
+ * One file in the classification store: every classifier's result for a commit
+ */
+export interface ClassificationRecord {
+  readonly hash: string; // full commit hash
+  readonly classifications: Record<string, StoredClassification>; // keyed by classifier
+}
+
+/**
+ * Size and contents of the classification store
+ */
+export interface ClassificationStoreStats {
+  readonly rootDir: string;
+  readonly commits: number;
+  readonly entries: number;
+  readonly totalSize: number;
+  readonly byClassifier: Record<string, number>;
+}
+
+/**
+ * Outcome of pruning the classification store
+ */
+export interface ClassificationPruneResult {
+  readonly removedEntries: number;
+  readonly removedCommits: number;
+  readonly dryRun: boolean;
+}
+
 /**
  * Cache operation errors
  */
 export class CacheError extends Error {
   constructor(
     message: string,
-    public readonly operation: 'load' | 'save' | 'validate' | 'clear',
+    public readonly operation:
+      | 'load'
+      | 'save'
+      | 'validate'
+      | 'clear'
+      | 'export'
+      | 'import'
+      | 'migrate'
+      | 'store',
     public readonly cachePath?: string
   ) {
     super(message);
@@ -108,18 +319,31 @@ export class CacheError extends Error {
  */
 export interface CacheFileInfo {
   readonly path: string;
+  /** Bytes on disk, across chunk files for the chunked layout */
   readonly size: number;
+  /** Uncompressed bytes of the data sections */
+  readonly dataSize: number;
   readonly createdAt: Date;
   readonly modifiedAt: Date;
   readonly version: string;
+  readonly repoPath: string;
+  readonly repoHash: string;
   readonly phase: ProcessingPhase;
   readonly progress: {
     readonly processed: number;
     readonly total: number;
     readonly percentage: number;
   };
+  readonly compression: CacheCompression;
+  readonly layout: CacheLayout;
+  readonly environment: GcaCache['environment'];
 }
 
+/**
+ * repoHash of a cache created where HEAD could not be read
+ */
+export const UNKNOWN_REPO_HASH = 'unknown';
+
 /**
  * Type guards for cache validation
  */
@@ -143,7 +367,10 @@ export function isValidCache(cache: unknown): cache is GcaCache {
     typeof (cacheObj as unknown as GcaCache).version === 'string' &&
     typeof (cacheObj as unknown as GcaCache).timestamp === 'string' &&
     typeof (cacheObj as unknown as GcaCache).repoPath === 'string' &&
-    typeof (cacheObj as unknown as GcaCache).repoHash === 'string'
+    typeof (cacheObj as unknown as GcaCache).repoHash === 'string' &&
+    // repoHash is handed to git, so anything but a hash is rejected
+    ((cacheObj as unknown as GcaCache).repoHash === UNKNOWN_REPO_HASH ||
+      validateCommitHash((cacheObj as unknown as GcaCache).repoHash))
   );
 }
 
@@ -168,6 +395,41 @@ export function isValidCacheProgress(progress: unknown): progress is GcaCache['p
   );
 }
 
+export function isCacheBundle(bundle: unknown): bundle is CacheBundle {
+  if (typeof bundle !== 'object' || bundle === null) {
+    return false;
+  }
+
+  const bundleObj = bundle as Record<string, unknown>;
+
+  return (
+    bundleObj['format'] === CACHE_BUNDLE_FORMAT &&
+    typeof bundleObj['bundleVersion'] === 'string' &&
+    isValidCache(bundleObj['cache'])
+  );
+}
+
+export function isClassificationRecord(record: unknown): record is ClassificationRecord {
+  if (typeof record !== 'object' || record === null) {
+    return false;
+  }
+
+  const recordObj = record as Record<string, unknown>;
+  const classifications = recordObj['classifications'];
+
+  return (
+    typeof recordObj['hash'] === 'string' &&
+    typeof classifications === 'object' &&
+    classifications !== null &&
+    Object.values(classifications).every(
+      (entry) =>
+        typeof entry === 'object' &&
+        entry !== null &&
+        typeof (entry as StoredClassification).storedAt === 'string'
+    )
+  );
+}
+
 /**
  * Cache utility functions
  */
@@ -175,6 +437,17 @@ export function calculateCacheAge(cache: GcaCache): number {
   return Date.now() - new Date(cache.timestamp).getTime();
 }
 
+/**
+ * SHA-256 checksum of each data section present in a cache
+ */
+export function computeCacheChecksums(data: GcaCache['data']): Record<string, string> {
+  const checksums: Record<string, string> = {};
+  for (const [section, value] of Object.entries(data)) {
+    checksums[section] = createHash('sha256').update(JSON.stringify(value)).digest('hex');
+  }
+  return checksums;
+}
+
 export function getCacheProgress(cache: GcaCache): number {
   if (cache.progress.totalCommits === 0) return 0;
   return (cache.progress.processedCommits / cache.progress.totalCommits) * 100;
@@ -204,8 +477,14 @@ export function getCacheStatistics(cache: GcaCache): CacheStatistics {
   if (cache.data.transformRules !== undefined) itemCount += cache.data.transformRules.length;
   if (cache.data.finalCommits !== undefined) itemCount += cache.data.finalCommits.length;
 
+  const { cacheSize, storedSize } = cache.metadata;
+
   return {
-    totalSize: cache.metadata.cacheSize,
+    totalSize: cacheSize,
+    ...(storedSize !== undefined ? { storedSize } : {}),
+    ...(storedSize !== undefined && storedSize > 0
+      ? { compressionRatio: cacheSize / storedSize }
+      : {}),
     itemCount,
     ageInDays,
     phases: {
@@ -220,10 +499,14 @@ export function getCacheStatistics(cache: GcaCache): CacheStatistics {
  * Default cache configuration
  */
 export const DEFAULT_CACHE_CONFIG = {
-  version: '1.0.0',
+  version: '1.1.0',
   maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
   maxSize: 100 * 1024 * 1024, // 100MB
-  compressionEnabled: false,
+  compression: 'none' as CacheCompression,
+  layout: 'single' as CacheLayout,
+  location: 'global' as CacheLocation,
+  backupCount: 3,
+  staleLockAge: 60 * 60 * 1000, // 1 hour without a save
 } as const;
 
 /**
@@ -235,3 +518,8 @@ export const CACHE_FILES = {
   LOCK: '.gca-cache.lock',
   PATTERN: /\.gca-cache.*\.json$/,
 } as const;
+
+/**
+ * Format marker written into exported cache bundles
+ */
+export const CACHE_BUNDLE_FORMAT = 'gca-cache-bundle';
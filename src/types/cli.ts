@@ -16,31 +16,44 @@ export interface CliArguments {
   readonly maxProcess?: number;
   readonly batchSize?: number;
   readonly concurrency?: number;
-  readonly syntheticTest?: boolean;
   readonly help?: boolean;
+  readonly helpTopic?: Command;
+  readonly json?: boolean;
   readonly rewrite?: boolean;
   readonly dryRun?: boolean;
+  readonly dryRunOutput?: string;
+  readonly report?: string;
+  readonly out?: string;
   readonly backup?: boolean;
   readonly interactive?: boolean;
   readonly branchName?: string;
-  readonly generateGuide?: boolean;
   readonly includeGuide?: boolean;
-  readonly login?: boolean;
-  readonly logout?: boolean;
-  readonly status?: boolean;
   // Cache management options
+  readonly file?: string;
   readonly restore?: string | boolean;
-  readonly importCache?: string;
-  readonly exportCache?: string;
-  readonly listCaches?: boolean;
-  readonly cacheInfo?: string;
-  readonly validateCache?: string;
-  readonly checkCompatibility?: string;
-  readonly cleanCache?: boolean;
   readonly olderThan?: string;
+  readonly maxSize?: string;
   readonly ignoreCache?: boolean;
-  readonly clearCache?: boolean;
   readonly cacheOnly?: boolean;
+  readonly forceUnlock?: boolean;
+  readonly localCache?: boolean;
+  // Cache query options (gca cache query [FILE])
+  readonly phase?: string;
+  readonly prefix?: string;
+  readonly conforming?: boolean;
+  readonly grep?: string;
+  readonly hash?: string;
+  readonly show?: string;
+  readonly format?: string;
+  readonly limit?: number;
+  // Hook options (gca hook install|check)
+  readonly prepareCommitMsg?: boolean;
+  readonly suggest?: boolean;
+  readonly suggestMessage?: boolean;
+  // Range lint options (gca lint RANGE)
+  readonly range?: string;
+  readonly annotations?: string;
+  readonly junit?: string;
 }
 
 /**
@@ -59,6 +72,20 @@ export type Command =
   | 'cache-info'
   | 'cache-clear'
   | 'cache-validate'
+  | 'cache-check'
+  | 'cache-clean'
+  | 'cache-export'
+  | 'cache-import'
+  | 'cache-migrate'
+  | 'cache-unlock'
+  | 'cache-query'
+  | 'store-info'
+  | 'store-prune'
+  | 'hook-install'
+  | 'hook-uninstall'
+  | 'hook-check'
+  | 'suggest'
+  | 'lint'
   | 'help';
 
 export interface CommandContext {
@@ -68,6 +95,60 @@ export interface CommandContext {
   readonly environment: Record<string, string | undefined>;
 }
 
+/**
+ * A flag accepted by a command and the argument field it sets
+ */
+export interface CommandOption {
+  readonly flag: string;
+  readonly alias?: string;
+  readonly key: keyof CliArguments;
+  /** optional-string flags store true when no value follows them */
+  readonly type: 'boolean' | 'string' | 'number' | 'optional-string';
+  /** Value stored by a boolean flag (default true), e.g. false for --no-backup */
+  readonly value?: boolean;
+  readonly placeholder?: string;
+  readonly description: string;
+  readonly hidden?: boolean;
+}
+
+export interface CommandOptionGroup {
+  readonly title: string;
+  readonly options: readonly CommandOption[];
+}
+
+/**
+ * A positional argument, filled in order after the command words
+ */
+export interface CommandArgument {
+  readonly name: string;
+  readonly key: keyof CliArguments;
+  readonly description: string;
+  readonly required?: boolean;
+}
+
+/**
+ * A command the CLI can run: how it is invoked, what it accepts and how it is documented
+ */
+export interface CommandDefinition {
+  readonly name: Command;
+  /** Words selecting the command, e.g. ['cache', 'list'] */
+  readonly words: readonly string[];
+  /**
+   * Flags that selected the command before subcommands existed, e.g. --list-caches;
+   * a value following one fills the command's first argument
+   */
+  readonly legacyFlags?: readonly string[];
+  readonly summary: string;
+  readonly arguments: readonly CommandArgument[];
+  readonly options: readonly CommandOptionGroup[];
+  /** Arguments the command sets itself, e.g. rewrite: true */
+  readonly implies?: Partial<CliArguments>;
+  /** Return a message for each invalid argument */
+  readonly validate?: (args: CliArguments) => string[];
+  readonly examples?: readonly UsageExample[];
+  readonly notes?: readonly string[];
+}
+
 /**
  * CLI validation errors
  */
@@ -135,6 +216,20 @@ export function isValidCommand(command: string): command is Command {
     'cache-info',
     'cache-clear',
     'cache-validate',
+    'cache-check',
+    'cache-clean',
+    'cache-export',
+    'cache-import',
+    'cache-migrate',
+    'cache-unlock',
+    'cache-query',
+    'store-info',
+    'store-prune',
+    'hook-install',
+    'hook-uninstall',
+    'hook-check',
+    'suggest',
+    'lint',
     'help',
   ];
   return validCommands.includes(command as Command);
@@ -200,6 +295,7 @@ export const EXIT_CODES = {
   GIT_ERROR: 4,
   API_ERROR: 5,
   CACHE_ERROR: 6,
+  LINT_FAILED: 7,
   USER_CANCELLED: 130,
 } as const;
 
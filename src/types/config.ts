@@ -2,6 +2,10 @@
  * Configuration and environment-related type definitions
  */
 
+import os from 'os';
+import path from 'path';
+import type { CacheCompression, CacheLayout, CacheLocation } from './cache';
+
 export interface Config {
   readonly apiKey: string;
   readonly baseUrl: string;
@@ -21,6 +25,14 @@ export interface Config {
   readonly decayFactor: number;
   readonly successThreshold: number;
   readonly diffConcurrency: number;
+  readonly cacheBackupCount: number;
+  readonly cacheCompression: CacheCompression;
+  readonly cacheLayout: CacheLayout;
+  readonly cacheLocation: CacheLocation;
+  /** Shared classification store directory; empty disables the store */
+  readonly classificationStoreDir: string;
+  /** Print one JSON document on stdout and send human-readable output to stderr */
+  readonly outputJson: boolean;
   readonly syntheticTestMode: boolean;
 }
 
@@ -63,6 +75,15 @@ export interface ApiKeyInfo {
   readonly credits_remaining?: number;
 }
 
+/**
+ * Client-side request limits by account tier (null means unlimited)
+ */
+export const RATE_LIMITS = {
+  FREE_TIER: { requestsPerMinute: 20, requestsPerDay: 50 },
+  PAID: { requestsPerMinute: 200, requestsPerDay: null },
+  MIN_CREDITS_REMAINING: 0.01,
+} as const;
+
 /**
  * Batch processing configuration
  */
@@ -106,7 +127,10 @@ export interface CacheConfig {
   readonly enabled: boolean;
   readonly maxAge: number; // in milliseconds
   readonly maxSize: number; // in bytes
-  readonly compressionEnabled: boolean;
+  readonly compression: CacheCompression;
+  readonly layout: CacheLayout;
+  readonly location: CacheLocation;
+  readonly backupCount: number;
 }
 
 /**
@@ -131,6 +155,11 @@ export interface EnvironmentVariables {
   readonly DECAY_FACTOR?: string;
   readonly SUCCESS_THRESHOLD?: string;
   readonly DIFF_CONCURRENCY?: string;
+  readonly CACHE_BACKUP_COUNT?: string;
+  readonly CACHE_COMPRESSION?: string;
+  readonly CACHE_LAYOUT?: string;
+  readonly CACHE_LOCATION?: string;
+  readonly CLASSIFICATION_STORE_DIR?: string;
   readonly SYNTHETIC_TEST_MODE?: string;
   readonly OUTPUT_JSON?: string;
 }
@@ -170,6 +199,12 @@ export const DEFAULT_CONFIG: Omit<Config, 'apiKey'> = {
   decayFactor: 0.6,
   successThreshold: 2,
   diffConcurrency: 4,
+  cacheBackupCount: 3,
+  cacheCompression: 'none',
+  cacheLayout: 'single',
+  cacheLocation: 'global',
+  classificationStoreDir: path.join(os.homedir(), '.gca', 'classifications'),
+  outputJson: false,
   syntheticTestMode: false,
 };
 
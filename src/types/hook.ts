@@ -0,0 +1,45 @@
+/**
+ * Git hook type definitions
+ */
+
+/**
+ * Hooks gca can install
+ */
+export const HOOK_NAMES = ['commit-msg', 'prepare-commit-msg'] as const;
+
+export type HookName = (typeof HOOK_NAMES)[number];
+
+/**
+ * What happened to one hook on install or uninstall
+ */
+export interface HookChange {
+  readonly hook: HookName;
+  readonly path: string;
+  readonly action: 'installed' | 'updated' | 'removed' | 'restored' | 'skipped';
+  /** Existing hook now run before ours, or put back on uninstall */
+  readonly chained?: string;
+  /** Why a hook was skipped */
+  readonly reason?: string;
+}
+
+/**
+ * Options baked into the installed hooks
+ */
+export interface HookInstallOptions {
+  /** Also install prepare-commit-msg, which adds the format to the message template */
+  readonly prepareCommitMsg?: boolean;
+  /** Suggest a corrected message from the transform rules in the repository's cache */
+  readonly suggest?: boolean;
+  /** Install prepare-commit-msg and have it start new messages with gca suggest */
+  readonly suggestMessage?: boolean;
+}
+
+export class HookError extends Error {
+  constructor(
+    message: string,
+    public readonly hook?: HookName
+  ) {
+    super(message);
+    this.name = 'HookError';
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Commit message lint type definitions
+ */
+
+/**
+ * Rules a commit message is checked against, with what each expects
+ */
+export const LINT_RULES = {
+  'conventional-format': 'Subject must be "type(scope): description" with a conventional type',
+  'message-format': 'Subject must be 3-500 characters, trimmed, without a trailing period',
+} as const;
+
+export type LintRuleId = keyof typeof LINT_RULES;
+
+/**
+ * One rule a message breaks
+ */
+export interface LintViolation {
+  readonly rule: LintRuleId;
+  readonly message: string;
+}
+
+/**
+ * Outcome of linting one commit message
+ */
+export interface LintResult {
+  readonly subject: string;
+  readonly valid: boolean;
+  /** Merge, revert, fixup! and squash! messages that git writes itself are not checked */
+  readonly exempt: boolean;
+  readonly violations: LintViolation[];
+}
+
+/**
+ * Annotation syntaxes CI logs understand, with what each looks like
+ */
+export const ANNOTATION_FORMATS = {
+  github: 'GitHub Actions workflow commands (::error title=...::message)',
+  gitlab: 'Compiler-style lines highlighted in GitLab job logs (commit HASH: error: message)',
+} as const;
+
+export type AnnotationFormat = keyof typeof ANNOTATION_FORMATS;
+
+export function isAnnotationFormat(format: string): format is AnnotationFormat {
+  return Object.keys(ANNOTATION_FORMATS).includes(format);
+}
+
+/**
+ * Outcome of linting one commit in a range
+ */
+export interface CommitLintResult extends LintResult {
+  readonly hash: string;
+}
+
+/**
+ * Outcome of linting every commit in a range, oldest first
+ */
+export interface RangeLintResult {
+  readonly range: string;
+  readonly commits: CommitLintResult[];
+  readonly failed: number;
+}
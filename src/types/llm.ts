@@ -0,0 +1,143 @@
+/**
+ * LLM API-related type definitions
+ */
+
+export interface ChatMessage {
+  readonly role: 'system' | 'user' | 'assistant';
+  readonly content: string;
+}
+
+export interface ChatCompletionRequest {
+  readonly model: string;
+  readonly messages: ChatMessage[];
+  readonly temperature?: number;
+  readonly response_format?: { readonly type: 'json_object' | 'text' };
+}
+
+export interface ChatCompletionResponse {
+  readonly id?: string;
+  readonly model?: string;
+  readonly choices: Array<{
+    readonly message: {
+      readonly role?: string;
+      readonly content: string | null;
+    };
+    readonly finish_reason?: string | null;
+  }>;
+  readonly usage?: {
+    readonly prompt_tokens: number;
+    readonly completion_tokens: number;
+    readonly total_tokens: number;
+  };
+}
+
+/**
+ * Structured classification returned by the model for a single commit
+ */
+export interface CommitClassification {
+  readonly hash: string;
+  readonly conformingPrefix?: string;
+  readonly suggestedPrefix?: string;
+  readonly reason?: string;
+}
+
+/**
+ * LLM API errors
+ */
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode?: number,
+    public readonly responseBody?: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
+
+/**
+ * Raised when a run must stop before exceeding request quotas or credits
+ */
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: 'daily_limit' | 'credits_exhausted',
+    public readonly resetAt?: number
+  ) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Response from the OpenRouter key-info endpoint
+ */
+export interface KeyInfoResponse {
+  readonly data: {
+    readonly label?: string;
+    readonly usage: number;
+    readonly limit: number | null;
+    readonly limit_remaining?: number | null;
+    readonly is_free_tier: boolean;
+  };
+}
+
+/**
+ * Type guards for LLM responses
+ */
+export function isChatCompletionResponse(response: unknown): response is ChatCompletionResponse {
+  return (
+    typeof response === 'object' &&
+    response !== null &&
+    'choices' in response &&
+    Array.isArray((response as ChatCompletionResponse).choices)
+  );
+}
+
+export function isKeyInfoResponse(response: unknown): response is KeyInfoResponse {
+  if (typeof response !== 'object' || response === null || !('data' in response)) {
+    return false;
+  }
+
+  const data = (response as KeyInfoResponse).data as unknown;
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    typeof (data as KeyInfoResponse['data']).usage === 'number' &&
+    typeof (data as KeyInfoResponse['data']).is_free_tier === 'boolean'
+  );
+}
+
+export function isCommitClassification(value: unknown): value is CommitClassification {
+  if (typeof value !== 'object' || value === null || !('hash' in value)) {
+    return false;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  const isOptionalString = (field: unknown): boolean =>
+    field === undefined || field === null || typeof field === 'string';
+
+  return (
+    typeof candidate['hash'] === 'string' &&
+    isOptionalString(candidate['conformingPrefix']) &&
+    isOptionalString(candidate['suggestedPrefix']) &&
+    isOptionalString(candidate['reason'])
+  );
+}
+
+/**
+ * Detect errors caused by a request exceeding the model's context window
+ */
+export function isContextOverflowError(error: unknown): boolean {
+  if (!(error instanceof LLMError)) {
+    return false;
+  }
+
+  if (error.statusCode === 413) {
+    return true;
+  }
+
+  const text = `${error.message} ${error.responseBody ?? ''}`.toLowerCase();
+  return /context (length|window)|maximum context|too many tokens|token limit|truncated/.test(text);
+}
@@ -0,0 +1,120 @@
+/**
+ * Structured output types for --json / OUTPUT_JSON
+ */
+
+import type { CacheFileInfo } from './cache';
+
+/**
+ * Schema version of each JSON document; bumped whenever a field changes meaning or goes away
+ */
+export const OUTPUT_SCHEMA_VERSIONS = {
+  'analysis-summary': '1.0.0',
+  status: '1.0.0',
+  'cache-info': '1.0.0',
+  'cache-list': '1.0.0',
+} as const;
+
+export type OutputKind = keyof typeof OUTPUT_SCHEMA_VERSIONS;
+
+/**
+ * Fields every JSON document starts with, so consumers can check what they are reading
+ */
+export interface OutputDocument<K extends OutputKind> {
+  readonly kind: K;
+  readonly version: (typeof OUTPUT_SCHEMA_VERSIONS)[K];
+  readonly generatedAt: string;
+}
+
+/**
+ * A non-conventional commit shown as an example in the summary
+ */
+export interface NonConformingSample {
+  readonly hash: string;
+  readonly subject: string;
+  readonly suggestedPrefix?: string;
+  readonly reason?: string;
+}
+
+/**
+ * Result of an analysis run (gca analyze, rewrite and dry-run)
+ */
+export interface AnalysisSummary extends OutputDocument<'analysis-summary'> {
+  readonly repository: {
+    readonly path: string;
+    readonly branch: string;
+    readonly totalCommits: number;
+    readonly isClean: boolean;
+  };
+  /** model when an LLM classified the commits, pattern for the offline prefix check */
+  readonly classification: 'model' | 'pattern';
+  readonly totals: {
+    readonly analyzed: number;
+    readonly conventional: number;
+    readonly nonConventional: number;
+    /** Share of conventional commits, 0-100 with one decimal */
+    readonly conventionalPercentage: number;
+  };
+  readonly nonConformingSamples: NonConformingSample[];
+  /** Suggested prefix → number of non-conventional commits it was suggested for */
+  readonly suggestedPrefixes: Record<string, number>;
+  /** File extension → files changed in the most recent commits */
+  readonly fileTypes: Record<string, number>;
+  /** Transform rule outcome; null when no rules were generated */
+  readonly rules: {
+    readonly generated: number;
+    readonly rewritten: number;
+    readonly unchanged: number;
+    readonly stillNonConventional: number;
+    readonly conflicts: number;
+  } | null;
+  /** What happened to history; null for a read-only analysis */
+  readonly rewrite: {
+    readonly mode: 'dry-run' | 'rewrite';
+    readonly applied: boolean;
+    readonly reportPath?: string;
+  } | null;
+}
+
+/**
+ * Configuration and API key status (gca status)
+ */
+export interface StatusOutput extends OutputDocument<'status'> {
+  readonly apiKeySet: boolean;
+  readonly baseUrl: string;
+  readonly classificationModel: string;
+  /** Key details from OpenRouter; null when no key is set or the lookup failed */
+  readonly key: {
+    readonly freeTier: boolean;
+    readonly usage: number;
+    readonly creditsRemaining: number | null;
+  } | null;
+}
+
+/**
+ * One cache file (gca cache info)
+ */
+export interface CacheInfoOutput extends OutputDocument<'cache-info'> {
+  readonly file: string;
+  /** null when the file is missing or unreadable */
+  readonly cache: CacheFileInfo | null;
+}
+
+/**
+ * Every cache found (gca cache list)
+ */
+export interface CacheListOutput extends OutputDocument<'cache-list'> {
+  readonly directories: string[];
+  readonly caches: CacheFileInfo[];
+  readonly unreadable: string[];
+}
+
+/**
+ * Start a JSON document of the given kind
+ */
+export function createOutputDocument<K extends OutputKind>(kind: K): OutputDocument<K> {
+  return {
+    kind,
+    version: OUTPUT_SCHEMA_VERSIONS[kind],
+    generatedAt: new Date().toISOString(),
+  };
+}
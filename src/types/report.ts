@@ -0,0 +1,92 @@
+/**
+ * Report types for --report FORMAT --out FILE
+ */
+
+import type { AnalysisSummary } from './output';
+
+/**
+ * Report formats, with the extension of the default output file
+ */
+export const REPORT_FORMATS = {
+  markdown: { extension: 'md', description: 'Markdown, for PR comments and wikis' },
+  html: { extension: 'html', description: 'Standalone HTML page with charts' },
+  csv: { extension: 'csv', description: 'One row per commit with its classification' },
+} as const;
+
+export type ReportFormat = keyof typeof REPORT_FORMATS;
+
+/**
+ * Check whether a string names a report format
+ */
+export function isReportFormat(value: string): value is ReportFormat {
+  return Object.keys(REPORT_FORMATS).includes(value);
+}
+
+/**
+ * One analyzed commit as the reports show it
+ */
+export interface ReportCommit {
+  readonly hash: string;
+  readonly subject: string;
+  /** Author date (ISO 8601); missing when git could not provide it */
+  readonly date?: string;
+  readonly conventional: boolean;
+  /** Prefix the message uses, or the model's conforming prefix */
+  readonly prefix?: string;
+  readonly suggestedPrefix?: string;
+  readonly reason?: string;
+  /** Message after the transform rules, when a rule changed it */
+  readonly proposedMessage?: string;
+}
+
+/**
+ * Commits per prefix in one period of the analyzed history
+ */
+export interface PrefixPeriod {
+  /** YYYY-MM, or YYYY-MM-DD when the whole history fits in one month */
+  readonly period: string;
+  /** Prefix → commits; non-conventional commits count under NON_CONVENTIONAL_KEY */
+  readonly counts: Record<string, number>;
+}
+
+/**
+ * Everything a reporter renders
+ */
+export interface ReportInput {
+  readonly summary: AnalysisSummary;
+  readonly commits: ReportCommit[];
+  /** Oldest period first */
+  readonly timeline: PrefixPeriod[];
+  readonly recommendations: string[];
+}
+
+/**
+ * Renders a report in one format. Register new formats with ReportService.register.
+ */
+export interface Reporter {
+  readonly format: ReportFormat;
+  render(input: ReportInput): string;
+}
+
+/**
+ * Key non-conventional commits are counted under in PrefixPeriod.counts
+ */
+export const NON_CONVENTIONAL_KEY = 'non-conventional';
+
+/**
+ * Prefixes that appear in a timeline, most used first and non-conventional last
+ */
+export function getTimelinePrefixes(timeline: PrefixPeriod[]): string[] {
+  const totals: Record<string, number> = {};
+  timeline.forEach(({ counts }) =>
+    Object.entries(counts).forEach(([prefix, count]) => {
+      totals[prefix] = (totals[prefix] ?? 0) + count;
+    })
+  );
+
+  return Object.entries(totals)
+    .sort(([a, countA], [b, countB]) =>
+      a === NON_CONVENTIONAL_KEY ? 1 : b === NON_CONVENTIONAL_KEY ? -1 : countB - countA
+    )
+    .map(([prefix]) => prefix);
+}
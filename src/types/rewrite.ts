@@ -0,0 +1,90 @@
+/**
+ * History rewrite type definitions
+ */
+
+import type { CommitMetadata } from '../git/GitInterface';
+import type { SerializableTransformRule } from './rules';
+
+/**
+ * A commit whose subject line will be replaced
+ */
+export interface RewriteEntry {
+  readonly hash: string;
+  readonly originalSubject: string;
+  readonly newSubject: string;
+}
+
+/**
+ * Everything needed to rewrite and then verify a range of history
+ */
+export interface RewritePlan {
+  readonly range: string;
+  readonly entries: RewriteEntry[];
+  readonly snapshot: CommitMetadata[];
+}
+
+/**
+ * Outcome of a history rewrite
+ */
+export interface RewriteResult {
+  readonly plan: RewritePlan;
+  readonly applied: boolean;
+  readonly commitMap: Record<string, string>;
+  readonly backupBranch?: string;
+  readonly branchName?: string;
+}
+
+/**
+ * What produced a proposed message: a generated rule, the fallback to the
+ * model-suggested prefix, or nothing (message left as it is)
+ */
+export type ProposalSource = 'rule' | 'model' | 'none';
+
+/**
+ * Original and proposed message for one commit in a dry run
+ */
+export interface RewriteProposal {
+  readonly hash: string;
+  readonly originalMessage: string;
+  readonly proposedMessage: string;
+  readonly source: ProposalSource;
+  readonly rule?: SerializableTransformRule;
+  readonly conformingPrefix?: string;
+  readonly suggestedPrefix?: string;
+  readonly reason?: string;
+}
+
+export interface DryRunSummary {
+  readonly totalCommits: number;
+  readonly proposedRewrites: number;
+  readonly byRule: number;
+  readonly byModel: number;
+  readonly alreadyConventional: number;
+  readonly unresolved: number;
+  readonly conflicts: number;
+}
+
+/**
+ * Machine-readable dry-run report, written for review before a rewrite
+ */
+export interface DryRunReport {
+  readonly version: string;
+  readonly generatedAt: string;
+  readonly repoPath: string;
+  readonly summary: DryRunSummary;
+  readonly proposals: RewriteProposal[];
+}
+
+/**
+ * History rewrite errors, including failed post-rewrite verification
+ */
+export class RewriteError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[] = [],
+    public readonly backupBranch?: string
+  ) {
+    super(message);
+    this.name = 'RewriteError';
+  }
+}
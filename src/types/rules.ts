@@ -6,6 +6,8 @@ export interface TransformRule {
   readonly pattern: RegExp;
   readonly replacement: string;
   readonly reason: string;
+  /** Set only on the rule built from the model-suggested prefix; never serialized */
+  readonly fallback?: boolean;
 }
 
 /**
@@ -0,0 +1,44 @@
+/**
+ * Commit message suggestion type definitions
+ */
+
+import type { ConventionalPrefix } from './rules';
+
+/**
+ * A file in the index, with the category used to summarize it
+ */
+export interface StagedFile {
+  readonly status: 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'changed';
+  readonly path: string;
+  readonly category: string;
+}
+
+/**
+ * The changes staged for the next commit
+ */
+export interface StagedChanges {
+  readonly files: StagedFile[];
+  /** File list, change counts and a sample of the patch, as the model sees them */
+  readonly summary: string;
+}
+
+/**
+ * A proposed conventional commit message
+ */
+export interface CommitSuggestion {
+  readonly type: ConventionalPrefix;
+  readonly scope?: string;
+  readonly subject: string;
+  readonly body?: string;
+  /** model when the classification model wrote it, fallback when derived from file categories */
+  readonly source: 'model' | 'fallback';
+}
+
+/**
+ * Render a suggestion as a commit message: header, blank line, body
+ */
+export function formatCommitSuggestion(suggestion: CommitSuggestion): string {
+  const scope = suggestion.scope !== undefined ? `(${suggestion.scope})` : '';
+  const header = `${suggestion.type}${scope}: ${suggestion.subject}`;
+  return suggestion.body !== undefined ? `${header}\n\n${suggestion.body}` : header;
+}
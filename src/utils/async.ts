@@ -17,7 +17,8 @@ export async function retryWithBackoff<T>(
   maxRetries: number = 3,
   baseDelay: number = 1000,
   backoffFactor: number = 2,
-  maxDelay: number = 10000
+  maxDelay: number = 10000,
+  shouldRetry: (error: Error) => boolean = () => true
 ): Promise<T> {
   let lastError: Error | undefined;
 
@@ -27,7 +28,7 @@ export async function retryWithBackoff<T>(
     } catch (error) {
       lastError = error as Error;
 
-      if (attempt === maxRetries) {
+      if (attempt === maxRetries || !shouldRetry(lastError)) {
         throw lastError;
       }
 
@@ -52,11 +53,16 @@ export async function withTimeout<T>(
   timeoutMs: number,
   timeoutMessage: string = 'Operation timed out'
 ): Promise<T> {
+  let timeoutId: NodeJS.Timeout | undefined;
   const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => reject(new Error(timeoutMessage)), timeoutMs);
+    timeoutId = setTimeout(() => reject(new Error(timeoutMessage)), timeoutMs);
   });
 
-  return Promise.race([promise, timeoutPromise]);
+  try {
+    return await Promise.race([promise, timeoutPromise]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
 }
 
 /**
@@ -2,219 +2,444 @@
  * CLI utilities for parsing command line arguments and displaying help
  */
 
-import type { CliArguments } from '../types/cli';
+import readline from 'readline/promises';
+import {
+  type CliArguments,
+  type Command,
+  type CommandContext,
+  type CommandDefinition,
+  type CommandOption,
+  type HelpSection,
+  CliValidationError,
+} from '../types/cli';
+import {
+  COMMANDS,
+  GLOBAL_OPTIONS,
+  findCommandByWords,
+  formatCommandUsage,
+  getCommand,
+  getCommandOptions,
+} from './commands';
 
 /**
- * Parse command line arguments
+ * Parse command line arguments into the command to run and its arguments.
+ * The command comes from leading words (gca cache query FILE), a legacy flag
+ * (gca --list-caches) or defaults to analyze (gca REPO_PATH).
  */
-export function parseCommandLineArgs(): CliArguments {
-  const args = process.argv.slice(2);
+export function parseCommandLine(argv: readonly string[] = process.argv.slice(2)): CommandContext {
+  const args = argv.filter((arg) => arg.length > 0);
   const result: Record<string, unknown> = {};
+  const positionals: string[] = [];
 
-  for (let i = 0; i < args.length; i++) {
-    const arg = args[i];
+  // Subcommands come before any option; try the longest match first
+  let definition: CommandDefinition | undefined;
+  let start = 0;
+  for (const length of [2, 1]) {
+    definition = findCommandByWords(args.slice(0, length));
+    if (definition !== undefined) {
+      start = length;
+      break;
+    }
+  }
+  const firstWord = args[0];
+  if (
+    definition === undefined &&
+    firstWord !== undefined &&
+    COMMANDS.some((candidate) => candidate.words.length > 1 && candidate.words[0] === firstWord)
+  ) {
+    throw new CliValidationError(
+      `Unknown command: ${args.slice(0, 2).join(' ')}`,
+      'command',
+      args[1]
+    );
+  }
+
+  const legacy = definition === undefined ? findLegacyCommand(args) : undefined;
+  const explicit = definition ?? legacy;
+  const command = explicit ?? getCommand('analyze');
 
-    if (arg === undefined || arg.length === 0) continue;
+  const known = new Map<string, CommandOption>();
+  for (const option of COMMANDS.flatMap(getCommandOptions)) {
+    known.set(option.flag, option);
+    if (option.alias !== undefined) known.set(option.alias, option);
+  }
+  const applicable = getCommandOptions(command);
 
+  for (let i = start; i < args.length; i++) {
+    const arg = args[i] ?? '';
     const nextArg = args[i + 1];
     const hasValue = nextArg !== undefined && !nextArg.startsWith('-');
 
-    if (arg === '--help' || arg === '-h') {
-      result['help'] = true;
-    } else if (arg === '--max-commits' || arg === '-m') {
-      if (hasValue) {
-        result['maxCommits'] = parseInt(nextArg, 10);
-        i++;
-      }
-    } else if (arg === '--max-process' || arg === '-p') {
-      if (hasValue) {
-        result['maxProcess'] = parseInt(nextArg, 10);
+    if (legacy?.legacyFlags?.includes(arg) === true) {
+      // A value after a legacy flag is the command's first argument: --cache-info FILE
+      const [firstArgument] = legacy.arguments;
+      if (firstArgument !== undefined && hasValue && result[firstArgument.key] === undefined) {
+        result[firstArgument.key] = nextArg;
         i++;
       }
-    } else if (arg === '--batch-size' || arg === '-b') {
-      if (hasValue) {
-        result['batchSize'] = parseInt(nextArg, 10);
-        i++;
-      }
-    } else if (arg === '--concurrency' || arg === '-c') {
-      if (hasValue) {
-        result['concurrency'] = parseInt(nextArg, 10);
-        i++;
-      }
-    } else if (arg === '--synthetic-test' || arg === '-t') {
-      result['syntheticTest'] = true;
-    } else if (arg === '--rewrite' || arg === '-r') {
-      result['rewrite'] = true;
-    } else if (arg === '--dry-run' || arg === '-d') {
-      result['dryRun'] = true;
-    } else if (arg === '--no-backup') {
-      result['backup'] = false;
-    } else if (arg === '--no-interactive') {
-      result['interactive'] = false;
-    } else if (arg === '--branch' || arg === '-B') {
-      if (hasValue) {
-        result['branchName'] = nextArg;
-        i++;
-      }
-    } else if (arg === '--generate-guide' || arg === '-g') {
-      result['generateGuide'] = true;
-    } else if (arg === '--include-guide') {
-      result['includeGuide'] = true;
-    } else if (arg === '--login') {
-      result['login'] = true;
-    } else if (arg === '--logout') {
-      result['logout'] = true;
-    } else if (arg === '--status') {
-      result['status'] = true;
-    } else if (arg === '--restore') {
-      if (hasValue) {
-        result['restore'] = nextArg;
-        i++;
+      continue;
+    }
+
+    // Commands may describe a shared flag differently, e.g. --dry-run
+    const option =
+      applicable.find((candidate) => candidate.flag === arg || candidate.alias === arg) ??
+      known.get(arg);
+    if (option === undefined) {
+      if (!arg.startsWith('-')) {
+        positionals.push(arg);
+      } else if (COMMANDS.some((candidate) => candidate.legacyFlags?.includes(arg) === true)) {
+        console.warn(`⚠️  Ignoring ${arg}: only one command runs at a time`);
       } else {
-        result['restore'] = true;
-      }
-    } else if (arg === '--import-cache') {
-      if (hasValue) {
-        result['importCache'] = nextArg;
-        i++;
-      }
-    } else if (arg === '--export-cache') {
-      if (hasValue) {
-        result['exportCache'] = nextArg;
-        i++;
-      }
-    } else if (arg === '--list-caches') {
-      result['listCaches'] = true;
-    } else if (arg === '--cache-info') {
-      if (hasValue) {
-        result['cacheInfo'] = nextArg;
-        i++;
-      }
-    } else if (arg === '--validate-cache') {
-      if (hasValue) {
-        result['validateCache'] = nextArg;
-        i++;
-      }
-    } else if (arg === '--check-compatibility') {
-      if (hasValue) {
-        result['checkCompatibility'] = nextArg;
-        i++;
-      }
-    } else if (arg === '--clean-cache') {
-      result['cleanCache'] = true;
-    } else if (arg === '--older-than') {
-      if (hasValue) {
-        result['olderThan'] = nextArg;
-        i++;
-      }
-    } else if (arg === '--ignore-cache') {
-      result['ignoreCache'] = true;
-    } else if (arg === '--clear-cache') {
-      result['clearCache'] = true;
-    } else if (arg === '--cache-only') {
-      result['cacheOnly'] = true;
-    } else if (!arg.startsWith('-')) {
-      // First non-flag argument is the repo path
-      if (result['repoPath'] === undefined) {
-        result['repoPath'] = arg;
+        console.warn(`⚠️  Unknown argument: ${arg}`);
       }
-    } else {
-      console.warn(`⚠️  Unknown argument: ${arg}`);
+      continue;
+    }
+
+    const takesValue = option.type !== 'boolean' && hasValue;
+    if (!applicable.includes(option)) {
+      console.warn(`⚠️  ${arg} does not apply to gca ${command.words.join(' ')}; ignoring it`);
+      if (takesValue) i++;
+      continue;
+    }
+
+    if (option.type === 'boolean') {
+      result[option.key] = option.value ?? true;
+    } else if (takesValue) {
+      result[option.key] = option.type === 'number' ? parseInt(nextArg, 10) : nextArg;
+      i++;
+    } else if (option.type === 'optional-string') {
+      result[option.key] = true;
+    }
+  }
+
+  if (command.name === 'help') {
+    const topic = positionals.length > 0 ? findCommandByWords(positionals) : undefined;
+    if (positionals.length > 0 && topic === undefined) {
+      throw new CliValidationError(
+        `Unknown command: ${positionals.join(' ')}`,
+        'command',
+        positionals
+      );
     }
+    return createContext('help', {
+      repoPath: '',
+      ...(topic !== undefined ? { helpTopic: topic.name } : {}),
+    });
+  }
+
+  // Positionals fill the arguments a flag has not already set, in order
+  for (const argument of command.arguments) {
+    if (result[argument.key] === undefined && positionals.length > 0) {
+      result[argument.key] = positionals.shift();
+    }
+  }
+  positionals.forEach((arg) => console.warn(`⚠️  Unexpected argument: ${arg}`));
+
+  const cliArgs = { repoPath: '', ...result, ...command.implies } as unknown as CliArguments;
+  if (cliArgs.help === true) {
+    return createContext('help', {
+      ...cliArgs,
+      ...(explicit !== undefined ? { helpTopic: explicit.name } : {}),
+    });
+  }
+
+  return createContext(command.name, cliArgs);
+}
+
+/**
+ * The first command, in registry order, whose legacy flag appears in the arguments
+ */
+function findLegacyCommand(args: readonly string[]): CommandDefinition | undefined {
+  return COMMANDS.find((definition) =>
+    args.some((arg) => definition.legacyFlags?.includes(arg) === true)
+  );
+}
+
+function createContext(command: Command, args: CliArguments): CommandContext {
+  return {
+    command,
+    args,
+    workingDirectory: process.cwd(),
+    environment: process.env,
+  };
+}
+
+/**
+ * ANSI escape codes for terminal colours
+ */
+export const ANSI_COLORS = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  dim: '\x1b[2m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+} as const;
+
+export type AnsiColor = Exclude<keyof typeof ANSI_COLORS, 'reset'>;
+
+/**
+ * Whether stdout should receive colour codes (a TTY, and NO_COLOR unset)
+ */
+export function supportsColor(): boolean {
+  return process.stdout.isTTY === true && process.env['NO_COLOR'] === undefined;
+}
+
+/**
+ * Wrap text in an ANSI colour when enabled
+ */
+export function colorize(
+  text: string,
+  color: AnsiColor,
+  enabled: boolean = supportsColor()
+): string {
+  return enabled && text.length > 0 ? `${ANSI_COLORS[color]}${text}${ANSI_COLORS.reset}` : text;
+}
+
+let jsonOutput = false;
+
+/**
+ * Reserve stdout for one JSON document: console.log and prompts go to stderr from now on
+ */
+export function useJsonOutput(): void {
+  jsonOutput = true;
+  console.log = console.error;
+  console.info = console.error;
+}
+
+/**
+ * Overwrite the current terminal line with a progress counter; on stderr in JSON mode
+ */
+export function writeProgress(text: string): void {
+  (jsonOutput ? process.stderr : process.stdout).write(`\r${text}`);
+}
+
+/**
+ * Print the JSON document of a command on stdout
+ */
+export function printJson(document: unknown): void {
+  process.stdout.write(`${JSON.stringify(document, null, 2)}\n`);
+}
+
+/**
+ * Ask a yes/no question on the terminal; anything but "y"/"yes" declines.
+ * Always declines when stdin is not a terminal.
+ */
+export async function confirm(question: string): Promise<boolean> {
+  if (process.stdin.isTTY !== true) {
+    console.log(`${question} [y/N] (no terminal, use --no-interactive to skip)`);
+    return false;
+  }
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: jsonOutput ? process.stderr : process.stdout,
+  });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
   }
+}
 
-  // Ensure required repoPath is present or set to empty string
-  if (result['repoPath'] === undefined) {
-    result['repoPath'] = '';
+/**
+ * Ask the user to pick an answer, by name or first letter. Returns null when stdin is not
+ * a terminal or the answer is none of the choices.
+ */
+export async function choose<T extends string>(
+  question: string,
+  choices: readonly T[]
+): Promise<T | null> {
+  const hint = choices.map((choice) => `[${choice.charAt(0)}]${choice.substring(1)}`).join(', ');
+  if (process.stdin.isTTY !== true) {
+    console.log(`${question} ${hint} (no terminal, use --no-interactive to skip)`);
+    return null;
   }
 
-  return result as unknown as CliArguments;
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: jsonOutput ? process.stderr : process.stdout,
+  });
+  try {
+    const answer = (await rl.question(`${question} ${hint}: `)).trim().toLowerCase();
+    return (
+      choices.find(
+        (choice) => answer === choice || (answer !== '' && answer === choice.charAt(0))
+      ) ?? null
+    );
+  } finally {
+    rl.close();
+  }
 }
 
 /**
- * Display usage information
+ * Environment variables listed in the help
+ */
+const ENVIRONMENT_HELP: HelpSection = {
+  title: 'ENVIRONMENT VARIABLES',
+  items: [
+    { flag: 'OPENROUTER_API_KEY', description: 'Your OpenRouter API key (required)' },
+    { flag: 'SYNTHETIC_TEST_MODE', description: "Set to 'true' to enable test mode" },
+    { flag: 'MAX_COMMITS_TO_ANALYZE', description: 'Default max commits to analyze' },
+    { flag: 'MAX_COMMITS_TO_PROCESS', description: 'Default max commits to process' },
+    { flag: 'INITIAL_BATCH_SIZE', description: 'Default initial batch size' },
+    { flag: 'DIFF_CONCURRENCY', description: 'Default concurrency for git operations' },
+    {
+      flag: 'CACHE_LOCATION',
+      description: 'global (default) or cwd to keep caches in the working directory',
+    },
+    {
+      flag: 'CLASSIFICATION_STORE_DIR',
+      description: 'Shared classification store (default: ~/.gca/classifications)',
+    },
+    { flag: 'OUTPUT_JSON', description: "Set to 'true' for the same output as --json" },
+  ],
+};
+
+const HELP_FLAG_WIDTH = 26;
+const HELP_WIDTH = 100;
+
+/**
+ * Display usage information for every command, or for one
  */
-export function printUsage(): void {
+export function printUsage(topic?: Command): void {
+  if (topic !== undefined && topic !== 'help') {
+    printCommandUsage(getCommand(topic));
+    return;
+  }
+
+  const analyze = getCommand('analyze');
+  const defaultExamples = COMMANDS.filter((definition) =>
+    ['analyze', 'rewrite', 'dry-run'].includes(definition.name)
+  ).flatMap((definition) => definition.examples ?? []);
+
   console.log(`
 🔍 Git Commit Analyzer & Rewriter
 
-USAGE:
-  npm start [REPO_PATH] [OPTIONS]
-  node dist/main.js [REPO_PATH] [OPTIONS]
-
-ARGUMENTS:
-  REPO_PATH                 Path to the git repository to analyze
-
-ANALYSIS OPTIONS:
-  -h, --help               Show this help message
-  -m, --max-commits NUM    Maximum commits to analyze (default: all)
-  -p, --max-process NUM    Maximum commits to process for rules (default: all)
-  -b, --batch-size NUM     Initial batch size for API calls (default: 16)
-  -c, --concurrency NUM    Number of concurrent git operations (default: 4)
-  -t, --synthetic-test     Run synthetic tests instead of real analysis
-
-REWRITE OPTIONS:
-  -r, --rewrite            Actually rewrite commit messages (DESTRUCTIVE!)
-  -d, --dry-run            Show what would be changed without making changes
-  --no-backup              Skip creating backup branch (not recommended)
-  --no-interactive         Skip interactive confirmation prompts
-  -B, --branch NAME        Specify target branch name for rewrite
-
-AUTHENTICATION OPTIONS:
-  --login                  Login with OAuth to OpenRouter (stores credentials)
-  --logout                 Logout and clear stored credentials
-  --status                 Show current authentication status
-
-CACHE MANAGEMENT OPTIONS:
-  --restore [FILE]         Restore from cache file (default: .gca-cache.json)
-  --list-caches            List all available cache files
-  --cache-info FILE        Show detailed information about a cache file
-  --validate-cache FILE    Validate cache file compatibility
-  --clear-cache            Delete the default cache file
-  --ignore-cache           Skip cache creation and usage
-
-DOCUMENTATION OPTIONS:
-  -g, --generate-guide     Generate conventional commits guide only
-  --include-guide          Include guide in target repository after analysis
-
-EXAMPLES:
-  # Authentication
-  gca --login                                    # Login with OAuth (recommended)
-  gca --logout                                   # Logout and clear credentials
-  gca --status                                   # Check authentication status
-  
-  # Analysis only (safe)
-  npm start ../my-repo                           # Analyze all commits
-  npm start ../my-repo -m 100                    # Analyze last 100 commits
-  npm start ../my-repo -m 500 -b 32 -c 8        # Custom limits and performance
-  
-  # Rewriting (destructive - use with caution!)
-  npm start ../my-repo --dry-run                 # Preview changes without applying
-  npm start ../my-repo --rewrite                 # Actually rewrite commit messages
-  npm start ../my-repo --rewrite --no-backup    # Rewrite without backup (dangerous!)
-  
-  # Documentation
-  npm start ../my-repo --include-guide           # Analyze and copy guide to repo
-  npm start --generate-guide                     # Generate guide only
-  
-  # Testing
-  npm start -t                                   # Run synthetic tests
-
-SAFETY NOTES:
-  ⚠️  The --rewrite option modifies git history and is DESTRUCTIVE!
-  ⚠️  Always use --dry-run first to preview changes
-  ⚠️  Backup branches are created by default (disable with --no-backup)
-  ⚠️  Only use on repositories you can afford to lose or have backed up
-  ⚠️  Coordinate with your team before rewriting shared repository history
-
-ENVIRONMENT VARIABLES:
-  OPENROUTER_API_KEY       Your OpenRouter API key (required)
-  SYNTHETIC_TEST_MODE      Set to 'true' to enable test mode
-  MAX_COMMITS_TO_ANALYZE   Default max commits to analyze
-  MAX_COMMITS_TO_PROCESS   Default max commits to process
-  INITIAL_BATCH_SIZE       Default initial batch size
-  DIFF_CONCURRENCY         Default concurrency for git operations
-
+${renderHelpSections([
+  {
+    title: 'USAGE',
+    items: [
+      { flag: 'gca [REPO_PATH] [OPTIONS]', description: 'Analyze a repository (gca analyze)' },
+      { flag: 'gca COMMAND [ARGUMENTS] [OPTIONS]', description: 'Run one of the commands below' },
+      { flag: 'gca COMMAND --help', description: 'Show the arguments and options of COMMAND' },
+    ],
+  },
+  {
+    title: 'COMMANDS',
+    items: COMMANDS.map((definition) => ({
+      flag: formatCommandUsage(definition)
+        .replace(/^gca /, '')
+        .replace(/ \[OPTIONS\]$/, ''),
+      description: `${definition.summary}${definition.legacyFlags !== undefined ? ` (or ${definition.legacyFlags.join(', ')})` : ''}`,
+    })),
+  },
+  ...[...analyze.options, GLOBAL_OPTIONS].map(toHelpSection),
+  { title: 'EXAMPLES', items: defaultExamples.map(toExampleItem) },
+  {
+    title: 'SAFETY NOTES',
+    items: (analyze.notes ?? []).map(toNoteItem),
+  },
+  ENVIRONMENT_HELP,
+])}
 For more configuration options, see .env.example
 `);
 }
+
+/**
+ * Display the arguments, options and examples of one command
+ */
+function printCommandUsage(definition: CommandDefinition): void {
+  const usage = [formatCommandUsage(definition)];
+  definition.legacyFlags?.forEach((flag) => {
+    usage.push(formatCommandUsage({ ...definition, words: [flag] }));
+  });
+
+  console.log(`
+🔍 gca ${definition.words.join(' ')}: ${definition.summary}
+
+${renderHelpSections([
+  { title: 'USAGE', items: usage.map((line) => ({ flag: line, description: '' })) },
+  {
+    title: 'ARGUMENTS',
+    items: definition.arguments.map((argument) => ({
+      flag: argument.name,
+      description: argument.description,
+    })),
+  },
+  ...[...definition.options, GLOBAL_OPTIONS].map(toHelpSection),
+  { title: 'EXAMPLES', items: (definition.examples ?? []).map(toExampleItem) },
+  {
+    title: 'SAFETY NOTES',
+    items: (definition.notes ?? []).map(toNoteItem),
+  },
+])}`);
+}
+
+function toHelpSection(group: { title: string; options: readonly CommandOption[] }): HelpSection {
+  return {
+    title: group.title,
+    items: group.options
+      .filter((option) => option.hidden !== true)
+      .map((option) => ({
+        flag: [
+          option.alias !== undefined ? `${option.alias}, ${option.flag}` : option.flag,
+          ...(option.placeholder !== undefined ? [option.placeholder] : []),
+        ].join(' '),
+        description: option.description,
+      })),
+  };
+}
+
+function toExampleItem(example: {
+  description: string;
+  command: string;
+}): HelpSection['items'][number] {
+  return { flag: example.command, description: `# ${example.description}` };
+}
+
+function toNoteItem(note: string): HelpSection['items'][number] {
+  return { flag: `⚠️  ${note}`, description: '' };
+}
+
+/**
+ * Render help sections as aligned, wrapped columns; empty sections are left out
+ */
+export function renderHelpSections(sections: readonly HelpSection[]): string {
+  return sections
+    .filter((section) => section.items.length > 0)
+    .map((section) => {
+      const lines = [`${section.title}:`];
+      for (const item of section.items) {
+        const wrapped = wrapText(item.description, HELP_WIDTH - HELP_FLAG_WIDTH - 2);
+        const indent = ' '.repeat(HELP_FLAG_WIDTH + 2);
+        if (item.flag.length >= HELP_FLAG_WIDTH - 1) {
+          lines.push(`  ${item.flag}`);
+          wrapped.forEach((line) => lines.push(`${indent}${line}`));
+        } else {
+          const [first = '', ...rest] = wrapped;
+          lines.push(`  ${item.flag.padEnd(HELP_FLAG_WIDTH)}${first}`.trimEnd());
+          rest.forEach((line) => lines.push(`${indent}${line}`));
+        }
+      }
+      return lines.join('\n');
+    })
+    .join('\n\n')
+    .concat('\n');
+}
+
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(' ').filter((part) => part.length > 0)) {
+    if (current.length > 0 && current.length + word.length + 1 > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current.length > 0 ? `${current} ${word}` : word;
+    }
+  }
+  return current.length > 0 ? [...lines, current] : lines;
+}
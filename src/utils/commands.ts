@@ -0,0 +1,830 @@
+/**
+ * Command registry: every command the CLI runs, with its arguments, options, validation and help
+ */
+
+import {
+  type CliArguments,
+  type Command,
+  type CommandArgument,
+  type CommandDefinition,
+  type CommandOption,
+  type CommandOptionGroup,
+  EXIT_CODES,
+} from '../types/cli';
+import { ANNOTATION_FORMATS, isAnnotationFormat } from '../types/lint';
+import { REPORT_FORMATS, isReportFormat } from '../types/report';
+import { parseByteSize, parseDuration } from './validation';
+
+const REPO_PATH: CommandArgument = {
+  name: 'REPO_PATH',
+  key: 'repoPath',
+  description: 'Path to the git repository (default: current directory)',
+};
+
+const PREVIEW: CommandOption = {
+  flag: '--dry-run',
+  alias: '-d',
+  key: 'dryRun',
+  type: 'boolean',
+  description: 'Show what would change without changing any files',
+};
+
+const SUGGEST: CommandOption = {
+  flag: '--suggest',
+  key: 'suggest',
+  type: 'boolean',
+  description: "Suggest a corrected message using the transform rules in the repository's cache",
+};
+
+/**
+ * Options every command accepts
+ */
+export const GLOBAL_OPTIONS: CommandOptionGroup = {
+  title: 'GLOBAL OPTIONS',
+  options: [
+    { flag: '--help', alias: '-h', key: 'help', type: 'boolean', description: 'Show help' },
+    {
+      flag: '--json',
+      key: 'json',
+      type: 'boolean',
+      description:
+        'Print one JSON document on stdout (analyze, rewrite, dry-run, status, cache info, cache list) and all other output on stderr',
+    },
+    {
+      flag: '--local-cache',
+      key: 'localCache',
+      type: 'boolean',
+      description:
+        'Keep the cache in the current directory (.gca-cache.json) instead of the global cache directory ($XDG_CACHE_HOME/gca, one per repository)',
+    },
+  ],
+};
+
+const ANALYSIS_OPTIONS: CommandOptionGroup = {
+  title: 'ANALYSIS OPTIONS',
+  options: [
+    {
+      flag: '--max-commits',
+      alias: '-m',
+      key: 'maxCommits',
+      type: 'number',
+      placeholder: 'NUM',
+      description: 'Maximum commits to analyze (default: all)',
+    },
+    {
+      flag: '--max-process',
+      alias: '-p',
+      key: 'maxProcess',
+      type: 'number',
+      placeholder: 'NUM',
+      description: 'Maximum commits to process for rules (default: all)',
+    },
+    {
+      flag: '--batch-size',
+      alias: '-b',
+      key: 'batchSize',
+      type: 'number',
+      placeholder: 'NUM',
+      description: 'Initial batch size for API calls (default: 16)',
+    },
+    {
+      flag: '--concurrency',
+      alias: '-c',
+      key: 'concurrency',
+      type: 'number',
+      placeholder: 'NUM',
+      description: 'Number of concurrent git operations (default: 4)',
+    },
+  ],
+};
+
+const DRY_RUN_OUTPUT: CommandOption = {
+  flag: '--dry-run-output',
+  key: 'dryRunOutput',
+  type: 'string',
+  placeholder: 'FILE',
+  description: 'Write the dry-run report to FILE (default: .gca-dry-run.json)',
+};
+
+const REPORT_OPTIONS: CommandOptionGroup = {
+  title: 'REPORT OPTIONS',
+  options: [
+    {
+      flag: '--report',
+      key: 'report',
+      type: 'string',
+      placeholder: 'FORMAT',
+      description: `Write a report of the analysis (${Object.keys(REPORT_FORMATS).join(', ')})`,
+    },
+    {
+      flag: '--out',
+      key: 'out',
+      type: 'string',
+      placeholder: 'FILE',
+      description: 'Write the report to FILE (default: gca-report.<extension>)',
+    },
+  ],
+};
+
+/**
+ * Check --report and --out, shared by the commands that analyze
+ */
+function validateReportOptions(args: CliArguments): string[] {
+  return [
+    ...(args.report !== undefined && !isReportFormat(args.report)
+      ? [`Invalid --report: ${args.report} (use ${Object.keys(REPORT_FORMATS).join(', ')})`]
+      : []),
+    ...(args.out !== undefined && args.report === undefined ? ['--out needs --report FORMAT'] : []),
+  ];
+}
+
+const REWRITE_SAFETY_OPTIONS: readonly CommandOption[] = [
+  {
+    flag: '--no-backup',
+    key: 'backup',
+    type: 'boolean',
+    value: false,
+    description: 'Skip creating backup branch (not recommended)',
+  },
+  {
+    flag: '--no-interactive',
+    key: 'interactive',
+    type: 'boolean',
+    value: false,
+    description: 'Skip interactive confirmation prompts',
+  },
+  {
+    flag: '--branch',
+    alias: '-B',
+    key: 'branchName',
+    type: 'string',
+    placeholder: 'NAME',
+    description: 'Specify target branch name for rewrite',
+  },
+];
+
+const CACHE_OPTIONS: CommandOptionGroup = {
+  title: 'CACHE OPTIONS',
+  options: [
+    {
+      flag: '--restore',
+      key: 'restore',
+      type: 'optional-string',
+      placeholder: '[FILE]',
+      description:
+        "Restore from cache file (default: the repository's cache); only new or rewritten commits are analyzed if the repository moved on",
+    },
+    {
+      flag: '--ignore-cache',
+      key: 'ignoreCache',
+      type: 'boolean',
+      description: 'Skip cache creation and usage',
+    },
+    {
+      flag: '--cache-only',
+      key: 'cacheOnly',
+      type: 'boolean',
+      description: 'Only use cached results',
+      hidden: true,
+    },
+    {
+      flag: '--force-unlock',
+      key: 'forceUnlock',
+      type: 'boolean',
+      description: 'Remove a cache lock left behind by another run before analyzing',
+    },
+  ],
+};
+
+const DOCUMENTATION_OPTIONS: CommandOptionGroup = {
+  title: 'DOCUMENTATION OPTIONS',
+  options: [
+    {
+      flag: '--include-guide',
+      key: 'includeGuide',
+      type: 'boolean',
+      description: 'Include guide in target repository after analysis',
+    },
+  ],
+};
+
+const REWRITE_SAFETY_NOTES = [
+  'The rewrite modifies git history and is DESTRUCTIVE!',
+  'Always use dry-run first to preview changes',
+  'Backup branches are created by default (disable with --no-backup)',
+  'Only use on repositories you can afford to lose or have backed up',
+  'Coordinate with your team before rewriting shared repository history',
+] as const;
+
+/**
+ * Every command, in the order the help lists them. When several legacy flags are given,
+ * the first command here wins.
+ */
+export const COMMANDS: readonly CommandDefinition[] = [
+  {
+    name: 'analyze',
+    words: ['analyze'],
+    summary: 'Analyze commit messages (the default command)',
+    arguments: [REPO_PATH],
+    options: [
+      ANALYSIS_OPTIONS,
+      {
+        title: 'REWRITE OPTIONS',
+        options: [
+          {
+            flag: '--rewrite',
+            alias: '-r',
+            key: 'rewrite',
+            type: 'boolean',
+            description: 'Actually rewrite commit messages (DESTRUCTIVE!)',
+          },
+          {
+            ...PREVIEW,
+            description: 'Show what would be changed without making changes',
+          },
+          DRY_RUN_OUTPUT,
+          ...REWRITE_SAFETY_OPTIONS,
+        ],
+      },
+      REPORT_OPTIONS,
+      CACHE_OPTIONS,
+      DOCUMENTATION_OPTIONS,
+    ],
+    validate: validateReportOptions,
+    examples: [
+      { description: 'Analyze all commits', command: 'gca ../my-repo' },
+      { description: 'Analyze last 100 commits', command: 'gca ../my-repo -m 100' },
+      { description: 'Custom limits and performance', command: 'gca ../my-repo -m 500 -b 32 -c 8' },
+      { description: 'Continue an interrupted analysis', command: 'gca --restore' },
+      { description: 'Analyze and copy guide to repo', command: 'gca ../my-repo --include-guide' },
+      {
+        description: 'Write an HTML report',
+        command: 'gca ../my-repo --report html --out report.html',
+      },
+    ],
+    notes: REWRITE_SAFETY_NOTES,
+  },
+  {
+    name: 'rewrite',
+    words: ['rewrite'],
+    summary: 'Analyze, then rewrite the commit messages (DESTRUCTIVE!)',
+    arguments: [REPO_PATH],
+    options: [
+      ANALYSIS_OPTIONS,
+      { title: 'REWRITE OPTIONS', options: REWRITE_SAFETY_OPTIONS },
+      REPORT_OPTIONS,
+      CACHE_OPTIONS,
+    ],
+    implies: { rewrite: true },
+    validate: validateReportOptions,
+    examples: [
+      { description: 'Rewrite commit messages', command: 'gca rewrite ../my-repo' },
+      {
+        description: 'Rewrite without backup (dangerous!)',
+        command: 'gca rewrite ../my-repo --no-backup',
+      },
+    ],
+    notes: REWRITE_SAFETY_NOTES,
+  },
+  {
+    name: 'dry-run',
+    words: ['dry-run'],
+    summary: 'Analyze, then report the rewrites without applying them',
+    arguments: [REPO_PATH],
+    options: [
+      ANALYSIS_OPTIONS,
+      { title: 'DRY-RUN OPTIONS', options: [DRY_RUN_OUTPUT] },
+      REPORT_OPTIONS,
+      CACHE_OPTIONS,
+    ],
+    implies: { dryRun: true },
+    validate: validateReportOptions,
+    examples: [
+      { description: 'Preview changes without applying', command: 'gca dry-run ../my-repo' },
+      {
+        description: 'Preview as a Markdown report for a PR comment',
+        command: 'gca dry-run ../my-repo --report markdown --out rewrites.md',
+      },
+    ],
+  },
+  {
+    name: 'login',
+    words: ['login'],
+    legacyFlags: ['--login'],
+    summary: 'Login with OAuth to OpenRouter (stores credentials)',
+    arguments: [],
+    options: [],
+  },
+  {
+    name: 'logout',
+    words: ['logout'],
+    legacyFlags: ['--logout'],
+    summary: 'Logout and clear stored credentials',
+    arguments: [],
+    options: [],
+  },
+  {
+    name: 'status',
+    words: ['status'],
+    legacyFlags: ['--status'],
+    summary: 'Show current authentication status',
+    arguments: [],
+    options: [],
+  },
+  {
+    name: 'cache-validate',
+    words: ['cache', 'validate'],
+    legacyFlags: ['--validate-cache'],
+    summary: "Check a cache file's integrity and compatibility with REPO_PATH",
+    arguments: [
+      { name: 'FILE', key: 'file', description: 'Cache file to check', required: true },
+      { ...REPO_PATH, description: 'Repository to check against (default: the cached one)' },
+    ],
+    options: [],
+  },
+  {
+    name: 'cache-check',
+    words: ['cache', 'check'],
+    legacyFlags: ['--check-compatibility'],
+    summary: 'Check whether a cache can be restored for REPO_PATH and the current config',
+    arguments: [
+      { name: 'FILE', key: 'file', description: 'Cache file to check', required: true },
+      { ...REPO_PATH, description: 'Repository to check against (default: the cached one)' },
+    ],
+    options: [],
+  },
+  {
+    name: 'cache-migrate',
+    words: ['cache', 'migrate'],
+    legacyFlags: ['--migrate-cache'],
+    summary: 'Upgrade a cache written by an older version',
+    arguments: [
+      { name: 'FILE', key: 'file', description: 'Cache file to upgrade', required: true },
+    ],
+    options: [{ title: 'MIGRATION OPTIONS', options: [PREVIEW] }],
+    examples: [
+      {
+        description: 'Preview the upgrade',
+        command: 'gca cache migrate .gca-cache.json --dry-run',
+      },
+    ],
+  },
+  {
+    name: 'cache-export',
+    words: ['cache', 'export'],
+    legacyFlags: ['--export-cache'],
+    summary: 'Export the cache as a portable bundle (gzip when FILE ends in .gz)',
+    arguments: [
+      { name: 'FILE', key: 'file', description: 'Bundle to write', required: true },
+      REPO_PATH,
+    ],
+    options: [],
+    examples: [
+      {
+        description: 'Bundle the current cache for a teammate',
+        command: 'gca cache export analysis.gca.gz',
+      },
+    ],
+  },
+  {
+    name: 'cache-import',
+    words: ['cache', 'import'],
+    legacyFlags: ['--import-cache'],
+    summary: 'Import a cache bundle for REPO_PATH',
+    arguments: [
+      { name: 'FILE', key: 'file', description: 'Bundle to import', required: true },
+      REPO_PATH,
+    ],
+    options: [],
+    examples: [
+      {
+        description: 'Import a bundle, then continue with gca --restore',
+        command: 'gca cache import analysis.gca.gz ../my-repo',
+      },
+    ],
+  },
+  {
+    name: 'cache-list',
+    words: ['cache', 'list'],
+    legacyFlags: ['--list-caches'],
+    summary: 'List the caches of all repositories with their phase and progress',
+    arguments: [],
+    options: [],
+  },
+  {
+    name: 'cache-clear',
+    words: ['cache', 'clear'],
+    legacyFlags: ['--clear-cache'],
+    summary: "Delete the repository's cache file",
+    arguments: [REPO_PATH],
+    options: [],
+  },
+  {
+    name: 'cache-clean',
+    words: ['cache', 'clean'],
+    legacyFlags: ['--clean-cache'],
+    summary:
+      'Delete cache files in the current directory, REPO_PATH and the global cache directory that are too old or over the size budget',
+    arguments: [REPO_PATH],
+    options: [
+      {
+        title: 'CLEANUP OPTIONS',
+        options: [
+          {
+            flag: '--older-than',
+            key: 'olderThan',
+            type: 'string',
+            placeholder: 'DURATION',
+            description: 'Age limit, e.g. 12h, 7d, 2w (default: 7d)',
+          },
+          {
+            flag: '--max-size',
+            key: 'maxSize',
+            type: 'string',
+            placeholder: 'SIZE',
+            description: 'Size budget, oldest evicted first (default: 100MB)',
+          },
+          PREVIEW,
+        ],
+      },
+    ],
+    validate: (args) => [
+      ...(args.olderThan !== undefined && parseDuration(args.olderThan) === null
+        ? [`Invalid --older-than duration: ${args.olderThan} (use e.g. 12h, 7d, 2w)`]
+        : []),
+      ...(args.maxSize !== undefined && parseByteSize(args.maxSize) === null
+        ? [`Invalid --max-size: ${args.maxSize} (use e.g. 500KB, 100MB, 1GB)`]
+        : []),
+    ],
+    examples: [
+      { description: 'Preview a cleanup', command: 'gca cache clean --older-than 2d --dry-run' },
+    ],
+  },
+  {
+    name: 'cache-info',
+    words: ['cache', 'info'],
+    legacyFlags: ['--cache-info'],
+    summary: 'Show detailed information about a cache file',
+    arguments: [
+      { name: 'FILE', key: 'file', description: "Cache file (default: the repository's cache)" },
+    ],
+    options: [],
+  },
+  {
+    name: 'cache-query',
+    words: ['cache', 'query'],
+    summary: 'List, filter or show the commits recorded in a cache',
+    arguments: [
+      { name: 'FILE', key: 'file', description: "Cache file (default: the repository's cache)" },
+    ],
+    options: [
+      {
+        title: 'QUERY OPTIONS',
+        options: [
+          {
+            flag: '--phase',
+            key: 'phase',
+            type: 'string',
+            placeholder: 'PHASE',
+            description:
+              'Commits whose furthest recorded phase is PHASE (fetching, enriching, classifying, applying_rules)',
+          },
+          {
+            flag: '--prefix',
+            key: 'prefix',
+            type: 'string',
+            placeholder: 'TYPE',
+            description: 'Commits classified with prefix TYPE (e.g. fix, feat)',
+          },
+          {
+            flag: '--conforming',
+            key: 'conforming',
+            type: 'boolean',
+            description: 'Only commits whose message already uses the right prefix',
+          },
+          {
+            flag: '--non-conforming',
+            key: 'conforming',
+            type: 'boolean',
+            value: false,
+            description: 'Only classified commits that need a new prefix',
+          },
+          {
+            flag: '--grep',
+            key: 'grep',
+            type: 'string',
+            placeholder: 'REGEX',
+            description: 'Commits whose message matches REGEX',
+          },
+          {
+            flag: '--hash',
+            key: 'hash',
+            type: 'string',
+            placeholder: 'PREFIX',
+            description: 'Commits whose hash starts with PREFIX',
+          },
+          {
+            flag: '--limit',
+            key: 'limit',
+            type: 'number',
+            placeholder: 'NUM',
+            description: 'Show at most NUM commits',
+          },
+          {
+            flag: '--show',
+            key: 'show',
+            type: 'string',
+            placeholder: 'HASH',
+            description: "Show one commit's classification, reason and enriched diff",
+          },
+          {
+            flag: '--format',
+            key: 'format',
+            type: 'string',
+            placeholder: 'table|json',
+            description: 'Output format (default: table)',
+          },
+        ],
+      },
+    ],
+    validate: (args) => [
+      ...(args.format !== undefined && args.format !== 'table' && args.format !== 'json'
+        ? [`Invalid --format: ${args.format} (use table or json)`]
+        : []),
+      ...(args.limit !== undefined && !(args.limit > 0)
+        ? ['Invalid --limit: use a positive number']
+        : []),
+    ],
+    examples: [
+      {
+        description: 'Debug classifications',
+        command: 'gca cache query --non-conforming --prefix fix',
+      },
+      {
+        description: 'Machine-readable output',
+        command: "gca cache query --grep '^WIP' --format json",
+      },
+      { description: 'One commit with its diff', command: 'gca cache query --show 1a2b3c4d' },
+    ],
+  },
+  {
+    name: 'cache-unlock',
+    words: ['cache', 'unlock'],
+    summary: 'Remove a cache lock left behind by another run',
+    arguments: [REPO_PATH],
+    options: [],
+  },
+  {
+    name: 'store-info',
+    words: ['store', 'info'],
+    legacyFlags: ['--store-info'],
+    summary:
+      'Summarize the shared classification store, or show the stored classifications of commits whose hash starts with HASH',
+    arguments: [{ name: 'HASH', key: 'hash', description: 'Commit hash prefix' }],
+    options: [],
+  },
+  {
+    name: 'store-prune',
+    words: ['store', 'prune'],
+    legacyFlags: ['--prune-store'],
+    summary: 'Remove stored classifications from other models or prompt versions',
+    arguments: [],
+    options: [{ title: 'PRUNE OPTIONS', options: [PREVIEW] }],
+  },
+  {
+    name: 'hook-install',
+    words: ['hook', 'install'],
+    summary: 'Install a commit-msg hook that lints new commit messages',
+    arguments: [REPO_PATH],
+    options: [
+      {
+        title: 'HOOK OPTIONS',
+        options: [
+          {
+            flag: '--prepare-commit-msg',
+            key: 'prepareCommitMsg',
+            type: 'boolean',
+            description:
+              'Also install a prepare-commit-msg hook that adds the format to new messages',
+          },
+          {
+            flag: '--suggest-message',
+            key: 'suggestMessage',
+            type: 'boolean',
+            description:
+              'Install a prepare-commit-msg hook that starts new messages with gca suggest',
+          },
+          SUGGEST,
+        ],
+      },
+    ],
+    examples: [
+      { description: 'Lint commits in a repository', command: 'gca hook install ../my-repo' },
+      {
+        description: 'Lint, suggest fixes and describe the format',
+        command: 'gca hook install --suggest --prepare-commit-msg',
+      },
+      {
+        description: 'Propose a message for every new commit',
+        command: 'gca hook install --suggest-message',
+      },
+    ],
+    notes: [
+      'Existing hooks are kept and run first; gca hook uninstall puts them back',
+      'Skip the check for one commit with git commit --no-verify',
+    ],
+  },
+  {
+    name: 'hook-uninstall',
+    words: ['hook', 'uninstall'],
+    summary: 'Remove the hooks gca installed and restore the ones they replaced',
+    arguments: [REPO_PATH],
+    options: [],
+  },
+  {
+    name: 'hook-check',
+    words: ['hook', 'check'],
+    summary: 'Lint a commit message file, as the commit-msg hook does',
+    arguments: [
+      { name: 'FILE', key: 'file', description: 'Commit message file', required: true },
+      { ...REPO_PATH, description: 'Repository whose cache has the rules for --suggest' },
+    ],
+    options: [
+      {
+        title: 'HOOK OPTIONS',
+        options: [SUGGEST],
+      },
+    ],
+  },
+  {
+    name: 'suggest',
+    words: ['suggest'],
+    summary: 'Propose a conventional commit message for the staged changes',
+    arguments: [REPO_PATH],
+    options: [
+      {
+        title: 'SUGGEST OPTIONS',
+        options: [
+          {
+            flag: '--write',
+            key: 'file',
+            type: 'string',
+            placeholder: 'FILE',
+            description:
+              'Put the message at the top of FILE instead of committing (used by the prepare-commit-msg hook)',
+          },
+          {
+            flag: '--no-interactive',
+            key: 'interactive',
+            type: 'boolean',
+            value: false,
+            description: 'Print only the message, without asking to commit',
+          },
+        ],
+      },
+    ],
+    examples: [
+      { description: 'Review the message and commit', command: 'gca suggest' },
+      {
+        description: 'Commit with the message without reviewing it',
+        command: 'gca suggest --no-interactive | git commit -F -',
+      },
+    ],
+    notes: [
+      'Uses the classification model when OPENROUTER_API_KEY is set, and the staged file categories otherwise',
+    ],
+  },
+  {
+    name: 'lint',
+    words: ['lint'],
+    summary: 'Check the commit messages in a range, e.g. the commits of a pull request',
+    arguments: [
+      {
+        name: 'RANGE',
+        key: 'range',
+        description: 'Commits to check, e.g. origin/main..HEAD',
+        required: true,
+      },
+      REPO_PATH,
+    ],
+    options: [
+      {
+        title: 'LINT OPTIONS',
+        options: [
+          {
+            flag: '--annotations',
+            key: 'annotations',
+            type: 'string',
+            placeholder: 'FORMAT',
+            description: `Print CI annotations (${Object.keys(ANNOTATION_FORMATS).join(', ')}; default: detected on GitHub Actions and GitLab CI)`,
+          },
+          {
+            flag: '--junit',
+            key: 'junit',
+            type: 'string',
+            placeholder: 'FILE',
+            description: 'Write a JUnit XML report with a test case per commit',
+          },
+        ],
+      },
+    ],
+    validate: (args) =>
+      args.annotations !== undefined && !isAnnotationFormat(args.annotations)
+        ? [
+            `Invalid --annotations: ${args.annotations} (use ${Object.keys(ANNOTATION_FORMATS).join(', ')})`,
+          ]
+        : [],
+    examples: [
+      { description: 'Check the commits of a pull request', command: 'gca lint origin/main..HEAD' },
+      {
+        description: 'Publish the results as test results',
+        command: 'gca lint origin/main..HEAD --junit gca-lint.xml',
+      },
+    ],
+    notes: [
+      `Exits with ${EXIT_CODES.LINT_FAILED} when a commit does not follow the conventions`,
+      'Merge, revert, fixup! and squash! commits are not checked',
+    ],
+  },
+  {
+    name: 'generate-guide',
+    words: ['generate-guide'],
+    legacyFlags: ['--generate-guide', '-g'],
+    summary: 'Generate conventional commits guide only',
+    arguments: [],
+    options: [],
+  },
+  {
+    name: 'synthetic-test',
+    words: ['synthetic-test'],
+    legacyFlags: ['--synthetic-test', '-t'],
+    summary: 'Run synthetic tests instead of real analysis',
+    arguments: [],
+    options: [],
+  },
+  {
+    name: 'help',
+    words: ['help'],
+    summary: 'Show help for all commands, or for one (gca help cache query)',
+    arguments: [],
+    options: [],
+  },
+];
+
+/**
+ * Find a command's definition by name
+ */
+export function getCommand(name: Command): CommandDefinition {
+  const definition = COMMANDS.find((candidate) => candidate.name === name);
+  if (definition === undefined) {
+    throw new Error(`Unknown command: ${name}`);
+  }
+  return definition;
+}
+
+/**
+ * The command invoked as `gca <words>`, e.g. ['cache', 'list']
+ */
+export function findCommandByWords(words: readonly string[]): CommandDefinition | undefined {
+  return COMMANDS.find(
+    (definition) =>
+      definition.words.length === words.length &&
+      definition.words.every((word, index) => word === words[index])
+  );
+}
+
+/**
+ * Options a command accepts, including the global ones
+ */
+export function getCommandOptions(definition: CommandDefinition): CommandOption[] {
+  return [...definition.options, GLOBAL_OPTIONS].flatMap((group) => [...group.options]);
+}
+
+/**
+ * Check a command's arguments: required positionals, numbers and the command's own rules
+ */
+export function validateCommand(definition: CommandDefinition, args: CliArguments): string[] {
+  const values = args as unknown as Record<string, unknown>;
+  const missing = definition.arguments
+    .filter((argument) => argument.required === true)
+    .filter((argument) => {
+      const value = values[argument.key];
+      return value === undefined || value === '';
+    })
+    .map((argument) => `Missing ${argument.name}: ${formatCommandUsage(definition)}`);
+  const notNumbers = getCommandOptions(definition)
+    .filter((option) => option.type === 'number' && Number.isNaN(values[option.key]))
+    .map((option) => `Invalid ${option.flag}: expected a number`);
+
+  return [...missing, ...notNumbers, ...(definition.validate?.(args) ?? [])];
+}
+
+/**
+ * One-line usage of a command, e.g. "gca cache validate FILE [REPO_PATH] [OPTIONS]"
+ */
+export function formatCommandUsage(definition: CommandDefinition): string {
+  const argumentNames = definition.arguments.map((argument) =>
+    argument.required === true ? argument.name : `[${argument.name}]`
+  );
+  return ['gca', ...definition.words, ...argumentNames, '[OPTIONS]'].join(' ');
+}
@@ -33,6 +33,36 @@ export async function writeJsonFile(filePath: string, data: unknown): Promise<vo
   await fs.writeFile(resolve(filePath), content, 'utf8');
 }
 
+/**
+ * Write a file by writing a temporary sibling, flushing it to disk and renaming it over the target,
+ * so readers never see a partially written file
+ */
+export async function writeFileAtomic(filePath: string, content: string | Buffer): Promise<void> {
+  const target = resolve(filePath);
+  const tempPath = `${target}.${process.pid}.tmp`;
+
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, target);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Write object to JSON file atomically
+ */
+export async function writeJsonFileAtomic(filePath: string, data: unknown): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+}
+
 /**
  * Read text file
  */
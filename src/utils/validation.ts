@@ -97,6 +97,28 @@ export function isValidConventionalCommit(message: string): boolean {
   return conventionalRegex.test(message);
 }
 
+/**
+ * Heuristic check that a regex pattern cannot backtrack catastrophically.
+ * Rejects quantified groups that contain quantifiers or alternation, and backreferences.
+ */
+export function isSafeRegexPattern(pattern: string, maxLength: number = 500): boolean {
+  if (isNonEmptyString(pattern) === false || pattern.length > maxLength) return false;
+
+  const quantifier = String.raw`(?:[+*]|\{\d+,\d*\})`;
+  const groupBody = String.raw`(?:[^()\\]|\\.)*`;
+  const nestedQuantifier = new RegExp(
+    String.raw`\(${groupBody}${quantifier}${groupBody}\)${quantifier}`
+  );
+  const quantifiedAlternation = new RegExp(String.raw`\(${groupBody}\|${groupBody}\)${quantifier}`);
+  const backreference = /\\[1-9]/;
+
+  return (
+    nestedQuantifier.test(pattern) === false &&
+    quantifiedAlternation.test(pattern) === false &&
+    backreference.test(pattern) === false
+  );
+}
+
 /**
  * Validate configuration object has required properties
  */
@@ -234,6 +256,42 @@ export function isValidPort(port: unknown): port is number {
   return isInteger(port) && isInRange(port, 1, 65535);
 }
 
+/**
+ * Parse a duration such as "90s", "30m", "12h", "7d" or "2w" into milliseconds
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*(s|m|h|d|w)$/i.exec(value.trim());
+  if (match === null) return null;
+
+  const units: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+  };
+  return Number(match[1]) * (units[(match[2] ?? '').toLowerCase()] ?? 0);
+}
+
+/**
+ * Parse a size such as "500KB", "100MB" or "2G" into bytes (a bare number is bytes)
+ */
+export function parseByteSize(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*(b|k|kb|m|mb|g|gb)?$/i.exec(value.trim());
+  if (match === null) return null;
+
+  const units: Record<string, number> = {
+    b: 1,
+    k: 1024,
+    kb: 1024,
+    m: 1024 * 1024,
+    mb: 1024 * 1024,
+    g: 1024 * 1024 * 1024,
+    gb: 1024 * 1024 * 1024,
+  };
+  return Math.round(Number(match[1]) * (units[(match[2] ?? 'b').toLowerCase()] ?? 1));
+}
+
 /**
  * Validate environment variable value
  */
@@ -0,0 +1,119 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface StubRequestBody {
+  model?: string;
+  messages?: Array<{ role: string; content: string }>;
+  [key: string]: unknown;
+}
+
+export interface StubRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: StubRequestBody;
+}
+
+export interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+type Responder = (request: StubRequest, index: number) => StubResponse;
+
+/**
+ * Minimal OpenRouter-compatible HTTP server for exercising the LLM client locally
+ */
+export class StubLLMServer {
+  readonly requests: StubRequest[] = [];
+  private server: http.Server | null = null;
+  private responder: Responder = () => ({ status: 500, body: { error: 'no responder' } });
+
+  static completion(content: string): StubResponse {
+    return {
+      body: {
+        id: 'stub-completion',
+        choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      },
+    };
+  }
+
+  /**
+   * Hashes of the commits a classification request asks about; none for other requests
+   */
+  static hashesIn(request: StubRequest): string[] {
+    const content = String(request.body.messages?.[1]?.content);
+    return [...content.matchAll(/### Commit (\w+)/g)].map((match) => match[1] ?? '');
+  }
+
+  /**
+   * Responder for a whole analysis: no key info, no rules, and every requested commit
+   * classified with the given prefix
+   */
+  static classifyingResponder(prefix: string, reason?: string): Responder {
+    return (request) => {
+      if (request.url.endsWith('/auth/key')) return { status: 404, body: {} };
+
+      const hashes = StubLLMServer.hashesIn(request);
+      if (hashes.length === 0) return StubLLMServer.completion('{"rules":[]}');
+      return StubLLMServer.completion(
+        JSON.stringify({
+          classifications: hashes.map((hash) => ({
+            hash,
+            suggestedPrefix: prefix,
+            ...(reason !== undefined ? { reason } : {}),
+          })),
+        })
+      );
+    };
+  }
+
+  respondWith(responder: Responder): void {
+    this.responder = responder;
+  }
+
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('Stub server is not running');
+    }
+    return `http://127.0.0.1:${address.port}/api/v1/chat/completions`;
+  }
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const request: StubRequest = {
+          method: req.method ?? 'GET',
+          url: req.url ?? '/',
+          headers: req.headers,
+          body: raw.length > 0 ? (JSON.parse(raw) as StubRequestBody) : {},
+        };
+        this.requests.push(request);
+
+        const response = this.responder(request, this.requests.length - 1);
+        res.writeHead(response.status ?? 200, {
+          'Content-Type': 'application/json',
+          ...response.headers,
+        });
+        res.end(typeof response.body === 'string' ? response.body : JSON.stringify(response.body));
+      });
+    });
+
+    await new Promise<void>((resolve) => this.server?.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+    });
+    this.server = null;
+  }
+}
@@ -0,0 +1,66 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export interface TestCommit {
+  message: string;
+  files?: Record<string, string>;
+  committerDate?: string;
+}
+
+/**
+ * Throwaway git repository for tests that need real history
+ */
+export class TestRepository {
+  private constructor(readonly path: string) {}
+
+  static async create(commits: TestCommit[] = []): Promise<TestRepository> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-test-repo-'));
+    const repo = new TestRepository(dir);
+
+    repo.git('init', '-q', '-b', 'main');
+    repo.git('config', 'user.name', 'Test Author');
+    repo.git('config', 'user.email', 'author@example.com');
+    repo.git('config', 'commit.gpgsign', 'false');
+
+    for (const [index, commit] of commits.entries()) {
+      await repo.commit(commit, index);
+    }
+
+    return repo;
+  }
+
+  async commit(commit: TestCommit, index = 0): Promise<string> {
+    const files = commit.files ?? { [`file-${index}.txt`]: `content ${index}\n` };
+    for (const [name, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(this.path, name)), { recursive: true });
+      await fs.writeFile(path.join(this.path, name), content);
+    }
+
+    const date =
+      commit.committerDate ?? `2024-01-${String((index % 28) + 1).padStart(2, '0')}T10:00:00+02:00`;
+    this.git('add', '-A');
+    this.git('commit', '-q', '-m', commit.message, {
+      GIT_AUTHOR_DATE: date,
+      GIT_COMMITTER_DATE: date,
+    });
+
+    return this.git('rev-parse', 'HEAD');
+  }
+
+  git(...args: Array<string | Record<string, string>>): string {
+    const env = args.find((arg): arg is Record<string, string> => typeof arg === 'object');
+    const gitArgs = args.filter((arg): arg is string => typeof arg === 'string');
+
+    return execFileSync('git', gitArgs, {
+      cwd: this.path,
+      encoding: 'utf8',
+      env: { ...process.env, ...env },
+    }).trim();
+  }
+
+  async cleanup(): Promise<void> {
+    await fs.rm(this.path, { recursive: true, force: true });
+  }
+}
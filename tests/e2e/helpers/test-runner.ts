@@ -1,7 +1,9 @@
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
+import path from 'path';
 import { promisify } from 'util';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 export interface AnalysisResult {
   totalCommits: number;
@@ -14,7 +16,41 @@ export interface AnalysisResult {
   exitCode: number;
 }
 
+export interface CliResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
 export class TestRunner {
+  static async runCli(
+    args: string[],
+    options: { cwd?: string; env?: Record<string, string> } = {}
+  ): Promise<CliResult> {
+    try {
+      const { stdout, stderr } = await execFileAsync(
+        'node',
+        [path.resolve('dist/main.js'), ...args],
+        {
+          timeout: 30000,
+          cwd: options.cwd ?? process.cwd(),
+          env: { ...process.env, ...options.env },
+        }
+      );
+      return { stdout, stderr, exitCode: 0 };
+    } catch (error: unknown) {
+      const execError = error as { code?: unknown; stdout?: string; stderr?: string };
+      if (typeof execError.code === 'number') {
+        return {
+          stdout: execError.stdout ?? '',
+          stderr: execError.stderr ?? '',
+          exitCode: execError.code,
+        };
+      }
+      throw error;
+    }
+  }
+
   static async runAnalysis(repositoryPath: string): Promise<AnalysisResult> {
     try {
       const command = `node dist/main.js "${repositoryPath}"`;
@@ -0,0 +1,74 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import { CacheService } from '@/services/CacheService';
+import { GitService } from '@/services/GitService';
+import { RealGitInterface } from '@/git/RealGitInterface';
+import { type GcaCache, CacheError } from '@/types/cache';
+import { DEFAULT_CONFIG } from '@/types/config';
+import { TestRepository } from '../helpers/test-repository';
+
+describe('Cache Bundle E2E Tests', () => {
+  const gitInterface = new RealGitInterface();
+  const cacheService = new CacheService(gitInterface);
+  let repo: TestRepository;
+  let workDir: string;
+  let cache: GcaCache;
+
+  beforeEach(async () => {
+    repo = await TestRepository.create([{ message: 'initial import' }, { message: 'fix typo' }]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-bundle-'));
+
+    cache = await cacheService.createCache(repo.path, {
+      ...DEFAULT_CONFIG,
+      apiKey: 'sk-or-test-key-0123456789',
+    });
+    const commits = await new GitService(gitInterface).getRawCommits(repo.path);
+    cacheService.storeRawCommits(cache, commits);
+  });
+
+  afterEach(async () => {
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  test('should round-trip a compressed bundle and re-home it to the importing repository', async () => {
+    const bundlePath = await cacheService.exportCache(cache, path.join(workDir, 'analysis.gca.gz'));
+
+    const raw = await fs.readFile(bundlePath);
+    const bundle = JSON.parse(gunzipSync(raw).toString('utf8')) as { cache: GcaCache };
+    expect(bundle.cache.metadata.compressionUsed).toBe(true);
+    expect(Object.keys(bundle.cache.metadata.checksums ?? {})).toEqual(['rawCommits']);
+
+    const clone = path.join(workDir, 'clone');
+    const imported = await cacheService.importCache(bundlePath, clone);
+
+    expect(imported.repoPath).toBe(path.resolve(clone));
+    expect(imported.environment.cwd).toBe(process.cwd());
+    expect(imported.repoHash).toBe(cache.repoHash);
+    expect(imported.data.rawCommits).toEqual(cache.data.rawCommits);
+  });
+
+  test('should reject a bundle whose data no longer matches its checksums', async () => {
+    const bundlePath = await cacheService.exportCache(cache, path.join(workDir, 'analysis.json'));
+
+    const bundle = JSON.parse(await fs.readFile(bundlePath, 'utf8')) as { cache: GcaCache };
+    bundle.cache.data.rawCommits?.pop();
+    await fs.writeFile(bundlePath, JSON.stringify(bundle));
+
+    const importing = cacheService.importCache(bundlePath, repo.path);
+    await expect(importing).rejects.toBeInstanceOf(CacheError);
+    await expect(importing).rejects.toThrow('rawCommits');
+  });
+
+  test('should reject files that are not cache bundles', async () => {
+    const notABundle = path.join(workDir, 'cache.json');
+    await fs.writeFile(notABundle, JSON.stringify(cache));
+
+    await expect(cacheService.importCache(notABundle, repo.path)).rejects.toThrow(
+      'not a gca cache bundle'
+    );
+  });
+});
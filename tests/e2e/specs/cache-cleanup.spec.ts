@@ -0,0 +1,111 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CacheService } from '@/services/CacheService';
+import { RealGitInterface } from '@/git/RealGitInterface';
+import { parseByteSize, parseDuration } from '@/utils/validation';
+import { TestRunner } from '../helpers/test-runner';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Cache Cleanup E2E Tests', () => {
+  let service: CacheService;
+  let workDir: string;
+  let globalDir: string;
+
+  const writeCache = async (name: string, size: number, ageMs: number): Promise<string> => {
+    const filePath = path.join(workDir, name);
+    await fs.writeFile(filePath, 'x'.repeat(size));
+    const modified = new Date(Date.now() - ageMs);
+    await fs.utimes(filePath, modified, modified);
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    service = new CacheService(new RealGitInterface());
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-cleanup-'));
+    globalDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-xdg-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+    await fs.rm(globalDir, { recursive: true, force: true });
+  });
+
+  test('should parse durations and sizes', () => {
+    expect(parseDuration('12h')).toBe(12 * 60 * 60 * 1000);
+    expect(parseDuration('7d')).toBe(7 * DAY);
+    expect(parseDuration('7 days')).toBeNull();
+    expect(parseByteSize('100MB')).toBe(100 * 1024 * 1024);
+    expect(parseByteSize('512')).toBe(512);
+    expect(parseByteSize('lots')).toBeNull();
+  });
+
+  test('should remove old caches, then evict the oldest to fit the size budget', async () => {
+    const stale = await writeCache('.gca-cache.json', 1024, 10 * DAY);
+    const older = await writeCache('old.gca-cache.json', 3 * 1024, 2 * DAY);
+    const recent = await writeCache('.gca-cache.backup.json', 2 * 1024, DAY);
+    await writeCache('notes.json', 1024, 30 * DAY);
+    const options = { directories: [workDir], olderThan: 7 * DAY, maxTotalSize: 4 * 1024 };
+
+    const preview = await service.cleanCaches({ ...options, dryRun: true });
+    expect(preview.removed.map((file) => [file.path, file.reason])).toEqual([
+      [stale, 'age'],
+      [older, 'size'],
+    ]);
+    expect(preview.reclaimedBytes).toBe(4 * 1024);
+    expect(preview.remainingBytes).toBe(2 * 1024);
+    expect((await fs.readdir(workDir)).length).toBe(4);
+
+    const report = await service.cleanCaches(options);
+    expect(report.scanned).toBe(3);
+    expect((await fs.readdir(workDir)).sort()).toEqual([path.basename(recent), 'notes.json']);
+  });
+
+  test('should never remove caches locked by a running analysis', async () => {
+    const locked = await writeCache('.gca-cache.json', 1024, 10 * DAY);
+    const backup = await writeCache('.gca-cache.backup.1.json', 1024, 10 * DAY);
+    await service.acquireLock(locked);
+
+    try {
+      const report = await service.cleanCaches({ directories: [workDir], olderThan: DAY });
+      expect(report.removed).toEqual([]);
+      expect(report.skipped.map((file) => file.path).sort()).toEqual([backup, locked].sort());
+    } finally {
+      await service.releaseLock(locked);
+    }
+  });
+
+  test('should clean the working and global cache directories from the command line', async () => {
+    await writeCache('.gca-cache.json', 2048, 3 * DAY);
+    await fs.mkdir(path.join(globalDir, 'gca'));
+    await fs.writeFile(path.join(globalDir, 'gca', 'repo.gca-cache.json'), 'x'.repeat(1024));
+    const modified = new Date(Date.now() - 3 * DAY);
+    await fs.utimes(path.join(globalDir, 'gca', 'repo.gca-cache.json'), modified, modified);
+    const env = { OPENROUTER_API_KEY: '', XDG_CACHE_HOME: globalDir };
+
+    const preview = await TestRunner.runCli(['--clean-cache', '--older-than', '2d', '--dry-run'], {
+      cwd: workDir,
+      env,
+    });
+    expect(preview.exitCode).toBe(0);
+    expect(preview.stdout).toContain('scanned 2 cache files');
+    expect(preview.stdout).toContain('Would reclaim 3KB from 2 files');
+
+    const cleaned = await TestRunner.runCli(['--clean-cache', '--older-than', '2d'], {
+      cwd: workDir,
+      env,
+    });
+    expect(cleaned.stdout).toContain('Reclaimed 3KB from 2 files; 0KB of caches remain');
+    expect(await fs.readdir(workDir)).toEqual([]);
+    expect(await fs.readdir(path.join(globalDir, 'gca'))).toEqual([]);
+
+    const invalid = await TestRunner.runCli(['--clean-cache', '--older-than', 'soon'], {
+      cwd: workDir,
+      env,
+    });
+    expect(invalid.exitCode).toBe(2);
+    expect(invalid.stderr).toContain('Invalid --older-than duration: soon');
+  });
+});
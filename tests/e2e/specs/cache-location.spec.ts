@@ -0,0 +1,130 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CacheService } from '@/services/CacheService';
+import { RealGitInterface } from '@/git/RealGitInterface';
+import { StubLLMServer } from '../helpers/stub-llm-server';
+import { TestRepository } from '../helpers/test-repository';
+import { TestRunner } from '../helpers/test-runner';
+
+describe('Cache Location E2E Tests', () => {
+  const gitInterface = new RealGitInterface();
+  const originalCacheHome = process.env['XDG_CACHE_HOME'];
+  let repo: TestRepository;
+  let workDir: string;
+  let cacheHome: string;
+
+  beforeEach(async () => {
+    repo = await TestRepository.create([{ message: 'initial import' }, { message: 'add docs' }]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-location-'));
+    cacheHome = path.join(workDir, 'xdg');
+    process.env['XDG_CACHE_HOME'] = cacheHome;
+  });
+
+  afterEach(async () => {
+    if (originalCacheHome === undefined) {
+      delete process.env['XDG_CACHE_HOME'];
+    } else {
+      process.env['XDG_CACHE_HOME'] = originalCacheHome;
+    }
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  test('should key the global cache by repository identity', async () => {
+    const service = new CacheService(gitInterface);
+    const cachePath = await service.resolveCachePath(repo.path);
+    expect(path.dirname(cachePath)).toBe(path.join(cacheHome, 'gca'));
+    expect(path.basename(cachePath)).toMatch(/^[0-9a-f]{12}\.gca-cache\.json$/);
+
+    // The same history from a subdirectory or another clone shares the cache
+    await fs.mkdir(path.join(repo.path, 'docs'), { recursive: true });
+    const clone = path.join(workDir, 'clone');
+    execFileSync('git', ['clone', '-q', repo.path, clone]);
+    expect(await service.resolveCachePath(path.join(repo.path, 'docs'))).toBe(cachePath);
+    expect(await service.resolveCachePath(clone)).toBe(cachePath);
+    expect((await service.getRepositoryIdentity(clone))?.source).toBe('root-commit');
+
+    // A different history gets its own cache
+    const other = await TestRepository.create([{ message: 'unrelated start' }]);
+    try {
+      expect(await service.resolveCachePath(other.path)).not.toBe(cachePath);
+    } finally {
+      await other.cleanup();
+    }
+
+    // Explicit paths, the cwd location and non-repositories resolve in the working directory
+    expect(await service.resolveCachePath(repo.path, 'mine.json')).toBe(path.resolve('mine.json'));
+    expect(
+      await new CacheService(gitInterface, { location: 'cwd' }).resolveCachePath(repo.path)
+    ).toBe(path.resolve('.gca-cache.json'));
+    expect(await service.resolveCachePath(workDir)).toBe(path.resolve('.gca-cache.json'));
+  });
+
+  test('should share one cache across working directories and list it', async () => {
+    const server = new StubLLMServer();
+    await server.start();
+    server.respondWith(StubLLMServer.classifyingResponder('chore'));
+    const env = {
+      OPENROUTER_API_KEY: 'sk-or-test-key-0123456789',
+      OPENROUTER_BASE_URL: server.url,
+      CLASSIFICATION_STORE_DIR: '',
+      XDG_CACHE_HOME: cacheHome,
+      MAX_RETRIES: '0',
+      BASE_DELAY: '1',
+    };
+
+    try {
+      expect((await TestRunner.runCli([repo.path], { cwd: workDir, env })).exitCode).toBe(0);
+      expect(await fs.readdir(workDir)).not.toContain('.gca-cache.json');
+
+      // Restoring from inside the repository finds the cache written from elsewhere
+      const restored = await TestRunner.runCli(['--restore'], { cwd: repo.path, env });
+      expect(restored.exitCode).toBe(0);
+      expect(restored.stdout).toContain(`Loaded cache from ${path.join(cacheHome, 'gca')}`);
+
+      // ... and so does a subdirectory of it
+      await fs.mkdir(path.join(repo.path, 'docs'), { recursive: true });
+      const fromSubdirectory = await TestRunner.runCli(['--restore'], {
+        cwd: path.join(repo.path, 'docs'),
+        env,
+      });
+      expect(fromSubdirectory.exitCode).toBe(0);
+
+      const listed = await TestRunner.runCli(['--list-caches'], { cwd: workDir, env });
+      expect(listed.stdout).toContain(`Repo: ${repo.path}`);
+      expect(listed.stdout).toMatch(/Phase: \w+/);
+      expect(listed.stdout).toMatch(/Progress: \d+\/2/);
+
+      // Another clone that moved on by a commit analyzes only that commit
+      const clone = path.join(workDir, 'clone');
+      execFileSync('git', ['clone', '-q', repo.path, clone]);
+      execFileSync('git', [
+        ...['-C', clone, '-c', 'user.name=Test', '-c', 'user.email=test@example.com'],
+        ...['commit', '-q', '--allow-empty', '-m', 'clone work'],
+      ]);
+      const fromClone = await TestRunner.runCli(['--restore'], { cwd: clone, env });
+      expect(fromClone.exitCode).toBe(0);
+      expect(fromClone.stdout).toContain('Incremental update (new commits)');
+      expect(fromClone.stdout).toContain('New commits: 1');
+
+      // The old behaviour keeps the cache in the working directory
+      const local = await TestRunner.runCli([repo.path, '--local-cache'], { cwd: workDir, env });
+      expect(local.exitCode).toBe(0);
+      expect(await fs.readdir(workDir)).toContain('.gca-cache.json');
+
+      // A cache left in the working directory is used until a global one exists
+      await fs.rm(path.join(cacheHome, 'gca'), { recursive: true, force: true });
+      const legacy = await TestRunner.runCli([repo.path, '--restore'], { cwd: workDir, env });
+      expect(legacy.exitCode).toBe(0);
+      expect(legacy.stderr).toContain(
+        `Using the cache in the working directory: ${path.join(workDir, '.gca-cache.json')}`
+      );
+      expect(legacy.stdout).toContain(`Loaded cache from ${path.join(workDir, '.gca-cache.json')}`);
+    } finally {
+      await server.stop();
+    }
+  });
+});
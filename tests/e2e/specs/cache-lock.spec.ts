@@ -0,0 +1,107 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { spawnSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CacheService } from '@/services/CacheService';
+import { RealGitInterface } from '@/git/RealGitInterface';
+import { type CacheLockInfo, type GcaCache, CacheError } from '@/types/cache';
+import { DEFAULT_CONFIG } from '@/types/config';
+import { TestRepository } from '../helpers/test-repository';
+import { TestRunner } from '../helpers/test-runner';
+
+const writeLock = async (lockPath: string, lock: Partial<CacheLockInfo>): Promise<void> => {
+  const now = new Date().toISOString();
+  await fs.writeFile(
+    lockPath,
+    JSON.stringify({
+      pid: process.pid,
+      hostname: os.hostname(),
+      createdAt: now,
+      updatedAt: now,
+      ...lock,
+    })
+  );
+};
+
+describe('Cache Lock E2E Tests', () => {
+  const gitInterface = new RealGitInterface();
+  let repo: TestRepository;
+  let workDir: string;
+  let cachePath: string;
+  let cache: GcaCache;
+
+  beforeEach(async () => {
+    repo = await TestRepository.create([{ message: 'initial import' }]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-lock-'));
+    cachePath = path.join(workDir, 'analysis.json');
+    cache = await new CacheService(gitInterface).createCache(repo.path, {
+      ...DEFAULT_CONFIG,
+      apiKey: 'sk-or-test-key-0123456789',
+    });
+  });
+
+  afterEach(async () => {
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  test('should refuse to save while another run holds the lock', async () => {
+    const first = new CacheService(gitInterface);
+    const second = new CacheService(gitInterface);
+
+    await first.saveCache(cache, cachePath, { silent: true });
+    const lock = JSON.parse(
+      await fs.readFile(first.getLockFilePath(cachePath), 'utf8')
+    ) as CacheLockInfo;
+    expect(lock.pid).toBe(process.pid);
+    expect(first.getLockFilePath(cachePath)).toBe(path.join(workDir, 'analysis.lock'));
+
+    const saving = second.saveCache(cache, cachePath, { silent: true });
+    await expect(saving).rejects.toBeInstanceOf(CacheError);
+    await expect(saving).rejects.toMatchObject({ operation: 'save' });
+
+    await first.releaseLock(cachePath);
+    await expect(second.saveCache(cache, cachePath, { silent: true })).resolves.toBeUndefined();
+  });
+
+  test('should replace stale locks from dead or long-silent runs', async () => {
+    const service = new CacheService(gitInterface);
+    const lockPath = service.getLockFilePath(cachePath);
+
+    const deadPid = spawnSync(process.execPath, ['-e', '']).pid;
+    await writeLock(lockPath, { pid: deadPid });
+    await expect(service.acquireLock(cachePath)).resolves.toBeUndefined();
+    await service.releaseLock(cachePath);
+
+    const longAgo = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+    await writeLock(lockPath, { hostname: 'another-host', createdAt: longAgo, updatedAt: longAgo });
+    await expect(service.acquireLock(cachePath)).resolves.toBeUndefined();
+    await service.releaseLock(cachePath);
+
+    await expect(fs.access(lockPath)).rejects.toThrow();
+  });
+
+  test('should keep backups per cache file', async () => {
+    const service = new CacheService(gitInterface);
+    await service.saveCache(cache, cachePath, { silent: true });
+    await service.saveCache(cache, cachePath, { silent: true });
+
+    expect(service.getBackupFilePath(cachePath)).toBe(path.join(workDir, 'analysis.backup.json'));
+    await expect(fs.access(service.getBackupFilePath(cachePath))).resolves.toBeUndefined();
+  });
+
+  test('should report a held lock and clear it with --force-unlock', async () => {
+    await writeLock(path.join(workDir, '.gca-cache.lock'), { hostname: 'another-host', pid: 4242 });
+    const env = { OPENROUTER_API_KEY: '', CACHE_LOCATION: 'cwd' };
+
+    const blocked = await TestRunner.runCli([repo.path], { cwd: workDir, env });
+    expect(blocked.exitCode).toBe(6);
+    expect(blocked.stderr).toContain('locked by process 4242 on another-host');
+
+    const unlocked = await TestRunner.runCli([repo.path, '--force-unlock'], { cwd: workDir, env });
+    expect(unlocked.exitCode).toBe(0);
+    expect(unlocked.stdout).toContain('Removed cache lock held by process 4242');
+    await expect(fs.access(path.join(workDir, '.gca-cache.lock'))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CacheMigrator } from '@/services/CacheMigrator';
+import { CacheService } from '@/services/CacheService';
+import { RealGitInterface } from '@/git/RealGitInterface';
+import { type GcaCache, CacheError, DEFAULT_CACHE_CONFIG } from '@/types/cache';
+import { DEFAULT_CONFIG } from '@/types/config';
+import { TestRepository } from '../helpers/test-repository';
+import { TestRunner } from '../helpers/test-runner';
+
+describe('Cache Migration E2E Tests', () => {
+  const gitInterface = new RealGitInterface();
+  let repo: TestRepository;
+  let workDir: string;
+  let legacyPath: string;
+  let legacy: GcaCache;
+
+  beforeEach(async () => {
+    repo = await TestRepository.create([{ message: 'initial import' }]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-migration-'));
+    legacyPath = path.join(workDir, 'legacy.json');
+
+    const current = await new CacheService(gitInterface).createCache(repo.path, {
+      ...DEFAULT_CONFIG,
+      apiKey: 'sk-or-test-key-0123456789',
+    });
+    // A 1.0.0 cache: repository path as typed on the command line and no checksums
+    legacy = {
+      ...current,
+      version: '1.0.0',
+      repoPath: path.basename(repo.path),
+      environment: { ...current.environment, cwd: path.dirname(repo.path) },
+      data: { rawCommits: [{ hash: 'abc1234', message: 'initial import' }] },
+    };
+    await fs.writeFile(legacyPath, JSON.stringify(legacy, null, 2));
+  });
+
+  afterEach(async () => {
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  test('should upgrade a 1.0.0 cache step by step and describe the changes', () => {
+    const result = new CacheMigrator().migrate(legacy);
+
+    expect(result.fromVersion).toBe('1.0.0');
+    expect(result.toVersion).toBe(DEFAULT_CACHE_CONFIG.version);
+    expect(result.steps.map((step) => `${step.from}→${step.to}`)).toEqual(['1.0.0→1.1.0']);
+    expect(result.cache.repoPath).toBe(repo.path);
+    expect(Object.keys(result.cache.metadata.checksums ?? {})).toEqual(['rawCommits']);
+    expect(result.changes).toContain('~ version: "1.0.0" → "1.1.0"');
+    expect(result.changes).toContain('+ metadata.checksums');
+  });
+
+  test('should refuse versions without a migration path', () => {
+    const migrator = new CacheMigrator();
+
+    expect(() => migrator.migrate({ ...legacy, version: '0.9.0' })).toThrow(CacheError);
+    expect(() => migrator.migrate({ ...legacy, version: '9.0.0' })).toThrow(
+      'No migration path from cache version 9.0.0'
+    );
+  });
+
+  test('should migrate a cache file in place and keep the original', async () => {
+    const service = new CacheService(gitInterface);
+    const original = await fs.readFile(legacyPath, 'utf8');
+
+    const preview = await service.migrateCacheFile(legacyPath, { dryRun: true });
+    expect(preview?.changes.length).toBeGreaterThan(0);
+    expect(await fs.readFile(legacyPath, 'utf8')).toBe(original);
+
+    const migration = await service.migrateCacheFile(legacyPath);
+    expect(migration?.backupPath).toBe(path.join(workDir, 'legacy.v1.0.0.json'));
+    expect(await fs.readFile(path.join(workDir, 'legacy.v1.0.0.json'), 'utf8')).toBe(original);
+    expect((await service.loadCache(legacyPath))?.version).toBe(DEFAULT_CACHE_CONFIG.version);
+    await expect(fs.access(service.getLockFilePath(legacyPath))).rejects.toThrow();
+
+    expect(await service.migrateCacheFile(legacyPath)).toBeNull();
+  });
+
+  test('should load older caches transparently', async () => {
+    const loaded = await new CacheService(gitInterface).loadCache(legacyPath);
+
+    expect(loaded?.version).toBe(DEFAULT_CACHE_CONFIG.version);
+    expect(loaded?.data.rawCommits).toEqual(legacy.data.rawCommits);
+  });
+
+  test('should preview a migration from the command line', async () => {
+    const result = await TestRunner.runCli(['--migrate-cache', legacyPath, '--dry-run'], {
+      cwd: workDir,
+      env: { OPENROUTER_API_KEY: '' },
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('Cache migration 1.0.0 → 1.1.0');
+    expect(result.stdout).toContain('+ metadata.checksums');
+    expect(result.stdout).toContain('Dry run: no files were changed');
+    expect(JSON.parse(await fs.readFile(legacyPath, 'utf8'))).toMatchObject({ version: '1.0.0' });
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CacheInspector } from '@/services/CacheInspector';
+import { CacheService } from '@/services/CacheService';
+import { RealGitInterface } from '@/git/RealGitInterface';
+import type { CachedCommitEntry, GcaCache } from '@/types/cache';
+import { DEFAULT_CONFIG } from '@/types/config';
+import { TestRepository } from '../helpers/test-repository';
+import { TestRunner } from '../helpers/test-runner';
+
+describe('Cache Query E2E Tests', () => {
+  const gitInterface = new RealGitInterface();
+  let repo: TestRepository;
+  let workDir: string;
+  let cachePath: string;
+  let cache: GcaCache;
+
+  beforeEach(async () => {
+    repo = await TestRepository.create([{ message: 'initial import' }]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-query-'));
+    cachePath = path.join(workDir, 'analysis.json');
+
+    const service = new CacheService(gitInterface);
+    cache = await service.createCache(repo.path, {
+      ...DEFAULT_CONFIG,
+      apiKey: 'sk-or-test-key-0123456789',
+    });
+    const diff = (file: string): string => `diff --git a/${file} b/${file}\n+changed`;
+    cache.data.rawCommits = [
+      { hash: 'aaa1111', message: 'fix: handle empty input' },
+      { hash: 'bbb2222', message: 'Fixed crash on startup' },
+      { hash: 'ccc3333', message: 'WIP docs' },
+      { hash: 'ddd4444', message: 'bump deps' },
+    ];
+    cache.data.enrichedCommits = [
+      { hash: 'aaa1111', message: 'fix: handle empty input', diff: diff('parser.ts') },
+      { hash: 'bbb2222', message: 'Fixed crash on startup', diff: diff('main.ts') },
+      { hash: 'ccc3333', message: 'WIP docs', diff: diff('README.md') },
+    ];
+    cache.data.classifiedCommits = [
+      {
+        ...cache.data.enrichedCommits[0]!,
+        conformingPrefix: 'fix',
+        reason: 'Already a fix',
+      },
+      {
+        ...cache.data.enrichedCommits[1]!,
+        suggestedPrefix: 'fix',
+        reason: 'Repairs a startup crash',
+      },
+    ];
+    cache.data.finalCommits = [
+      cache.data.classifiedCommits[0]!,
+      { ...cache.data.classifiedCommits[1]!, message: 'fix: crash on startup' },
+    ];
+    await service.saveCache(cache, cachePath, { silent: true });
+    await service.releaseLock(cachePath);
+  });
+
+  afterEach(async () => {
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const query = (args: string[]): ReturnType<typeof TestRunner.runCli> =>
+    TestRunner.runCli(['cache', 'query', cachePath, ...args], {
+      cwd: workDir,
+      env: { OPENROUTER_API_KEY: '', NO_COLOR: '1' },
+    });
+
+  const hashesOf = (output: string): string[] =>
+    (JSON.parse(output) as CachedCommitEntry[]).map((entry) => entry.hash);
+
+  test('should merge every data section into one entry per commit', () => {
+    const inspector = new CacheInspector();
+    const entries = inspector.listCommits(cache);
+
+    expect(entries.map((entry) => [entry.hash, entry.phase])).toEqual([
+      ['aaa1111', 'applying_rules'],
+      ['bbb2222', 'applying_rules'],
+      ['ccc3333', 'enriching'],
+      ['ddd4444', 'fetching'],
+    ]);
+    expect(entries[1]).toMatchObject({
+      message: 'Fixed crash on startup',
+      finalMessage: 'fix: crash on startup',
+      suggestedPrefix: 'fix',
+    });
+    expect(entries[0]).not.toHaveProperty('finalMessage');
+
+    expect(inspector.query(cache, { conforming: false }).map((entry) => entry.hash)).toEqual([
+      'bbb2222',
+    ]);
+    expect(inspector.query(cache, { prefix: 'FIX', limit: 1 }).map((entry) => entry.hash)).toEqual([
+      'aaa1111',
+    ]);
+  });
+
+  test('should filter cached commits from the command line as JSON', async () => {
+    const nonConforming = await query(['--non-conforming', '--format', 'json']);
+    expect(nonConforming.exitCode).toBe(0);
+    expect(hashesOf(nonConforming.stdout)).toEqual(['bbb2222']);
+    expect(nonConforming.stdout).not.toContain('diff --git');
+
+    expect(hashesOf((await query(['--grep', '^(WIP|bump)', '--format', 'json'])).stdout)).toEqual([
+      'ccc3333',
+      'ddd4444',
+    ]);
+    expect(hashesOf((await query(['--phase', 'fetching', '--format', 'json'])).stdout)).toEqual([
+      'ddd4444',
+    ]);
+    expect(hashesOf((await query(['--hash', 'CCC', '--format', 'json'])).stdout)).toEqual([
+      'ccc3333',
+    ]);
+  });
+
+  test('should print a table and show one commit with its reason and diff', async () => {
+    const table = await query(['--prefix', 'fix']);
+    expect(table.exitCode).toBe(0);
+    expect(table.stdout).toMatch(/bbb2222\s+│ applying_rules\s+│ fix\s+│ non-conforming\s+│ Fixed/);
+    expect(table.stdout).toContain('2 of 4 cached commits shown');
+
+    const shown = await query(['--show', 'bbb']);
+    expect(shown.exitCode).toBe(0);
+    expect(shown.stdout).toContain('Reason:     Repairs a startup crash');
+    expect(shown.stdout).toContain('fix: crash on startup');
+    expect(shown.stdout).toContain('diff --git a/main.ts b/main.ts');
+  });
+
+  test('should reject invalid queries', async () => {
+    const phase = await query(['--phase', 'done']);
+    expect(phase.exitCode).toBe(2);
+    expect(phase.stderr).toContain('Invalid --phase: done');
+
+    const pattern = await query(['--grep', '(unclosed']);
+    expect(pattern.exitCode).toBe(2);
+    expect(pattern.stderr).toContain('Invalid --grep pattern');
+
+    const missing = await query(['--show', 'fff']);
+    expect(missing.exitCode).toBe(1);
+    expect(missing.stderr).toContain('No cached commit matches fff');
+
+    const noCache = await TestRunner.runCli(['cache', 'query', path.join(workDir, 'none.json')], {
+      cwd: workDir,
+      env: { OPENROUTER_API_KEY: '' },
+    });
+    expect(noCache.exitCode).toBe(6);
+  });
+});
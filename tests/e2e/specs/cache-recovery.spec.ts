@@ -0,0 +1,95 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CacheService } from '@/services/CacheService';
+import { RealGitInterface } from '@/git/RealGitInterface';
+import type { GcaCache } from '@/types/cache';
+import { DEFAULT_CONFIG } from '@/types/config';
+import { TestRepository } from '../helpers/test-repository';
+
+describe('Cache Recovery E2E Tests', () => {
+  const gitInterface = new RealGitInterface();
+  let repo: TestRepository;
+  let workDir: string;
+  let cachePath: string;
+  let cache: GcaCache;
+  let service: CacheService;
+
+  const saveAtProgress = async (processedCommits: number): Promise<void> => {
+    cache.progress.processedCommits = processedCommits;
+    await service.saveCache(cache, cachePath, { silent: true });
+  };
+
+  beforeEach(async () => {
+    repo = await TestRepository.create([{ message: 'initial import' }]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-recovery-'));
+    cachePath = path.join(workDir, 'analysis.json');
+    service = new CacheService(gitInterface, { backupCount: 2 });
+    cache = await service.createCache(repo.path, {
+      ...DEFAULT_CONFIG,
+      apiKey: 'sk-or-test-key-0123456789',
+    });
+  });
+
+  afterEach(async () => {
+    await service.releaseLock(cachePath);
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  test('should keep the configured number of rotated backups and no temp files', async () => {
+    for (const processed of [1, 2, 3, 4]) {
+      await saveAtProgress(processed);
+    }
+
+    const progressOf = async (file: string): Promise<number> =>
+      (JSON.parse(await fs.readFile(file, 'utf8')) as GcaCache).progress.processedCommits;
+
+    expect(await progressOf(cachePath)).toBe(4);
+    expect(await progressOf(service.getBackupFilePath(cachePath, 0))).toBe(3);
+    expect(await progressOf(service.getBackupFilePath(cachePath, 1))).toBe(2);
+    expect((await fs.readdir(workDir)).sort()).toEqual([
+      'analysis.backup.1.json',
+      'analysis.backup.json',
+      'analysis.json',
+      'analysis.lock',
+    ]);
+  });
+
+  test('should fall back to the newest valid backup and report what was recovered', async () => {
+    await saveAtProgress(1);
+    await saveAtProgress(2);
+    await saveAtProgress(3);
+    await fs.writeFile(cachePath, '{"version": "1.0.0", "truncat');
+    await fs.writeFile(service.getBackupFilePath(cachePath, 0), '{}');
+
+    const { cache: recovered, report } = await service.recoverCache(cachePath);
+
+    expect(recovered?.progress.processedCommits).toBe(1);
+    expect(report.recoveredFrom).toBe(service.getBackupFilePath(cachePath, 1));
+    expect(report.failures.map((failure) => failure.path)).toEqual([
+      cachePath,
+      service.getBackupFilePath(cachePath, 0),
+    ]);
+    expect(report.failures[1]?.reason).toBe('not a valid cache document');
+    expect((await service.loadCache(cachePath))?.progress.processedCommits).toBe(1);
+
+    // The damaged primary must not be rotated into the backups on the next save
+    await saveAtProgress(5);
+    const backups = await Promise.all(
+      [0, 1].map((index) => fs.readFile(service.getBackupFilePath(cachePath, index), 'utf8'))
+    );
+    expect(backups.some((backup) => backup.includes('"truncat'))).toBe(false);
+    expect((await service.loadCache(cachePath))?.progress.processedCommits).toBe(5);
+  });
+
+  test('should return null when the cache and all backups are damaged', async () => {
+    await saveAtProgress(1);
+    await saveAtProgress(2);
+    await fs.writeFile(cachePath, 'not json');
+    await fs.writeFile(service.getBackupFilePath(cachePath, 0), 'not json either');
+
+    expect(await service.loadCache(cachePath)).toBeNull();
+  });
+});
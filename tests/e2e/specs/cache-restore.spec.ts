@@ -0,0 +1,174 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { StubLLMServer, type StubRequest } from '../helpers/stub-llm-server';
+import { TestRepository } from '../helpers/test-repository';
+import { TestRunner } from '../helpers/test-runner';
+import type { GcaCache } from '@/types/cache';
+
+const { hashesIn } = StubLLMServer;
+const classify = StubLLMServer.classifyingResponder('chore');
+
+describe('Cache Restore E2E Tests', () => {
+  let server: StubLLMServer;
+  let repo: TestRepository;
+  let workDir: string;
+
+  beforeEach(async () => {
+    server = new StubLLMServer();
+    await server.start();
+    repo = await TestRepository.create([
+      { message: 'initial import' },
+      { message: 'update readme' },
+      { message: 'tweak build' },
+      { message: 'misc cleanup' },
+    ]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-restore-'));
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const run = (args: string[]): ReturnType<typeof TestRunner.runCli> =>
+    TestRunner.runCli(args, {
+      cwd: workDir,
+      env: {
+        OPENROUTER_API_KEY: 'sk-or-test-key-0123456789',
+        OPENROUTER_BASE_URL: server.url,
+        CLASSIFICATION_STORE_DIR: path.join(workDir, 'store'),
+        CACHE_LOCATION: 'cwd',
+        INITIAL_BATCH_SIZE: '2',
+        MIN_BATCH_SIZE: '1',
+        SUCCESS_THRESHOLD: '100',
+        MAX_RETRIES: '0',
+        BASE_DELAY: '1',
+      },
+    });
+
+  const classificationRequests = (): StubRequest[] =>
+    server.requests.filter((request) => hashesIn(request).length > 0);
+
+  const readCache = async (): Promise<GcaCache> =>
+    JSON.parse(await fs.readFile(path.join(workDir, '.gca-cache.json'), 'utf8')) as GcaCache;
+
+  test('should checkpoint each batch and resume classification where it stopped', async () => {
+    let classificationCount = 0;
+    server.respondWith((request, index) => {
+      if (hashesIn(request).length > 0 && ++classificationCount > 1) {
+        return { status: 429, body: { error: 'quota exceeded' } };
+      }
+      return classify(request, index);
+    });
+
+    const interrupted = await run([repo.path]);
+    expect(interrupted.exitCode).toBe(5);
+    expect(interrupted.stderr).toContain('--restore');
+
+    const partial = await readCache();
+    expect(partial.progress.phase).toBe('classifying');
+    expect(partial.data.enrichedCommits).toHaveLength(4);
+    expect(partial.data.classifiedCommits).toHaveLength(2);
+    expect(partial.progress.lastProcessedHash).toBe(partial.data.classifiedCommits?.[1]?.hash);
+    expect(partial.batchState?.currentBatchSize).toBe(2);
+
+    const firstBatch = hashesIn(classificationRequests()[0] as StubRequest);
+    server.requests.length = 0;
+    server.respondWith(classify);
+
+    const resumed = await run(['--restore']);
+    expect(resumed.exitCode).toBe(0);
+    expect(resumed.stdout).toContain('Resuming analysis at phase: classifying');
+    expect(resumed.stdout).toContain('2/4 already classified');
+
+    const resumedHashes = classificationRequests().flatMap(hashesIn);
+    expect(resumedHashes).toHaveLength(2);
+    expect(resumedHashes.some((hash) => firstBatch.includes(hash))).toBe(false);
+
+    const complete = await readCache();
+    expect(complete.progress.phase).toBe('complete');
+    expect(complete.data.classifiedCommits?.map((commit) => commit.hash)).toEqual(
+      complete.data.enrichedCommits?.map((commit) => commit.hash)
+    );
+  });
+
+  test('should only analyze new commits when the repository has moved forward', async () => {
+    server.respondWith(classify);
+
+    expect((await run([repo.path])).exitCode).toBe(0);
+    await repo.commit({ message: 'another change' }, 5);
+    const newHash = repo.git('rev-parse', '--short', 'HEAD').trim();
+    server.requests.length = 0;
+
+    const restored = await run(['--restore']);
+    expect(restored.exitCode).toBe(0);
+    expect(restored.stdout).toContain('Incremental update (new commits)');
+    expect(restored.stdout).toContain('New commits: 1');
+    expect(classificationRequests().flatMap(hashesIn)).toEqual([newHash]);
+
+    const updated = await readCache();
+    expect(updated.progress.phase).toBe('complete');
+    expect(updated.repoHash).toBe(repo.git('rev-parse', 'HEAD').trim());
+    expect(updated.data.classifiedCommits?.map((commit) => commit.hash)[0]).toBe(newHash);
+    expect(updated.data.classifiedCommits).toHaveLength(5);
+  });
+
+  test('should reuse classifications for rewritten commits with the same patch', async () => {
+    server.respondWith(classify);
+
+    expect((await run([repo.path])).exitCode).toBe(0);
+    repo.git('commit', '-q', '--amend', '-m', 'fix: clean up leftovers');
+    server.requests.length = 0;
+
+    const restored = await run(['--restore']);
+    expect(restored.exitCode).toBe(0);
+    expect(restored.stdout).toContain('Incremental update (history rewritten)');
+    expect(restored.stdout).toContain('Classifications reused by patch-id: 1');
+    expect(classificationRequests()).toHaveLength(0);
+
+    const amended = (await readCache()).data.classifiedCommits?.[0];
+    expect(amended?.message).toBe('fix: clean up leftovers');
+    expect(amended?.conformingPrefix).toBe('fix');
+    expect(amended?.suggestedPrefix).toBe('chore');
+  });
+
+  test('should pass cached hashes to git as data when looking for removed commits', async () => {
+    server.respondWith(classify);
+
+    expect((await run([repo.path])).exitCode).toBe(0);
+    const marker = path.join(workDir, 'injected');
+    const cache = await readCache();
+    cache.data.rawCommits?.push({ hash: `$(touch ${marker})`, message: 'crafted' });
+    await fs.writeFile(path.join(workDir, '.gca-cache.json'), JSON.stringify(cache));
+    repo.git('commit', '-q', '--amend', '-m', 'fix: clean up leftovers');
+
+    const restored = await run(['--restore']);
+    expect(restored.exitCode).toBe(0);
+    expect(restored.stdout).toContain('Cached commits no longer in history: 2');
+    await expect(fs.access(marker)).rejects.toThrow();
+  });
+
+  test('should refuse to restore when the configuration changed as well', async () => {
+    server.respondWith(classify);
+
+    expect((await run([repo.path])).exitCode).toBe(0);
+    await repo.commit({ message: 'another change' }, 5);
+
+    const restored = await TestRunner.runCli(['--restore'], {
+      cwd: workDir,
+      env: {
+        OPENROUTER_API_KEY: 'sk-or-test-key-0123456789',
+        OPENROUTER_BASE_URL: server.url,
+        CLASSIFICATION_STORE_DIR: path.join(workDir, 'store'),
+        CACHE_LOCATION: 'cwd',
+        INITIAL_BATCH_SIZE: '3',
+      },
+    });
+    expect(restored.exitCode).toBe(6);
+    expect(restored.stdout).toContain('Repository has changed');
+    expect(restored.stdout).toContain('Configuration has changed');
+  });
+});
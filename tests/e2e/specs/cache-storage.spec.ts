@@ -0,0 +1,132 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CacheService } from '@/services/CacheService';
+import { RealGitInterface } from '@/git/RealGitInterface';
+import { type GcaCache, getCacheStatistics } from '@/types/cache';
+import { DEFAULT_CONFIG } from '@/types/config';
+import type { RawCommit } from '@/types/commits';
+import { TestRepository } from '../helpers/test-repository';
+
+const rawCommits = (count: number, subject: string): RawCommit[] =>
+  Array.from({ length: count }, (_, index) => ({
+    hash: index.toString(16).padStart(7, '0'),
+    message: `${subject} number ${index}`,
+  }));
+
+describe('Cache Storage E2E Tests', () => {
+  const gitInterface = new RealGitInterface();
+  let repo: TestRepository;
+  let workDir: string;
+  let cachePath: string;
+  let chunkDir: string;
+  let cache: GcaCache;
+
+  beforeEach(async () => {
+    repo = await TestRepository.create([{ message: 'initial import' }]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-storage-'));
+    cachePath = path.join(workDir, 'analysis.gca-cache.json');
+    chunkDir = path.join(workDir, 'analysis.gca-cache.chunks');
+    cache = await new CacheService(gitInterface).createCache(repo.path, {
+      ...DEFAULT_CONFIG,
+      apiKey: 'sk-or-test-key-0123456789',
+    });
+    cache.data.rawCommits = rawCommits(500, 'update the dependency lock file');
+  });
+
+  afterEach(async () => {
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const chunkFiles = async (): Promise<string[]> => (await fs.readdir(chunkDir)).sort();
+
+  test.each(['gzip', 'brotli'] as const)(
+    'should round-trip a %s compressed cache',
+    async (compression) => {
+      const service = new CacheService(gitInterface, { compression });
+      await service.saveCache(cache, cachePath, { silent: true });
+      await service.releaseLock(cachePath);
+
+      const stored = (await fs.stat(cachePath)).size;
+      expect(stored).toBeLessThan(cache.metadata.cacheSize / 5);
+
+      // Any service reads any compression, whatever it writes itself
+      const loaded = await new CacheService(gitInterface).loadCache(cachePath);
+      expect(loaded?.data.rawCommits).toEqual(cache.data.rawCommits);
+      expect(loaded?.metadata.compression).toBe(compression);
+      expect(loaded?.metadata.storedSize).toBe(stored);
+      expect(getCacheStatistics(loaded as GcaCache).compressionRatio).toBeGreaterThan(5);
+
+      const info = await service.getCacheInfo(cachePath);
+      expect(info?.['stored']).toMatch(
+        new RegExp(`^\\d+KB \\(single, ${compression}, [\\d.]+x smaller\\)$`)
+      );
+    }
+  );
+
+  test('should only rewrite the chunks of sections that changed', async () => {
+    const service = new CacheService(gitInterface, {
+      layout: 'chunked',
+      compression: 'gzip',
+      backupCount: 1,
+    });
+    await service.saveCache(cache, cachePath, { silent: true });
+    const [first] = await chunkFiles();
+    expect(first).toMatch(/^rawCommits\.[0-9a-f]{16}\.json\.gz$/);
+    const written = (await fs.stat(path.join(chunkDir, first ?? ''))).mtimeMs;
+
+    // A progress update only rewrites the small manifest
+    cache.progress.processedCommits = 10;
+    await service.saveCache(cache, cachePath, { silent: true });
+    expect(await chunkFiles()).toEqual([first]);
+    expect((await fs.stat(path.join(chunkDir, first ?? ''))).mtimeMs).toBe(written);
+    expect((await fs.stat(cachePath)).size).toBeLessThan(cache.metadata.storedSize ?? 0);
+
+    // The old chunk stays while the backup still refers to it
+    cache.data.rawCommits = rawCommits(500, 'refresh the generated fixtures');
+    await service.saveCache(cache, cachePath, { silent: true });
+    const changed = await chunkFiles();
+    expect(changed).toHaveLength(2);
+    expect(changed).toContain(first);
+
+    await service.saveCache(cache, cachePath, { silent: true });
+    expect(await chunkFiles()).toEqual(changed.filter((file) => file !== first));
+    await service.releaseLock(cachePath);
+
+    const loaded = await new CacheService(gitInterface).loadCache(cachePath);
+    expect(loaded?.data.rawCommits?.[0]?.message).toBe('refresh the generated fixtures number 0');
+  });
+
+  test('should fall back to a backup when a chunk is corrupted', async () => {
+    const service = new CacheService(gitInterface, { layout: 'chunked', backupCount: 1 });
+    await service.saveCache(cache, cachePath, { silent: true });
+    cache.data.rawCommits = rawCommits(500, 'refresh the generated fixtures');
+    await service.saveCache(cache, cachePath, { silent: true });
+    await service.releaseLock(cachePath);
+
+    const chunk = cache.metadata.chunks?.['rawCommits']?.file ?? '';
+    await fs.writeFile(path.join(workDir, chunk), '[]');
+
+    const { cache: recovered, report } = await service.recoverCache(cachePath);
+    expect(report.recoveredFrom).toBe(service.getBackupFilePath(cachePath, 0));
+    expect(report.failures[0]?.reason).toContain('is corrupted');
+    expect(recovered?.data.rawCommits?.[0]?.message).toBe(
+      'update the dependency lock file number 0'
+    );
+  });
+
+  test('should remove chunks together with the last cache that refers to them', async () => {
+    const service = new CacheService(gitInterface, { layout: 'chunked' });
+    await service.saveCache(cache, cachePath, { silent: true });
+    await service.releaseLock(cachePath);
+    const old = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    await fs.utimes(cachePath, old, old);
+
+    const report = await service.cleanCaches({ directories: [workDir], olderThan: 1000 });
+    expect(report.removed.map((file) => file.path)).toEqual([cachePath]);
+    expect(report.reclaimedBytes).toBe(cache.metadata.storedSize);
+    expect(await fs.readdir(workDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CacheService } from '@/services/CacheService';
+import { RealGitInterface } from '@/git/RealGitInterface';
+import type { GcaCache } from '@/types/cache';
+import { type Config, DEFAULT_CONFIG } from '@/types/config';
+import { TestRepository } from '../helpers/test-repository';
+import { TestRunner } from '../helpers/test-runner';
+
+describe('Cache Validation E2E Tests', () => {
+  const config: Config = { ...DEFAULT_CONFIG, apiKey: 'sk-or-test-key-0123456789' };
+  let service: CacheService;
+  let repo: TestRepository;
+  let workDir: string;
+  let cache: GcaCache;
+
+  beforeEach(async () => {
+    service = new CacheService(new RealGitInterface());
+    repo = await TestRepository.create([{ message: 'initial import' }, { message: 'fix typo' }]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-validation-'));
+    cache = await service.createCache(repo.path, config);
+    service.storeRawCommits(cache, [{ hash: 'abc1234', message: 'fix typo' }]);
+  });
+
+  afterEach(async () => {
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  test('should report a fresh cache as compatible', async () => {
+    const result = await service.validateCache(cache, repo.path, config, { checkIntegrity: true });
+
+    expect(result).toMatchObject({
+      isValid: true,
+      reasons: [],
+      repositoryMismatch: false,
+      repoChanged: false,
+      configChanged: false,
+      changedConfigKeys: [],
+      headIsAncestor: true,
+      integrityIssues: [],
+    });
+    expect(result.currentHead).toBe(cache.repoHash);
+  });
+
+  test('should tell new commits apart from rewritten history', async () => {
+    await repo.commit({ message: 'add feature' }, 3);
+    const movedForward = await service.validateCache(cache, repo.path, config);
+    expect(movedForward.isValid).toBe(false);
+    expect(movedForward.repoChanged).toBe(true);
+    expect(movedForward.headIsAncestor).toBe(true);
+    expect(movedForward.reasons[0]).toContain('new commits on top of cached HEAD');
+
+    repo.git('reset', '-q', '--hard', 'HEAD~2');
+    await repo.commit({ message: 'different history' }, 4);
+    const rewritten = await service.validateCache(cache, repo.path, config);
+    expect(rewritten.headIsAncestor).toBe(false);
+    expect(rewritten.reasons[0]).toContain('it was rewritten');
+  });
+
+  test('should name the configuration keys that changed', async () => {
+    const result = await service.validateCache(cache, repo.path, {
+      ...config,
+      initialBatchSize: 8,
+      classificationModel: 'other/model',
+      maxRetries: 7,
+    });
+
+    expect(result.configChanged).toBe(true);
+    expect(result.changedConfigKeys).toEqual(['classificationModel', 'initialBatchSize']);
+    expect(result.reasons).toContain(
+      'Configuration has changed since cache was created (classificationModel, initialBatchSize)'
+    );
+  });
+
+  test('should only check integrity when asked to', async () => {
+    const cachePath = path.join(workDir, 'cache.json');
+    await service.saveCache(cache, cachePath, { silent: true });
+    await service.releaseLock(cachePath);
+    const saved = JSON.parse(await fs.readFile(cachePath, 'utf8')) as GcaCache;
+    saved.data.rawCommits?.push({ hash: 'def5678', message: 'sneaky edit' });
+
+    expect((await service.validateCache(saved, repo.path, config)).isValid).toBe(true);
+    const checked = await service.validateCache(saved, repo.path, config, { checkIntegrity: true });
+    expect(checked.reasons).toEqual(['Checksum mismatch in data sections: rawCommits']);
+    expect(checked.integrityIssues).toEqual(checked.reasons);
+  });
+
+  test('should never hand a crafted repoHash to a shell', async () => {
+    const marker = path.join(workDir, 'injected');
+    const crafted = { ...cache, repoHash: `$(touch ${marker})` };
+
+    // Validated in memory, the hash reaches git as an argument and resolves to nothing
+    const result = await service.validateCache(crafted, repo.path, config);
+    expect(result.isValid).toBe(false);
+    await expect(fs.access(marker)).rejects.toThrow();
+
+    // Read from disk, the cache is rejected before git sees it
+    const cachePath = path.join(workDir, 'crafted.json');
+    await fs.writeFile(cachePath, JSON.stringify(crafted));
+    const validated = await TestRunner.runCli(['--validate-cache', cachePath, repo.path], {
+      cwd: workDir,
+      env: { OPENROUTER_API_KEY: 'sk-or-test-key-0123456789' },
+    });
+    expect(validated.exitCode).not.toBe(0);
+    await expect(fs.access(marker)).rejects.toThrow();
+    expect(await service.loadCache(cachePath, { silent: true })).toBeNull();
+  });
+
+  test('should exit with the cache error code when a cache is incompatible', async () => {
+    const cachePath = path.join(workDir, 'cache.json');
+    await service.saveCache(cache, cachePath, { silent: true });
+    await service.releaseLock(cachePath);
+    const env = { OPENROUTER_API_KEY: 'sk-or-test-key-0123456789' };
+
+    const compatible = await TestRunner.runCli(['--check-compatibility', cachePath], {
+      cwd: workDir,
+      env,
+    });
+    expect(compatible.exitCode).toBe(0);
+    expect(compatible.stdout).toContain('Cache is compatible');
+
+    await repo.commit({ message: 'add feature' }, 3);
+    const stale = await TestRunner.runCli(['--validate-cache', cachePath, repo.path], {
+      cwd: workDir,
+      env,
+    });
+    expect(stale.exitCode).toBe(6);
+    expect(stale.stdout).toContain('(moved forward)');
+    expect(stale.stderr).toContain('Repository has changed since cache was created');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ClassificationStore } from '@/services/ClassificationStore';
+import { StubLLMServer } from '../helpers/stub-llm-server';
+import { TestRepository } from '../helpers/test-repository';
+import { TestRunner } from '../helpers/test-runner';
+
+describe('Classification Store E2E Tests', () => {
+  let server: StubLLMServer;
+  let repo: TestRepository;
+  let workDir: string;
+  let storeDir: string;
+
+  beforeEach(async () => {
+    server = new StubLLMServer();
+    await server.start();
+    server.respondWith(StubLLMServer.classifyingResponder('chore', 'housekeeping'));
+    repo = await TestRepository.create([
+      { message: 'initial import' },
+      { message: 'update readme' },
+      { message: 'tweak build' },
+    ]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-store-'));
+    storeDir = path.join(workDir, 'store');
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const run = (
+    args: string[],
+    env: Record<string, string> = {}
+  ): ReturnType<typeof TestRunner.runCli> =>
+    TestRunner.runCli([...args, '--ignore-cache'], {
+      cwd: workDir,
+      env: {
+        OPENROUTER_API_KEY: 'sk-or-test-key-0123456789',
+        OPENROUTER_BASE_URL: server.url,
+        CLASSIFICATION_STORE_DIR: storeDir,
+        MAX_RETRIES: '0',
+        BASE_DELAY: '1',
+        ...env,
+      },
+    });
+
+  const classifiedHashes = (): string[] => server.requests.flatMap(StubLLMServer.hashesIn);
+
+  test('should keep results per commit and classifier and prune other classifiers', async () => {
+    const store = new ClassificationStore(storeDir);
+    const hash = 'a'.repeat(40);
+    await store.record(new Map([[hash, { suggestedPrefix: 'fix' }]]), 'model-a@prompt-v1');
+    await store.record(new Map([[hash, { conformingPrefix: 'feat' }]]), 'model-b@prompt-v1');
+
+    expect(store.getRecordPath(hash)).toBe(path.join(storeDir, 'aa', `${'a'.repeat(38)}.json`));
+    expect((await store.lookup([hash], 'model-a@prompt-v1')).get(hash)).toMatchObject({
+      suggestedPrefix: 'fix',
+    });
+    expect((await store.lookup([hash], 'model-a@prompt-v2')).size).toBe(0);
+    expect((await store.find('aaaa'))[0]?.classifications).toHaveProperty('model-b@prompt-v1');
+
+    const preview = await store.prune((classifier) => classifier === 'model-a@prompt-v1', {
+      dryRun: true,
+    });
+    expect(preview).toEqual({ removedEntries: 1, removedCommits: 0, dryRun: true });
+    expect((await store.getStats()).entries).toBe(2);
+
+    await store.prune((classifier) => classifier === 'model-a@prompt-v1');
+    expect(await store.getStats()).toMatchObject({
+      commits: 1,
+      entries: 1,
+      byClassifier: { 'model-a@prompt-v1': 1 },
+    });
+  });
+
+  test('should reuse classifications in another clone and branch', async () => {
+    expect((await run([repo.path])).exitCode).toBe(0);
+    expect(classifiedHashes()).toHaveLength(3);
+
+    const clone = path.join(workDir, 'clone');
+    execFileSync('git', ['clone', '-q', repo.path, clone]);
+    execFileSync('git', ['checkout', '-q', '-b', 'topic'], { cwd: clone });
+    server.requests.length = 0;
+
+    const reused = await run([clone]);
+    expect(reused.exitCode).toBe(0);
+    expect(reused.stdout).toContain('Reusing 3 classifications from the shared store');
+    expect(classifiedHashes()).toHaveLength(0);
+    expect(reused.stdout).toContain('chore: 3 commits');
+  });
+
+  test('should classify again for a different model and prune the old results', async () => {
+    expect((await run([repo.path])).exitCode).toBe(0);
+    server.requests.length = 0;
+
+    expect((await run([repo.path], { AI_CLASSIFICATION_MODEL: 'other/model' })).exitCode).toBe(0);
+    expect(classifiedHashes()).toHaveLength(3);
+
+    const env = { AI_CLASSIFICATION_MODEL: 'other/model' };
+    const info = await run(['--store-info'], env);
+    expect(info.stdout).toContain('Commits: 3');
+    expect(info.stdout).toContain('Classifications: 6');
+    expect(info.stdout).toContain('other/model@prompt-v1: 3 (current)');
+
+    const head = repo.git('rev-parse', 'HEAD');
+    const commit = await run(['--store-info', head.substring(0, 10)], env);
+    expect(commit.stdout).toContain(`🔖 ${head}`);
+    expect(commit.stdout).toContain('reason: housekeeping');
+
+    const pruned = await run(['--prune-store'], env);
+    expect(pruned.stdout).toContain('Removed 3 classifications from other models');
+    expect((await new ClassificationStore(storeDir).getStats()).byClassifier).toEqual({
+      'other/model@prompt-v1': 3,
+    });
+  });
+});
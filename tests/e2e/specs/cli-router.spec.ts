@@ -0,0 +1,127 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { parseCommandLine } from '@/utils/cli';
+import { COMMANDS, getCommand, validateCommand } from '@/utils/commands';
+import { isValidCommand } from '@/types/cli';
+import { TestRunner } from '../helpers/test-runner';
+
+describe('CLI Router E2E Tests', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-router-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const run = (args: string[]): ReturnType<typeof TestRunner.runCli> =>
+    TestRunner.runCli(args, {
+      cwd: workDir,
+      env: {
+        OPENROUTER_API_KEY: '',
+        CACHE_LOCATION: 'cwd',
+        CLASSIFICATION_STORE_DIR: '',
+        XDG_CACHE_HOME: workDir,
+      },
+    });
+
+  test('should register every command once with unique words', () => {
+    const names = COMMANDS.map((definition) => definition.name);
+    expect(new Set(names).size).toBe(names.length);
+    expect(names.every(isValidCommand)).toBe(true);
+
+    const words = COMMANDS.map((definition) => definition.words.join(' '));
+    expect(new Set(words).size).toBe(words.length);
+  });
+
+  test('should resolve subcommands, legacy flags and the default command', () => {
+    expect(parseCommandLine(['cache', 'list'])).toMatchObject({ command: 'cache-list' });
+    expect(parseCommandLine(['--list-caches'])).toMatchObject({ command: 'cache-list' });
+    expect(parseCommandLine(['../repo', '-m', '50'])).toMatchObject({
+      command: 'analyze',
+      args: { repoPath: '../repo', maxCommits: 50 },
+    });
+
+    // A legacy flag's value fills the first argument; later positionals fill the rest
+    expect(parseCommandLine(['--validate-cache', 'cache.json', '../repo']).args).toMatchObject({
+      file: 'cache.json',
+      repoPath: '../repo',
+    });
+    expect(parseCommandLine(['cache', 'validate', 'cache.json', '../repo']).args).toMatchObject({
+      file: 'cache.json',
+      repoPath: '../repo',
+    });
+
+    // Commands imply their mode, and per-command flags keep their meaning
+    expect(parseCommandLine(['rewrite', '../repo', '--no-backup']).args).toMatchObject({
+      rewrite: true,
+      backup: false,
+    });
+    expect(parseCommandLine(['cache', 'clean', '-d']).args).toMatchObject({ dryRun: true });
+    expect(parseCommandLine(['-t'])).toMatchObject({ command: 'synthetic-test' });
+  });
+
+  test('should route help to one command or to all of them', () => {
+    expect(parseCommandLine(['--help']).args.helpTopic).toBeUndefined();
+    expect(parseCommandLine(['cache', 'query', '--help']).args.helpTopic).toBe('cache-query');
+    expect(parseCommandLine(['--cache-info', '-h']).args.helpTopic).toBe('cache-info');
+    expect(parseCommandLine(['help', 'store', 'prune']).args.helpTopic).toBe('store-prune');
+    expect(() => parseCommandLine(['cache', 'nothing'])).toThrow('Unknown command: cache nothing');
+  });
+
+  test('should validate arguments with each command', () => {
+    const validate = (argv: string[]): string[] => {
+      const context = parseCommandLine(argv);
+      return validateCommand(getCommand(context.command), context.args);
+    };
+
+    expect(validate(['cache', 'validate'])).toEqual([
+      'Missing FILE: gca cache validate FILE [REPO_PATH] [OPTIONS]',
+    ]);
+    expect(validate(['../repo', '-m', 'lots'])).toEqual([
+      'Invalid --max-commits: expected a number',
+    ]);
+    expect(validate(['cache', 'query', '--format', 'xml', '--limit', '0'])).toEqual([
+      'Invalid --format: xml (use table or json)',
+      'Invalid --limit: use a positive number',
+    ]);
+    expect(validate(['cache', 'clean', '--older-than', '2d'])).toEqual([]);
+  });
+
+  test('should print generated help for all commands and for one', async () => {
+    const all = await run(['--help']);
+    expect(all.exitCode).toBe(0);
+    expect(all.stdout).toContain('COMMANDS:');
+    for (const definition of COMMANDS) {
+      expect(all.stdout).toContain(definition.summary.split(' ').slice(0, 4).join(' '));
+    }
+    expect(all.stdout).toMatch(/-m, --max-commits NUM\s+Maximum commits to analyze/);
+
+    const one = await run(['cache', 'clean', '--help']);
+    expect(one.exitCode).toBe(0);
+    expect(one.stdout).toContain('gca cache clean [REPO_PATH] [OPTIONS]');
+    expect(one.stdout).toContain('gca --clean-cache [REPO_PATH] [OPTIONS]');
+    expect(one.stdout).toMatch(/--older-than DURATION\s+Age limit/);
+    expect(one.stdout).not.toContain('--max-commits');
+  });
+
+  test('should reject invalid commands and arguments before running anything', async () => {
+    const unknown = await run(['cache', 'nothing']);
+    expect(unknown.exitCode).toBe(2);
+    expect(unknown.stderr).toContain('Unknown command: cache nothing');
+
+    const missing = await run(['cache', 'import']);
+    expect(missing.exitCode).toBe(2);
+    expect(missing.stderr).toContain('Missing FILE');
+    expect(missing.stderr).toContain('gca cache import --help');
+
+    // Options of other commands are reported and ignored
+    const listed = await run(['cache', 'list', '--max-commits', '5']);
+    expect(listed.exitCode).toBe(0);
+    expect(listed.stderr).toContain('--max-commits does not apply to gca cache list');
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CacheService } from '@/services/CacheService';
+import { CommitLinter } from '@/services/CommitLinter';
+import { HookService } from '@/services/HookService';
+import { RealGitInterface } from '@/git/RealGitInterface';
+import { DEFAULT_CONFIG } from '@/types/config';
+import { createTransformRule } from '@/types/rules';
+import { TestRepository } from '../helpers/test-repository';
+import { TestRunner } from '../helpers/test-runner';
+
+describe('Commit Hook E2E Tests', () => {
+  const gitInterface = new RealGitInterface();
+  const originalConfigCount = process.env['GIT_CONFIG_COUNT'];
+  let repo: TestRepository;
+  let workDir: string;
+  let env: Record<string, string>;
+
+  beforeEach(async () => {
+    // Use the repository's own hooks even where core.hooksPath is set for the whole machine
+    process.env['GIT_CONFIG_COUNT'] = '0';
+    repo = await TestRepository.create([{ message: 'chore: initial import' }]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-hook-'));
+    env = {
+      OPENROUTER_API_KEY: '',
+      CACHE_LOCATION: 'cwd',
+      CLASSIFICATION_STORE_DIR: '',
+      XDG_CACHE_HOME: workDir,
+    };
+  });
+
+  afterEach(async () => {
+    if (originalConfigCount === undefined) {
+      delete process.env['GIT_CONFIG_COUNT'];
+    } else {
+      process.env['GIT_CONFIG_COUNT'] = originalConfigCount;
+    }
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const commit = (message: string): { status: number; output: string } => {
+    try {
+      const output = execFileSync('git', ['commit', '-q', '--allow-empty', '-m', message], {
+        cwd: repo.path,
+        encoding: 'utf8',
+        env: { ...process.env, ...env },
+        stdio: 'pipe',
+      });
+      return { status: 0, output };
+    } catch (error) {
+      const failed = error as { status: number; stdout: string; stderr: string };
+      return { status: failed.status, output: failed.stdout + failed.stderr };
+    }
+  };
+
+  test('should chain an existing hook, reject bad messages and restore it on uninstall', async () => {
+    const hooksDir = path.join(repo.path, '.git', 'hooks');
+    const existing = '#!/bin/sh\necho "existing hook ran"\n';
+    await fs.writeFile(path.join(hooksDir, 'commit-msg'), existing, { mode: 0o755 });
+
+    const installed = await TestRunner.runCli(['hook', 'install', '--prepare-commit-msg'], {
+      cwd: repo.path,
+      env,
+    });
+    expect(installed.exitCode).toBe(0);
+    expect(installed.stdout).toContain('Installed commit-msg hook');
+    expect(installed.stdout).toContain('Runs the existing hook first');
+    expect(await fs.readFile(path.join(hooksDir, 'commit-msg.pre-gca'), 'utf8')).toBe(existing);
+
+    const rejected = commit('WIP stuff.');
+    expect(rejected.status).not.toBe(0);
+    expect(rejected.output).toContain('existing hook ran');
+    expect(rejected.output).toContain('✖ conventional-format');
+    expect(rejected.output).toContain(
+      '✖ message-format: Commit message should not end with a period'
+    );
+    expect(repo.git('log', '-1', '--format=%s')).toBe('chore: initial import');
+
+    const accepted = commit('feat: add hooks');
+    expect(accepted.status).toBe(0);
+    expect(repo.git('log', '-1', '--format=%s')).toBe('feat: add hooks');
+
+    // Installing again updates the hooks without chaining them to themselves
+    const again = await TestRunner.runCli(['hook', 'install', repo.path], { cwd: workDir, env });
+    expect(again.stdout).toContain('Updated commit-msg hook');
+
+    const removed = await TestRunner.runCli(['hook', 'uninstall'], { cwd: repo.path, env });
+    expect(removed.exitCode).toBe(0);
+    expect(removed.stdout).toContain('restored the one it replaced');
+    expect(await fs.readFile(path.join(hooksDir, 'commit-msg'), 'utf8')).toBe(existing);
+    await expect(fs.access(path.join(hooksDir, 'prepare-commit-msg'))).rejects.toThrow();
+  });
+
+  test('should describe the format only in the template of a new message', async () => {
+    const hooksDir = path.join(repo.path, '.git', 'hooks');
+    await new HookService(gitInterface).install(repo.path, { prepareCommitMsg: true });
+    const hook = path.join(hooksDir, 'prepare-commit-msg');
+
+    const template = path.join(workDir, 'template');
+    await fs.writeFile(template, '\n');
+    execFileSync(hook, [template], { cwd: repo.path });
+    expect(await fs.readFile(template, 'utf8')).toContain(
+      '# Conventional commit: type(scope): description'
+    );
+
+    const given = path.join(workDir, 'given');
+    await fs.writeFile(given, 'feat: given with -m\n');
+    execFileSync(hook, [given, 'message'], { cwd: repo.path });
+    expect(await fs.readFile(given, 'utf8')).toBe('feat: given with -m\n');
+  });
+
+  test('should suggest a corrected message from the cached transform rules', async () => {
+    const cacheService = new CacheService(gitInterface, { location: 'cwd' });
+    const cachePath = path.join(repo.path, '.gca-cache.json');
+    const cache = await cacheService.createCache(repo.path, {
+      ...DEFAULT_CONFIG,
+      apiKey: 'sk-or-test-key-0123456789',
+    });
+    cacheService.storeTransformRules(cache, [
+      createTransformRule('^WIP:?\\s+(.+)$', 'chore: $1', 'Work in progress'),
+    ]);
+    await cacheService.saveCache(cache, cachePath, { silent: true });
+    await cacheService.releaseLock(cachePath);
+
+    const messageFile = path.join(workDir, 'COMMIT_EDITMSG');
+    await fs.writeFile(messageFile, 'WIP tidy the parser\n\n# Please enter the commit message\n');
+
+    const checked = await TestRunner.runCli(['hook', 'check', messageFile, '--suggest'], {
+      cwd: repo.path,
+      env,
+    });
+    expect(checked.exitCode).toBe(1);
+    expect(checked.stderr).toContain('does not follow the conventions: WIP tidy the parser');
+    expect(checked.stderr).toContain('💡 Suggested message: chore: tidy the parser');
+
+    // Without --suggest the cache is not consulted
+    const plain = await TestRunner.runCli(['hook', 'check', messageFile], { cwd: repo.path, env });
+    expect(plain.exitCode).toBe(1);
+    expect(plain.stderr).not.toContain('Suggested message');
+  });
+
+  test('should strip what git adds and leave git-generated messages alone', () => {
+    const linter = new CommitLinter();
+    const raw = [
+      'fix: keep the body',
+      '',
+      'Body line',
+      '# Please enter the commit message',
+      '# ------------------------ >8 ------------------------',
+      'diff --git a/x b/x',
+    ].join('\n');
+
+    expect(CommitLinter.cleanMessage(raw)).toBe('fix: keep the body\n\nBody line');
+    expect(linter.lint(CommitLinter.cleanMessage(raw)).valid).toBe(true);
+    expect(linter.lint("Merge branch 'main' into topic")).toMatchObject({
+      valid: true,
+      exempt: true,
+    });
+    expect(linter.lint('fixup! feat: add hooks').exempt).toBe(true);
+    expect(linter.lint('update readme').violations.map((violation) => violation.rule)).toEqual([
+      'conventional-format',
+    ]);
+  });
+
+  test('should install into core.hooksPath and refuse to overwrite a chained hook', async () => {
+    const customHooks = path.join(workDir, 'custom-hooks');
+    repo.git('config', 'core.hooksPath', customHooks);
+    const service = new HookService(gitInterface, ['gca']);
+
+    const changes = await service.install(repo.path);
+    expect(changes).toEqual([
+      { hook: 'commit-msg', path: path.join(customHooks, 'commit-msg'), action: 'installed' },
+    ]);
+    expect(await fs.readFile(path.join(customHooks, 'commit-msg'), 'utf8')).toContain(
+      `exec 'gca' 'hook' 'check' "$1"`
+    );
+
+    // Another tool replaced our hook while a chained one is still around
+    await fs.writeFile(path.join(customHooks, 'commit-msg'), '#!/bin/sh\n');
+    await fs.writeFile(path.join(customHooks, 'commit-msg.pre-gca'), '#!/bin/sh\n');
+    await expect(service.install(repo.path)).rejects.toThrow(
+      /Cannot chain the existing commit-msg hook/
+    );
+
+    expect(await service.uninstall(repo.path)).toEqual([
+      {
+        hook: 'commit-msg',
+        path: path.join(customHooks, 'commit-msg'),
+        action: 'skipped',
+        reason: 'not installed by gca',
+      },
+    ]);
+  });
+});
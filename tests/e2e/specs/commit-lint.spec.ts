@@ -0,0 +1,123 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { TestRepository } from '../helpers/test-repository';
+import { TestRunner } from '../helpers/test-runner';
+
+describe('Commit Range Lint E2E Tests', () => {
+  let repo: TestRepository;
+  let workDir: string;
+  let env: Record<string, string>;
+
+  beforeEach(async () => {
+    repo = await TestRepository.create([
+      { message: 'chore: initial import' },
+      { message: 'feat: add parser' },
+      { message: 'WIP stuff.' },
+      { message: 'fixup! feat: add parser' },
+    ]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-lint-'));
+    env = {
+      OPENROUTER_API_KEY: '',
+      CACHE_LOCATION: 'cwd',
+      CLASSIFICATION_STORE_DIR: '',
+      XDG_CACHE_HOME: workDir,
+      GITHUB_ACTIONS: '',
+      GITLAB_CI: '',
+    };
+  });
+
+  afterEach(async () => {
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  test('should report each failing commit, annotate it and write a JUnit report', async () => {
+    const wip = repo.git('rev-parse', '--short', 'HEAD~1');
+    const junit = path.join(workDir, 'gca-lint.xml');
+
+    const result = await TestRunner.runCli(
+      ['lint', 'HEAD~3..HEAD', '--annotations', 'github', '--junit', junit],
+      { cwd: repo.path, env }
+    );
+    expect(result.exitCode).toBe(7);
+    expect(result.stdout).toContain('Checking 3 commits in HEAD~3..HEAD');
+    expect(result.stdout).toMatch(/✅ \w+ feat: add parser/);
+    expect(result.stdout).toContain(`❌ ${wip} WIP stuff.`);
+    expect(result.stdout).toContain('not checked');
+    expect(result.stdout).not.toContain('initial import');
+    expect(result.stdout).toContain(
+      `::error title=Commit ${wip} (message-format)::Commit message should not end with a period in "WIP stuff."`
+    );
+    expect(result.stderr).toContain('1 of 3 commits do not follow the conventions');
+
+    const xml = await fs.readFile(junit, 'utf8');
+    expect(xml).toContain('<testsuite name="gca lint HEAD~3..HEAD" tests="3" failures="1"');
+    expect(xml).toContain('skipped="1"');
+    expect(xml).toContain(`<testcase classname="commits" name="${wip} WIP stuff.">`);
+    expect(xml).toContain('<failure message="Subject must be &quot;type(scope): description&quot;');
+    expect(xml).toContain('message-format: Commit message should not end with a period');
+  });
+
+  test('should detect GitLab CI and pass when every commit conforms', async () => {
+    const gitlab = { ...env, GITLAB_CI: 'true' };
+    const failing = await TestRunner.runCli(['lint', 'HEAD~2..HEAD', repo.path], {
+      cwd: workDir,
+      env: gitlab,
+    });
+    expect(failing.exitCode).toBe(7);
+    expect(failing.stdout).toMatch(/^commit \w+: error: conventional-format: Subject must be/m);
+
+    const passing = await TestRunner.runCli(['lint', 'HEAD~3..HEAD~2'], {
+      cwd: repo.path,
+      env: gitlab,
+    });
+    expect(passing.exitCode).toBe(0);
+    expect(passing.stdout).toContain('All 1 commits follow the conventions');
+    expect(passing.stdout).not.toContain('error:');
+  });
+
+  test('should pass the range to git as data and ignore log decorations', async () => {
+    const marker = path.join(workDir, 'injected');
+    const injected = await TestRunner.runCli(['lint', `HEAD~1..HEAD$(touch ${marker})`], {
+      cwd: repo.path,
+      env,
+    });
+    expect(injected.exitCode).toBe(4);
+    await expect(fs.access(marker)).rejects.toThrow();
+
+    const option = await TestRunner.runCli(['lint', `HEAD~1..--output=${marker}`], {
+      cwd: repo.path,
+      env,
+    });
+    expect(option.exitCode).toBe(4);
+    await expect(fs.access(marker)).rejects.toThrow();
+
+    repo.git('config', 'log.decorate', 'short');
+    repo.git('tag', 'v1', 'HEAD~2');
+    const decorated = await TestRunner.runCli(['lint', 'HEAD~3..HEAD~2'], { cwd: repo.path, env });
+    expect(decorated.exitCode).toBe(0);
+    expect(decorated.stdout).toMatch(/✅ \w+ feat: add parser\n/);
+  });
+
+  test('should fail on a range that does not resolve and on invalid options', async () => {
+    const unknown = await TestRunner.runCli(['lint', 'origin/main..HEAD'], {
+      cwd: repo.path,
+      env,
+    });
+    expect(unknown.exitCode).toBe(4);
+    expect(unknown.stderr).toContain('Unknown revision origin/main in range origin/main..HEAD');
+
+    const missing = await TestRunner.runCli(['lint'], { cwd: repo.path, env });
+    expect(missing.exitCode).toBe(2);
+    expect(missing.stderr).toContain('Missing RANGE');
+
+    const invalid = await TestRunner.runCli(['lint', 'HEAD~1..HEAD', '--annotations', 'jenkins'], {
+      cwd: repo.path,
+      env,
+    });
+    expect(invalid.exitCode).toBe(2);
+    expect(invalid.stderr).toContain('Invalid --annotations: jenkins (use github, gitlab)');
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CommitMessageSuggester } from '@/services/CommitMessageSuggester';
+import { GitService } from '@/services/GitService';
+import { LLMService } from '@/services/LLMService';
+import { RealGitInterface } from '@/git/RealGitInterface';
+import { DEFAULT_CONFIG } from '@/types/config';
+import { formatCommitSuggestion } from '@/types/suggest';
+import { StubLLMServer } from '../helpers/stub-llm-server';
+import { TestRepository } from '../helpers/test-repository';
+import { TestRunner } from '../helpers/test-runner';
+
+describe('Commit Suggestion E2E Tests', () => {
+  const originalConfigCount = process.env['GIT_CONFIG_COUNT'];
+  let repo: TestRepository;
+  let workDir: string;
+  let env: Record<string, string>;
+
+  beforeEach(async () => {
+    // Use the repository's own hooks even where core.hooksPath is set for the whole machine
+    process.env['GIT_CONFIG_COUNT'] = '0';
+    repo = await TestRepository.create([
+      {
+        message: 'chore: initial import',
+        files: { 'README.md': '# Demo\n', 'src/services/parser.ts': 'export {};\n' },
+      },
+    ]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-suggest-'));
+    env = {
+      OPENROUTER_API_KEY: '',
+      CACHE_LOCATION: 'cwd',
+      CLASSIFICATION_STORE_DIR: '',
+      XDG_CACHE_HOME: workDir,
+    };
+  });
+
+  afterEach(async () => {
+    if (originalConfigCount === undefined) {
+      delete process.env['GIT_CONFIG_COUNT'];
+    } else {
+      process.env['GIT_CONFIG_COUNT'] = originalConfigCount;
+    }
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const stage = async (files: Record<string, string>): Promise<void> => {
+    for (const [name, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(repo.path, name)), { recursive: true });
+      await fs.writeFile(path.join(repo.path, name), content);
+    }
+    repo.git('add', '-A');
+  };
+
+  test('should derive a message from the staged files without an API key', async () => {
+    const empty = await TestRunner.runCli(['suggest'], { cwd: repo.path, env });
+    expect(empty.exitCode).toBe(1);
+    expect(empty.stderr).toContain('Nothing staged');
+
+    await stage({ 'src/services/lexer.ts': 'export {};\n', 'src/services/parser.ts': '// x\n' });
+    const printed = await TestRunner.runCli(['suggest', '--no-interactive'], {
+      cwd: repo.path,
+      env,
+    });
+    expect(printed.exitCode).toBe(0);
+    expect(printed.stdout).toBe(
+      'feat(services): update 2 files\n\n- added src/services/lexer.ts\n- modified src/services/parser.ts\n'
+    );
+
+    // Without a terminal the message is shown and nothing is committed
+    const asked = await TestRunner.runCli(['suggest', repo.path], { cwd: workDir, env });
+    expect(asked.exitCode).toBe(130);
+    expect(asked.stdout).toContain('Suggested by the staged file categories');
+    expect(asked.stdout).toContain('  feat(services): update 2 files');
+    expect(repo.git('log', '-1', '--format=%s')).toBe('chore: initial import');
+  });
+
+  test('should ask the classification model and fall back when it fails', async () => {
+    const server = new StubLLMServer();
+    await server.start();
+    try {
+      await stage({ 'README.md': '# Demo\n\nUsage notes\n' });
+      const modelEnv = {
+        ...env,
+        OPENROUTER_API_KEY: 'sk-or-test-key-0123456789',
+        OPENROUTER_BASE_URL: server.url,
+        MAX_RETRIES: '0',
+        BASE_DELAY: '1',
+      };
+
+      server.respondWith(() =>
+        StubLLMServer.completion(
+          '```json\n{"type":"docs","scope":"readme","subject":"describe usage.","body":"Explain how to run it"}\n```'
+        )
+      );
+      const suggested = await TestRunner.runCli(['suggest', '--no-interactive'], {
+        cwd: repo.path,
+        env: modelEnv,
+      });
+      expect(suggested.exitCode).toBe(0);
+      expect(suggested.stdout).toBe('docs(readme): describe usage\n\nExplain how to run it\n');
+
+      const prompt = String(server.requests[0]?.body.messages?.[1]?.content);
+      expect(prompt).toContain('modified docs: README.md');
+      expect(prompt).toContain('+Usage notes');
+
+      server.respondWith(() => StubLLMServer.completion('{"type":"feature","subject":"x"}'));
+      const fallback = await TestRunner.runCli(['suggest', '--no-interactive'], {
+        cwd: repo.path,
+        env: modelEnv,
+      });
+      expect(fallback.exitCode).toBe(0);
+      expect(fallback.stderr).toContain('Suggestion has an invalid type: feature');
+      expect(fallback.stdout).toBe('docs: update README.md\n');
+    } finally {
+      await server.stop();
+    }
+  });
+
+  test('should fill new messages through the prepare-commit-msg hook', async () => {
+    const installed = await TestRunner.runCli(['hook', 'install', '--suggest-message'], {
+      cwd: repo.path,
+      env,
+    });
+    expect(installed.exitCode).toBe(0);
+    expect(installed.stdout).toContain('Installed prepare-commit-msg hook');
+
+    await stage({ 'tests/parser.spec.ts': 'test.todo("parses");\n' });
+    execFileSync('git', ['commit', '-q'], {
+      cwd: repo.path,
+      env: { ...process.env, ...env, GIT_EDITOR: 'true' },
+      stdio: 'pipe',
+    });
+    expect(repo.git('log', '-1', '--format=%s')).toBe('test: add parser.spec.ts');
+
+    // Messages given with -m are left alone
+    await stage({ 'tests/lexer.spec.ts': 'test.todo("lexes");\n' });
+    execFileSync('git', ['commit', '-q', '-m', 'test: cover the lexer'], {
+      cwd: repo.path,
+      env: { ...process.env, ...env },
+      stdio: 'pipe',
+    });
+    expect(repo.git('log', '-1', '--format=%B')).toBe('test: cover the lexer');
+  });
+
+  test('should put the message above the template and skip an empty index', async () => {
+    const messageFile = path.join(workDir, 'COMMIT_EDITMSG');
+    const template = '\n# Please enter the commit message for your changes.\n';
+    await fs.writeFile(messageFile, template);
+
+    const skipped = await TestRunner.runCli(['suggest', '--write', messageFile], {
+      cwd: repo.path,
+      env,
+    });
+    expect(skipped.exitCode).toBe(0);
+    expect(await fs.readFile(messageFile, 'utf8')).toBe(template);
+
+    await fs.mkdir(path.join(repo.path, 'docs'));
+    repo.git('mv', 'README.md', 'docs/README.md');
+    const written = await TestRunner.runCli(['suggest', '--write', messageFile], {
+      cwd: repo.path,
+      env,
+    });
+    expect(written.exitCode).toBe(0);
+    expect(written.stdout).toBe('');
+    expect(await fs.readFile(messageFile, 'utf8')).toBe(`docs: rename README.md\n${template}`);
+  });
+
+  test('should pick the fallback type from the kinds of files staged', async () => {
+    const gitService = new GitService(new RealGitInterface());
+    const config = { ...DEFAULT_CONFIG, apiKey: '' };
+    const suggester = new CommitMessageSuggester(config, new LLMService(config));
+    const typeOf = (files: Array<[string, 'added' | 'modified' | 'deleted']>): string =>
+      formatCommitSuggestion(
+        suggester.fallback(
+          files.map(([filePath, status]) => ({ path: filePath, status, category: 'misc' }))
+        )
+      ).split('\n')[0] ?? '';
+
+    expect(typeOf([['.github/workflows/ci.yml', 'modified']])).toBe('ci: update ci.yml');
+    expect(typeOf([['package.json', 'modified']])).toBe('chore: update package.json');
+    expect(typeOf([['LICENSE', 'deleted']])).toBe('chore: remove LICENSE');
+
+    await stage({ 'package.json': '{}\n', 'src/services/parser.ts': '// fixed\n' });
+    const changes = await gitService.getStagedChanges(repo.path);
+    expect(changes.files).toEqual([
+      { status: 'added', path: 'package.json', category: 'config' },
+      { status: 'modified', path: 'src/services/parser.ts', category: 'code' },
+    ]);
+    expect(changes.summary).toContain('Files changed (2 total)');
+
+    const suggestion = await suggester.suggest(changes);
+    expect(suggestion).toMatchObject({
+      type: 'fix',
+      subject: 'update 2 files',
+      source: 'fallback',
+    });
+    expect(suggestion.scope).toBeUndefined();
+  });
+});
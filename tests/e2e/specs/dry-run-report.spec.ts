@@ -0,0 +1,96 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { DryRunReporter } from '@/services/DryRunReporter';
+import { RuleEngine } from '@/services/RuleEngine';
+import { createTransformRule } from '@/types/rules';
+import type { ClassifiedCommit } from '@/types/commits';
+import type { DryRunReport } from '@/types/rewrite';
+
+const commits: ClassifiedCommit[] = [
+  { hash: 'aaaaaaa1', message: 'update readme', diff: '', suggestedPrefix: 'docs' },
+  { hash: 'bbbbbbb2', message: 'Tweak build script', diff: '', suggestedPrefix: 'build' },
+  { hash: 'ccccccc3', message: 'feat: add login', diff: '', conformingPrefix: 'feat' },
+  { hash: 'ddddddd4', message: 'misc', diff: '' },
+];
+
+const buildReport = (): DryRunReport => {
+  const engine = new RuleEngine([
+    createTransformRule('^update\\s+(.+)$', 'docs: update $1', 'Documentation updates'),
+  ]);
+  return new DryRunReporter().buildReport('.', commits, engine.applyToCommits(commits));
+};
+
+describe('Dry-Run Report E2E Tests', () => {
+  let outputDir: string | undefined;
+
+  afterEach(async () => {
+    if (outputDir !== undefined) {
+      await fs.rm(outputDir, { recursive: true, force: true });
+      outputDir = undefined;
+    }
+  });
+
+  test('should record the source of every proposed message and count them', () => {
+    const report = buildReport();
+
+    expect(report.proposals.map((proposal) => [proposal.proposedMessage, proposal.source])).toEqual(
+      [
+        ['docs: update readme', 'rule'],
+        ['build: Tweak build script', 'model'],
+        ['feat: add login', 'none'],
+        ['misc', 'none'],
+      ]
+    );
+    expect(report.proposals[0]?.rule).toEqual({
+      pattern: '^update\\s+(.+)$',
+      flags: 'i',
+      replacement: 'docs: update $1',
+      reason: 'Documentation updates',
+    });
+    expect(report.summary).toEqual({
+      totalCommits: 4,
+      proposedRewrites: 2,
+      byRule: 1,
+      byModel: 1,
+      alreadyConventional: 1,
+      unresolved: 1,
+      conflicts: 0,
+    });
+  });
+
+  test('should render a side-by-side diff with a rule legend', () => {
+    const output = new DryRunReporter().render(buildReport(), { width: 100, color: false });
+    const lines = output.split('\n');
+
+    expect(lines[0]).toMatch(/^Commit\s+│ Original\s+│ Proposed\s+│ Source$/);
+    expect(lines[1]).toMatch(/^aaaaaaa1 │ update readme\s+│ docs: update readme\s+│ rule 1$/);
+    expect(lines[2]).toMatch(/│ build: Tweak build script\s+│ model$/);
+    expect(output).not.toContain('ddddddd4');
+    expect(output).toContain('rule 1: /^update\\s+(.+)$/i → "docs: update $1" (1)');
+    expect(output).toContain('Proposed rewrites: 2 (1 by rule, 1 by model)');
+    expect(output).toContain('Unresolved (no rule matched): 1');
+  });
+
+  test('should highlight only the changed part when colour is enabled', () => {
+    const output = new DryRunReporter().render(buildReport(), { width: 100, color: true });
+
+    expect(output).toContain('\x1b[32mdocs: \x1b[0mupdate readme');
+  });
+
+  test('should write a machine-readable report file', async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-dry-run-'));
+    const report = buildReport();
+
+    const written = await new DryRunReporter().writeReport(
+      report,
+      path.join(outputDir, 'report.json')
+    );
+    const parsed = JSON.parse(await fs.readFile(written, 'utf8')) as DryRunReport;
+
+    expect(parsed.version).toBe(DryRunReporter.REPORT_VERSION);
+    expect(parsed.summary).toEqual(report.summary);
+    expect(parsed.proposals).toHaveLength(4);
+  });
+});
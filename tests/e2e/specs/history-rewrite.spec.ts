@@ -0,0 +1,109 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import { RealGitInterface } from '@/git/RealGitInterface';
+import { GitService } from '@/services/GitService';
+import { RewriteService } from '@/services/RewriteService';
+import { RewriteError } from '@/types/rewrite';
+import { TestRepository } from '../helpers/test-repository';
+
+const rewriteOptions = { dryRun: false, createBackup: true, interactive: false };
+
+const logLines = (repo: TestRepository): string[] =>
+  repo.git('log', '--format=%T|%an|%aI|%cn|%cI|%s').split('\n');
+
+describe('History Rewrite E2E Tests', () => {
+  let repo: TestRepository | undefined;
+
+  afterEach(async () => {
+    await repo?.cleanup();
+    repo = undefined;
+  });
+
+  const createService = (): RewriteService =>
+    new RewriteService(new GitService(new RealGitInterface()));
+
+  test('should rewrite subjects and preserve trees, authors, dates and bodies', async () => {
+    repo = await TestRepository.create([
+      { message: 'initial import' },
+      { message: 'update readme\n\nExplain the install steps' },
+      { message: 'feat: add login' },
+      { message: 'fixed crash on startup' },
+    ]);
+    const before = logLines(repo);
+    const [fourth, , second] = repo.git('log', '--format=%H').split('\n');
+
+    const result = await createService().rewriteHistory(
+      repo.path,
+      new Map([
+        [second?.substring(0, 7) ?? '', 'docs: update readme'],
+        [fourth ?? '', 'fix: crash on startup'],
+      ]),
+      rewriteOptions
+    );
+
+    expect(result.applied).toBe(true);
+    expect(result.plan.entries).toHaveLength(2);
+    expect(Object.keys(result.commitMap)).toHaveLength(3);
+
+    const after = logLines(repo);
+    const stripSubject = (line: string): string => line.substring(0, line.lastIndexOf('|'));
+    expect(after.map(stripSubject)).toEqual(before.map(stripSubject));
+    expect(after.map((line) => line.split('|').pop())).toEqual([
+      'fix: crash on startup',
+      'feat: add login',
+      'docs: update readme',
+      'initial import',
+    ]);
+    expect(repo.git('log', '-1', '--format=%b', 'HEAD~2')).toBe('Explain the install steps');
+
+    expect(result.backupBranch).toBeDefined();
+    expect(repo.git('rev-parse', result.backupBranch ?? '')).toBe(fourth);
+  });
+
+  test('should rewrite the root commit', async () => {
+    repo = await TestRepository.create([{ message: 'first' }, { message: 'chore: second' }]);
+    const root = repo.git('rev-list', '--max-parents=0', 'HEAD');
+
+    await createService().rewriteHistory(
+      repo.path,
+      new Map([[root, 'chore: first']]),
+      rewriteOptions
+    );
+
+    expect(repo.git('log', '--format=%s').split('\n')).toEqual(['chore: second', 'chore: first']);
+  });
+
+  test('should leave history untouched on a dry run', async () => {
+    repo = await TestRepository.create([{ message: 'update readme' }, { message: 'misc' }]);
+    const head = repo.git('rev-parse', 'HEAD');
+
+    const result = await createService().rewriteHistory(
+      repo.path,
+      new Map([[head, 'chore: misc']]),
+      { ...rewriteOptions, dryRun: true }
+    );
+
+    expect(result.applied).toBe(false);
+    expect(result.plan.entries).toEqual([
+      { hash: head, originalSubject: 'misc', newSubject: 'chore: misc' },
+    ]);
+    expect(repo.git('rev-parse', 'HEAD')).toBe(head);
+    expect(repo.git('branch', '--list', 'gca-backup-*')).toBe('');
+  });
+
+  test('should refuse to rewrite a dirty repository or unknown commits', async () => {
+    repo = await TestRepository.create([{ message: 'misc' }]);
+    const service = createService();
+
+    await expect(
+      service.rewriteHistory(repo.path, new Map([['0000000', 'chore: x']]), rewriteOptions)
+    ).rejects.toThrow(/not reachable/);
+
+    const head = repo.git('rev-parse', 'HEAD');
+    await repo.commit({ message: 'wip', files: { 'file-0.txt': 'changed\n' } });
+    repo.git('reset', '--soft', 'HEAD~1');
+
+    await expect(
+      service.rewriteHistory(repo.path, new Map([[head, 'chore: misc']]), rewriteOptions)
+    ).rejects.toBeInstanceOf(RewriteError);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AnalysisSummarizer } from '@/services/AnalysisSummarizer';
+import type { AnalysisSummary } from '@/types/output';
+import { StubLLMServer } from '../helpers/stub-llm-server';
+import { TestRepository } from '../helpers/test-repository';
+import { TestRunner } from '../helpers/test-runner';
+
+describe('JSON Output E2E Tests', () => {
+  let repo: TestRepository;
+  let workDir: string;
+  let env: Record<string, string>;
+
+  beforeEach(async () => {
+    repo = await TestRepository.create([
+      { message: 'feat: add parser' },
+      { message: 'fixed the thing' },
+      { message: 'WIP' },
+      { message: 'docs: explain setup' },
+    ]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-json-'));
+    env = {
+      OPENROUTER_API_KEY: '',
+      CACHE_LOCATION: 'cwd',
+      CLASSIFICATION_STORE_DIR: '',
+      XDG_CACHE_HOME: workDir,
+    };
+  });
+
+  afterEach(async () => {
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  test('should print only the analysis summary on stdout with --json', async () => {
+    const result = await TestRunner.runCli([repo.path, '--json'], { cwd: workDir, env });
+    expect(result.exitCode).toBe(0);
+
+    const summary = JSON.parse(result.stdout) as AnalysisSummary;
+    expect(summary).toMatchObject({
+      kind: 'analysis-summary',
+      version: '1.0.0',
+      repository: { path: repo.path, totalCommits: 4 },
+      classification: 'pattern',
+      totals: { analyzed: 4, conventional: 2, nonConventional: 2, conventionalPercentage: 50 },
+      rules: null,
+      rewrite: null,
+    });
+    expect(summary.nonConformingSamples.map((sample) => sample.subject)).toEqual([
+      'WIP',
+      'fixed the thing',
+    ]);
+
+    // Human-readable output still goes somewhere, just not to stdout
+    expect(result.stderr).toContain('Analyzing git repository');
+  });
+
+  test('should report rules and the dry run when OUTPUT_JSON is set', async () => {
+    const server = new StubLLMServer();
+    await server.start();
+    server.respondWith(StubLLMServer.classifyingResponder('chore'));
+    const reportPath = path.join(workDir, 'report.json');
+
+    try {
+      const result = await TestRunner.runCli(
+        ['dry-run', repo.path, '--dry-run-output', reportPath],
+        {
+          cwd: workDir,
+          env: {
+            ...env,
+            OUTPUT_JSON: 'true',
+            OPENROUTER_API_KEY: 'sk-or-test-key-0123456789',
+            OPENROUTER_BASE_URL: server.url,
+            MAX_RETRIES: '0',
+            BASE_DELAY: '1',
+          },
+        }
+      );
+      expect(result.exitCode).toBe(0);
+
+      const summary = JSON.parse(result.stdout) as AnalysisSummary;
+      expect(summary.classification).toBe('model');
+      expect(summary.totals.nonConventional).toBe(4);
+      expect(summary.suggestedPrefixes).toEqual({ chore: 4 });
+      expect(summary.rules).toMatchObject({ generated: 0, conflicts: 0 });
+      expect(summary.rewrite).toEqual({ mode: 'dry-run', applied: false, reportPath });
+    } finally {
+      await server.stop();
+    }
+  });
+
+  test('should print status and cache documents', async () => {
+    const status = await TestRunner.runCli(['status', '--json'], { cwd: workDir, env });
+    expect(status.exitCode).toBe(0);
+    expect(JSON.parse(status.stdout)).toMatchObject({
+      kind: 'status',
+      apiKeySet: false,
+      key: null,
+    });
+
+    expect((await TestRunner.runCli([repo.path], { cwd: workDir, env })).exitCode).toBe(0);
+    const cacheFile = path.join(workDir, '.gca-cache.json');
+
+    const info = await TestRunner.runCli(['cache', 'info', cacheFile, '--json'], {
+      cwd: workDir,
+      env,
+    });
+    expect(JSON.parse(info.stdout)).toMatchObject({
+      kind: 'cache-info',
+      file: cacheFile,
+      cache: { path: cacheFile, repoPath: repo.path, progress: { total: 4 } },
+    });
+
+    const listed = await TestRunner.runCli(['cache', 'list', '--json'], { cwd: workDir, env });
+    const list = JSON.parse(listed.stdout) as { kind: string; caches: { path: string }[] };
+    expect(list.kind).toBe('cache-list');
+    expect(list.caches.map((cache) => cache.path)).toEqual([cacheFile]);
+
+    const missing = await TestRunner.runCli(
+      ['cache', 'info', path.join(workDir, 'none.json'), '--json'],
+      { cwd: workDir, env }
+    );
+    expect(JSON.parse(missing.stdout)).toMatchObject({ kind: 'cache-info', cache: null });
+  });
+
+  test('should summarize without sampling more than the sample size', () => {
+    const commits = Array.from({ length: 8 }, (_, index) => ({
+      hash: `hash${index}`,
+      message: `update ${index}\n\nbody`,
+      files: [],
+      diff: '',
+      suggestedPrefix: index % 2 === 0 ? 'fix' : 'chore',
+    }));
+
+    const summary = new AnalysisSummarizer().summarize({
+      repoPath: '.',
+      insights: { totalCommits: 8, currentBranch: 'main', isClean: true, commonFileTypes: {} },
+      commits,
+      classification: 'model',
+    });
+
+    expect(summary.totals.conventionalPercentage).toBe(0);
+    expect(summary.nonConformingSamples).toHaveLength(AnalysisSummarizer.SAMPLE_SIZE);
+    expect(summary.nonConformingSamples[0]).toEqual({
+      hash: 'hash0',
+      subject: 'update 0',
+      suggestedPrefix: 'fix',
+    });
+    expect(summary.suggestedPrefixes).toEqual({ fix: 4, chore: 4 });
+  });
+});
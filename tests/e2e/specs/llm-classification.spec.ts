@@ -0,0 +1,323 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { StubLLMServer } from '../helpers/stub-llm-server';
+import { LLMService } from '@/services/LLMService';
+import { BatchScheduler } from '@/services/BatchScheduler';
+import { ConfigService } from '@/services/ConfigService';
+import { RateLimiter } from '@/services/RateLimiter';
+import { RuleGenerator } from '@/services/RuleGenerator';
+import { LLMError, RateLimitError } from '@/types/llm';
+import type { EnrichedCommit } from '@/types/commits';
+import type { BatchConfig } from '@/types/config';
+
+const commits: EnrichedCommit[] = [
+  {
+    hash: 'abc1234',
+    message: 'feat: add login',
+    diff: 'Files changed (1 total):\nadded code: src/login.ts',
+  },
+  {
+    hash: 'def5678',
+    message: 'update readme',
+    diff: 'Files changed (1 total):\nmodified docs: README.md',
+  },
+];
+
+const createScheduler = (overrides: Partial<BatchConfig> = {}): BatchScheduler =>
+  new BatchScheduler({
+    initialSize: 2,
+    minSize: 1,
+    maxSize: 8,
+    growthFactor: 2,
+    decayFactor: 0.5,
+    successThreshold: 2,
+    contextLimitThreshold: 30000,
+    ...overrides,
+  });
+
+describe('LLM Classification E2E Tests', () => {
+  let server: StubLLMServer;
+
+  beforeEach(async () => {
+    server = new StubLLMServer();
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const createConfig = () =>
+    ConfigService.getInstance().createTestConfig({
+      baseUrl: server.url,
+      classificationModel: 'stub/model',
+      maxRetries: 1,
+      baseDelay: 1,
+    });
+
+  const createService = (rateLimiter?: RateLimiter): LLMService =>
+    new LLMService(createConfig(), rateLimiter);
+
+  const classificationFor = (request: { body: { messages?: Array<{ content: string }> } }) => {
+    const content = String(request.body.messages?.[1]?.content);
+    const hashes = [...content.matchAll(/### Commit (\w+)/g)].map((match) => match[1]);
+    return StubLLMServer.completion(
+      JSON.stringify({
+        classifications: hashes.map((hash) => ({ hash, suggestedPrefix: 'chore' })),
+      })
+    );
+  };
+
+  test('should send batches to the chat-completions endpoint and parse classifications', async () => {
+    server.respondWith(() =>
+      StubLLMServer.completion(
+        JSON.stringify({
+          classifications: [
+            {
+              hash: 'abc1234',
+              conformingPrefix: 'feat',
+              suggestedPrefix: 'feat',
+              reason: 'New login flow',
+            },
+            {
+              hash: 'def5678',
+              conformingPrefix: null,
+              suggestedPrefix: 'docs',
+              reason: 'Docs only',
+            },
+          ],
+        })
+      )
+    );
+
+    const result = await createService().classifyCommits(commits);
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({ hash: 'abc1234', conformingPrefix: 'feat' });
+    expect(result[1]).toMatchObject({
+      hash: 'def5678',
+      suggestedPrefix: 'docs',
+      reason: 'Docs only',
+    });
+    expect(result[1]?.conformingPrefix).toBeUndefined();
+
+    const request = server.requests[0];
+    expect(request?.headers['authorization']).toBe('Bearer test-api-key-12345');
+    expect(request?.headers['x-title']).toBe('Test Commit Analyzer');
+    expect(request?.body.model).toBe('stub/model');
+  });
+
+  test('should split commits into batches of the requested size', async () => {
+    server.respondWith((request) => {
+      const hash = String(request.body.messages?.[1]?.content).match(/### Commit (\w+)/)?.[1];
+      return StubLLMServer.completion(
+        JSON.stringify({ classifications: [{ hash, suggestedPrefix: 'chore' }] })
+      );
+    });
+
+    const result = await createService().classifyCommits(commits, {
+      scheduler: createScheduler({ initialSize: 1 }),
+    });
+
+    expect(server.requests).toHaveLength(2);
+    expect(result.map((commit) => commit.suggestedPrefix)).toEqual(['chore', 'chore']);
+  });
+
+  test('should tolerate reasoning tags and code fences around the JSON payload', async () => {
+    server.respondWith(() =>
+      StubLLMServer.completion(
+        '<think>thinking...</think>\n```json\n[{"hash":"abc1234","conformingPrefix":"feat"},{"hash":"def5678","suggestedPrefix":"docs"}]\n```'
+      )
+    );
+
+    const result = await createService().classifyBatch(commits);
+    expect(result.map((commit) => commit.hash)).toEqual(['abc1234', 'def5678']);
+  });
+
+  test('should retry failed requests and surface API errors', async () => {
+    server.respondWith(() => ({ status: 500, body: { error: { message: 'upstream down' } } }));
+
+    await expect(createService().classifyBatch(commits)).rejects.toBeInstanceOf(LLMError);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  test('should shrink the batch and retry when the context limit is exceeded', async () => {
+    server.respondWith((request) => {
+      const content = String(request.body.messages?.[1]?.content);
+      const hashes = [...content.matchAll(/### Commit (\w+)/g)].map((match) => match[1]);
+      if (hashes.length > 1) {
+        return {
+          status: 400,
+          body: { error: { message: "This model's maximum context length is 8192 tokens" } },
+        };
+      }
+      return StubLLMServer.completion(
+        JSON.stringify({ classifications: [{ hash: hashes[0], suggestedPrefix: 'fix' }] })
+      );
+    });
+
+    const scheduler = createScheduler();
+    const result = await createService().classifyCommits(commits, { scheduler });
+
+    expect(result).toHaveLength(2);
+    expect(server.requests).toHaveLength(3);
+    expect(scheduler.getState()).toMatchObject({ currentBatchSize: 2, contextOverflowCount: 1 });
+  });
+
+  test('should honour Retry-After on 429 responses', async () => {
+    server.respondWith((request, index) =>
+      index === 0
+        ? { status: 429, headers: { 'Retry-After': '0' }, body: { error: 'rate limited' } }
+        : classificationFor(request)
+    );
+
+    const rateLimiter = new RateLimiter(createConfig());
+    const result = await createService(rateLimiter).classifyBatch(commits);
+
+    expect(result).toHaveLength(2);
+    expect(server.requests).toHaveLength(2);
+    expect(rateLimiter.getState().requestsThisMinute).toBe(2);
+  });
+
+  test('should stop cleanly when the free-tier daily quota is used up', async () => {
+    server.respondWith((request) =>
+      request.url.endsWith('/auth/key')
+        ? { body: { data: { usage: 0, limit: null, is_free_tier: true } } }
+        : classificationFor(request)
+    );
+
+    const now = Date.now();
+    const rateLimiter = new RateLimiter(createConfig(), {
+      requestsThisMinute: 0,
+      minuteStartTime: now,
+      dailyRequests: 49,
+      dayStartTime: now - (now % (24 * 60 * 60 * 1000)),
+    });
+    const keyInfo = await rateLimiter.initialize();
+    expect(keyInfo?.is_free_tier).toBe(true);
+
+    const service = createService(rateLimiter);
+    await service.classifyBatch(commits);
+
+    const error = await service.classifyBatch(commits).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).reason).toBe('daily_limit');
+    expect(server.requests.filter((request) => request.url.endsWith('/completions'))).toHaveLength(
+      1
+    );
+  });
+
+  test('should refuse to send requests once credits are exhausted', async () => {
+    server.respondWith(() => ({
+      body: { data: { usage: 10, limit: 10, is_free_tier: false } },
+    }));
+
+    const rateLimiter = new RateLimiter(createConfig());
+    await rateLimiter.initialize();
+
+    await expect(createService(rateLimiter).classifyBatch(commits)).rejects.toMatchObject({
+      reason: 'credits_exhausted',
+    });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  test('should keep only generated rules that compile and are safe', async () => {
+    server.respondWith(() =>
+      StubLLMServer.completion(
+        JSON.stringify({
+          rules: [
+            {
+              pattern: '^update\\s+(.+)$',
+              flags: 'i',
+              replacement: 'docs: update $1',
+              reason: 'Docs updates',
+            },
+            {
+              pattern: '^(\\w+\\s?)*$',
+              flags: '',
+              replacement: 'chore: $1',
+              reason: 'Catastrophic',
+            },
+            { pattern: '^update([', flags: '', replacement: 'docs: $1', reason: 'Broken' },
+            { pattern: '^update', flags: '', replacement: 'Update', reason: 'Not conventional' },
+          ],
+        })
+      )
+    );
+
+    const classified = [
+      { ...commits[0]!, conformingPrefix: 'feat', suggestedPrefix: 'feat' },
+      { ...commits[1]!, suggestedPrefix: 'docs' },
+    ];
+    const generator = new RuleGenerator(createConfig(), createService());
+
+    expect(generator.buildContext(classified)).toEqual({
+      totalCommits: 2,
+      nonConformingCommits: 1,
+      mostCommonPatterns: [{ pattern: 'update …', count: 1, suggestedPrefix: 'docs' }],
+    });
+
+    const rules = await generator.generateRules(classified);
+    expect(rules).toHaveLength(1);
+    expect(rules[0]?.pattern.source).toBe('^update\\s+(.+)$');
+    expect('update readme'.replace(rules[0]!.pattern, rules[0]!.replacement)).toBe(
+      'docs: update readme'
+    );
+  });
+
+  test('should reject responses missing commits from the batch', async () => {
+    server.respondWith(() =>
+      StubLLMServer.completion(JSON.stringify({ classifications: [{ hash: 'abc1234' }] }))
+    );
+
+    await expect(createService().classifyBatch(commits)).rejects.toThrow(/def5678/);
+  });
+});
+
+describe('Adaptive Batch Sizing', () => {
+  test('should grow after consecutive successes and shrink on failures', () => {
+    const scheduler = createScheduler({ initialSize: 4 });
+
+    scheduler.recordSuccess();
+    expect(scheduler.getBatchSize()).toBe(4);
+    scheduler.recordSuccess();
+    expect(scheduler.getBatchSize()).toBe(8);
+    scheduler.recordSuccess();
+    scheduler.recordSuccess();
+    expect(scheduler.getBatchSize()).toBe(8);
+
+    scheduler.recordFailure();
+    expect(scheduler.getState()).toMatchObject({ currentBatchSize: 4, consecutiveFailures: 1 });
+  });
+
+  test('should cap batches by the token budget', () => {
+    const scheduler = createScheduler({ initialSize: 8, contextLimitThreshold: 100 });
+    const items = ['a'.repeat(200), 'b'.repeat(200), 'c'.repeat(200)];
+
+    expect(scheduler.nextBatch(items, 0, (item) => item)).toHaveLength(1);
+    expect(scheduler.nextBatch(items, 2, (item) => item)).toEqual(['c'.repeat(200)]);
+  });
+
+  test('should resume from persisted state', () => {
+    const scheduler = createScheduler();
+    scheduler.recordFailure(true);
+
+    const resumed = new BatchScheduler(
+      {
+        initialSize: 2,
+        minSize: 1,
+        maxSize: 8,
+        growthFactor: 2,
+        decayFactor: 0.5,
+        successThreshold: 2,
+        contextLimitThreshold: 30000,
+      },
+      scheduler.getState()
+    );
+    expect(resumed.getState()).toEqual({
+      currentBatchSize: 1,
+      consecutiveSuccesses: 0,
+      consecutiveFailures: 1,
+      contextOverflowCount: 1,
+    });
+  });
+});
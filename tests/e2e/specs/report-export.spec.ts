@@ -0,0 +1,139 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ReportService } from '@/services/ReportService';
+import type { AnalysisResults } from '@/services/AnalysisSummarizer';
+import { NON_CONVENTIONAL_KEY, type ReportInput, type Reporter } from '@/types/report';
+import { TestRepository } from '../helpers/test-repository';
+import { TestRunner } from '../helpers/test-runner';
+
+describe('Report Export E2E Tests', () => {
+  let repo: TestRepository;
+  let workDir: string;
+  let env: Record<string, string>;
+
+  beforeEach(async () => {
+    repo = await TestRepository.create([
+      { message: 'feat: add parser', committerDate: '2024-01-05T10:00:00+00:00' },
+      { message: 'fixed | the "thing"', committerDate: '2024-01-20T10:00:00+00:00' },
+      { message: 'fix: handle <empty> input', committerDate: '2024-02-03T10:00:00+00:00' },
+      { message: 'WIP, again', committerDate: '2024-03-11T10:00:00+00:00' },
+    ]);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gca-report-'));
+    env = {
+      OPENROUTER_API_KEY: '',
+      CACHE_LOCATION: 'cwd',
+      CLASSIFICATION_STORE_DIR: '',
+      XDG_CACHE_HOME: workDir,
+    };
+  });
+
+  afterEach(async () => {
+    await repo.cleanup();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const report = async (format: string, file: string): Promise<string> => {
+    const out = path.join(workDir, file);
+    const result = await TestRunner.runCli([repo.path, '--report', format, '--out', out], {
+      cwd: workDir,
+      env,
+    });
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain(`${format} report written to ${out}`);
+    return fs.readFile(out, 'utf8');
+  };
+
+  test('should write a Markdown report with the summary and timeline', async () => {
+    const markdown = await report('markdown', 'report.md');
+
+    expect(markdown).toContain(`# Commit message report: ${repo.path}`);
+    expect(markdown).toContain('| Conventional | 2 (50%) |');
+    expect(markdown).toContain('| Period | feat | fix | non-conventional |');
+    expect(markdown).toContain('| 2024-01 | 1 | 0 | 1 |');
+    expect(markdown).toContain('| 2024-03 | 0 | 0 | 1 |');
+    // Table cells escape pipes instead of breaking the row
+    expect(markdown).toContain('fixed \\| the "thing"');
+    expect(markdown).toContain('## Recommendations');
+  });
+
+  test('should write one quoted CSV row per commit', async () => {
+    const csv = await report('csv', 'commits.csv');
+    const lines = csv.trimEnd().split('\r\n');
+
+    expect(lines[0]).toBe(
+      'hash,date,conventional,prefix,suggested_prefix,subject,proposed_message,reason'
+    );
+    expect(lines).toHaveLength(5);
+    expect(lines[1]).toMatch(/^\w+,2024-03-11T10:00:00\+00:00,false,,,"WIP, again",,$/);
+    expect(lines).toContainEqual(expect.stringMatching(/,true,fix,,fix: handle <empty> input,,$/));
+    expect(lines).toContainEqual(expect.stringContaining(',"fixed | the ""thing""",'));
+  });
+
+  test('should write a standalone HTML report with escaped content and a chart', async () => {
+    const html = await report('html', 'report.html');
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).not.toMatch(/<script|https?:\/\/(?!www\.w3\.org)/);
+    expect(html).toContain('<svg role="img" aria-label="Commits per prefix over time"');
+    expect(html.match(/<rect /g)).toHaveLength(4);
+    expect(html).toContain('fix: handle &lt;empty&gt; input');
+    expect(html).not.toContain('<empty>');
+  });
+
+  test('should reject unknown formats and --out without --report', async () => {
+    const unknown = await TestRunner.runCli([repo.path, '--report', 'pdf'], {
+      cwd: workDir,
+      env,
+    });
+    expect(unknown.exitCode).toBe(2);
+    expect(unknown.stderr).toContain('Invalid --report: pdf (use markdown, html, csv)');
+
+    const orphan = await TestRunner.runCli(['dry-run', repo.path, '--out', 'x.md'], {
+      cwd: workDir,
+      env,
+    });
+    expect(orphan.exitCode).toBe(2);
+    expect(orphan.stderr).toContain('--out needs --report FORMAT');
+  });
+
+  test('should group the timeline by day within one month and accept new reporters', async () => {
+    const results: AnalysisResults = {
+      repoPath: '.',
+      insights: { totalCommits: 3, currentBranch: 'main', isClean: true, commonFileTypes: {} },
+      commits: [
+        { hash: 'aaa1111', message: 'feat: one', diff: '', conformingPrefix: 'feat' },
+        { hash: 'bbb2222', message: 'two', diff: '', suggestedPrefix: 'chore' },
+        { hash: 'ccc3333', message: 'three', diff: '' },
+      ],
+      classification: 'model',
+    };
+    const dates = new Map([
+      ['aaa1111', '2024-05-02T09:00:00+02:00'],
+      ['bbb2222', '2024-05-01T09:00:00+02:00'],
+    ]);
+
+    const rendered: ReportInput[] = [];
+    const capture: Reporter = {
+      format: 'csv',
+      render: (input) => {
+        rendered.push(input);
+        return 'captured';
+      },
+    };
+    const service = new ReportService([capture]);
+    const input = service.buildInput(results, dates);
+
+    expect(input.timeline).toEqual([
+      { period: '2024-05-01', counts: { [NON_CONVENTIONAL_KEY]: 1 } },
+      { period: '2024-05-02', counts: { feat: 1 } },
+    ]);
+    expect(input.commits[1]).toMatchObject({ conventional: false, suggestedPrefix: 'chore' });
+    expect(input.commits[2]?.date).toBeUndefined();
+
+    expect(service.render('csv', input)).toBe('captured');
+    expect(rendered).toHaveLength(1);
+    expect(() => service.render('html', input)).toThrow('No reporter registered for format: html');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, test, expect } from 'vitest';
+import { RuleEngine } from '@/services/RuleEngine';
+import { createTransformRule } from '@/types/rules';
+import type { ClassifiedCommit } from '@/types/commits';
+
+const updateRule = createTransformRule(
+  '^update\\s+(.+)$',
+  'docs: update $1',
+  'Documentation updates'
+);
+const fixRule = createTransformRule('^(?:fixed|fixes)\\s+(.+)$', 'fix: $1', 'Past-tense fixes');
+const broadRule = createTransformRule('^update\\s+(.+)$', 'chore: update $1', 'Generic updates');
+
+const commit = (hash: string, message: string, suggestedPrefix?: string): ClassifiedCommit => ({
+  hash,
+  message,
+  diff: '',
+  ...(suggestedPrefix !== undefined ? { suggestedPrefix } : {}),
+});
+
+describe('Rule Application E2E Tests', () => {
+  test('should apply the first matching rule and record it', () => {
+    const engine = new RuleEngine([updateRule, fixRule]);
+    const result = engine.applyRules('Fixed crash on startup');
+
+    expect(result).toEqual({
+      applied: true,
+      originalMessage: 'Fixed crash on startup',
+      transformedMessage: 'fix: crash on startup',
+      appliedRule: fixRule,
+    });
+  });
+
+  test('should leave conventional messages untouched', () => {
+    const engine = new RuleEngine([updateRule]);
+    expect(engine.applyRules('feat: add login').applied).toBe(false);
+  });
+
+  test('should skip rules whose output is not a valid conventional commit', () => {
+    const badRule = createTransformRule('^update', 'Updated', 'Not conventional');
+    const engine = new RuleEngine([badRule, updateRule]);
+
+    expect(engine.applyRules('update readme').appliedRule).toBe(updateRule);
+  });
+
+  test('should fall back to the suggested prefix and preserve the body', () => {
+    const engine = new RuleEngine([]);
+    const result = engine.applyRules('Tweak build script\n\nDetails here', 'build');
+
+    expect(result.transformedMessage).toBe('build: Tweak build script\n\nDetails here');
+    expect(result.appliedRule?.reason).toMatch(/suggested prefix/);
+    expect(result.appliedRule !== undefined && RuleEngine.isFallbackRule(result.appliedRule)).toBe(
+      true
+    );
+
+    // A generated rule with the same reason is still a generated rule
+    const lookalike = createTransformRule(
+      '^tweak\\s+(.+)$',
+      'build: $1',
+      result.appliedRule?.reason ?? ''
+    );
+    const generated = new RuleEngine([lookalike]).applyRules('tweak build script');
+    expect(generated.appliedRule).toBe(lookalike);
+    expect(RuleEngine.isFallbackRule(lookalike)).toBe(false);
+  });
+
+  test('should be reproducible across runs and report conflicts', () => {
+    const commits = [
+      commit('aaaaaaa', 'update readme', 'docs'),
+      commit('bbbbbbb', 'fixes null check', 'fix'),
+      commit('ccccccc', 'feat: add login', 'feat'),
+      commit('ddddddd', 'misc', undefined),
+    ];
+
+    const first = new RuleEngine([updateRule, broadRule, fixRule]).applyToCommits(commits);
+    const second = new RuleEngine([updateRule, broadRule, fixRule]).applyToCommits(commits);
+
+    expect(first.finalCommits).toEqual(second.finalCommits);
+    expect(first.finalCommits.map((c) => c.message)).toEqual([
+      'docs: update readme',
+      'fix: null check',
+      'feat: add login',
+      'misc',
+    ]);
+    expect(first.unchanged.map((c) => c.hash)).toEqual(['ccccccc', 'ddddddd']);
+    expect(first.conflicts).toHaveLength(1);
+    expect(first.conflicts[0]?.hash).toBe('aaaaaaa');
+  });
+
+  test('should neutralise stateful global regex flags', () => {
+    const globalRule = createTransformRule('^update\\s+(.+)$', 'docs: update $1', 'Global', 'gi');
+    const engine = new RuleEngine([globalRule]);
+
+    expect(engine.applyRules('update a').applied).toBe(true);
+    expect(engine.applyRules('update b').applied).toBe(true);
+  });
+});